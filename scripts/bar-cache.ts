@@ -0,0 +1,51 @@
+/**
+ * Bar cache maintenance: inspect, repair or clear cached OHLCV bars
+ * Usage: npx tsx scripts/bar-cache.ts <inspect|repair|clear> [TICKER ...] [--interval=1d]
+ */
+import {
+    inspectBarCache,
+    repairBarCache,
+    clearBarCache,
+    listCachedTickers,
+    BarCacheReport,
+} from '../src/services/barCache.js';
+
+function formatReport(r: BarCacheReport): string {
+    const issues: string[] = [];
+    if (r.invalidVersion) issues.push('unreadable/old layout');
+    if (r.duplicates > 0) issues.push(`${r.duplicates} duplicate bars`);
+    if (r.unsorted) issues.push('unsorted');
+    if (r.nullBars > 0) issues.push(`${r.nullBars} null bars`);
+    const range = r.bars > 0 ? `${r.firstDate} → ${r.lastDate}` : 'empty';
+    return `${r.ticker.padEnd(10)} ${String(r.bars).padStart(5)} bars  ${range}  ${issues.length ? '⚠️ ' + issues.join(', ') : '✓'}`;
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const command = args[0];
+    const interval = args.find((a) => a.startsWith('--interval='))?.split('=')[1] || '1d';
+    const tickers = args.slice(1).filter((a) => !a.startsWith('--')).map((t) => t.toUpperCase());
+    const targets = tickers.length > 0 ? tickers : listCachedTickers(interval);
+
+    if (command === 'inspect') {
+        for (const ticker of targets) console.log(formatReport(inspectBarCache(ticker, interval)));
+        console.log(`✅ Inspected ${targets.length} cached ticker(s) (${interval})`);
+    } else if (command === 'repair') {
+        for (const ticker of targets) {
+            const report = repairBarCache(ticker, interval);
+            console.log(report ? formatReport(report) : `${ticker.padEnd(10)} removed (will be refetched)`);
+        }
+        console.log(`✅ Repaired ${targets.length} cached ticker(s) (${interval})`);
+    } else if (command === 'clear') {
+        const removed = clearBarCache(interval, tickers.length > 0 ? tickers : undefined);
+        console.log(`✅ Removed ${removed} cache file(s) (${interval})`);
+    } else {
+        console.log('Usage: npx tsx scripts/bar-cache.ts <inspect|repair|clear> [TICKER ...] [--interval=1d]');
+        process.exit(1);
+    }
+}
+
+main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+});
@@ -1,9 +1,10 @@
 /**
  * Smart Volume Radar - Configuration Loader
- * Loads environment variables and watchlist configuration (Google Sheets)
+ * Loads environment variables
  */
 
 import * as dotenv from 'dotenv';
+import { SignalMetric } from '../types/index.js';
 
 // Load environment variables
 dotenv.config();
@@ -16,6 +17,32 @@ export const config = {
     minRVOL: parseFloat(process.env.MIN_RVOL || '2.0'),
     topN: parseInt(process.env.TOP_N || '15', 10),
     priceChangeThreshold: parseFloat(process.env.PRICE_CHANGE_THRESHOLD || '2'),
+    // Multi-window RVOL: today's volume vs each N-day average (comma-separated), and 5-day RVOL at or
+    // above MIN_SUSTAINED_RVOL = sustained volume (own report section for stocks under MIN_RVOL)
+    rvolWindows: (process.env.RVOL_WINDOWS || '20,50,63')
+        .split(',')
+        .map((w) => parseInt(w.trim(), 10))
+        .filter((w) => w > 0),
+    minSustainedRvol: parseFloat(process.env.MIN_SUSTAINED_RVOL || '1.5'),
+    // Signal metric: rvol (≥ MIN_RVOL), zscore (log-volume z-score ≥ MIN_VOLUME_ZSCORE over the RVOL
+    // lookback) or percentile (today's volume ≥ MIN_VOLUME_PERCENTILE of the last year)
+    signalMetric: (process.env.SIGNAL_METRIC || 'rvol').toLowerCase() as SignalMetric,
+    minVolumeZScore: parseFloat(process.env.MIN_VOLUME_ZSCORE || '2'),
+    minVolumePercentile: parseFloat(process.env.MIN_VOLUME_PERCENTILE || '95'),
+    // Open at least this % away from the previous close = gap (report groups: gap & go, gap fade, no gap)
+    gapMinPct: parseFloat(process.env.GAP_MIN_PCT || '1'),
+    // Composite signal score weights, e.g. "rvol=40,setup=20,rs=15,price=10,liquidity=5,trend=10";
+    // unlisted components keep their default weight, 0 turns one off
+    scoreWeights: process.env.SCORE_WEIGHTS || '',
+    // Sector heatmap: a sector surges when its combined volume runs at this RVOL with several names at it too
+    sectorSurgeRvol: parseFloat(process.env.SECTOR_SURGE_RVOL || '1.5'),
+    sectorSurgeMinNames: parseInt(process.env.SECTOR_SURGE_MIN_NAMES || '2', 10),
+    // Named screens ("rvol >= 3 and rsi < 70"): JSON file [{ name, expression }] and/or a tab of the
+    // watchlist sheet (gid from the tab URL; column A = name, B = expression). Each match gets a report section
+    screensFile: process.env.SCREENS_FILE || '',
+    screensSheetGid: process.env.SCREENS_SHEET_GID || '',
+    // Close above a swing-high pivot on at least this RVOL = confirmed breakout
+    breakoutMinRvol: parseFloat(process.env.BREAKOUT_MIN_RVOL || '1.5'),
 
     // Consolidation / pre-breakout indicators (flexible: show full ✓ and close ~)
     consolidationMinMonths: parseInt(process.env.CONSOLIDATION_MIN_MONTHS || '6', 10),
@@ -23,12 +50,62 @@ export const config = {
     consolidationCloseMinMonths: parseInt(process.env.CONSOLIDATION_CLOSE_MIN_MONTHS || '4', 10), // 4–6mo = close
     athThresholdPct: parseFloat(process.env.ATH_THRESHOLD_PCT || '20'), // within 20% of ATH
     athCloseThresholdPct: parseFloat(process.env.ATH_CLOSE_THRESHOLD_PCT || '25'), // 20–25% = close
+    // High the setup (distance + base length) is measured against: 52w = 52-week high, ath = highest high of the history
+    setupHigh: (process.env.SETUP_HIGH || '52w').toLowerCase() as '52w' | 'ath',
     sma21TouchThresholdPct: parseFloat(process.env.SMA21_TOUCH_THRESHOLD_PCT || '3'), // within 3% = touching
     sma21CloseThresholdPct: parseFloat(process.env.SMA21_CLOSE_THRESHOLD_PCT || '5'), // 3–5% = close
+    // Base pattern (flat base, cup-with-handle, VCP) with this quality (0–100) counts as a met base ✓; weaker ones as close ~
+    basePatternMinQuality: parseFloat(process.env.BASE_PATTERN_MIN_QUALITY || '60'),
+    // Anchored VWAP (52w high, base low, high-RVOL day): above = ✓, up to this % below = close ~
+    avwapCloseThresholdPct: parseFloat(process.env.AVWAP_CLOSE_THRESHOLD_PCT || '2'),
+
+    /** Bollinger bandwidth (% of the middle band) at or below this = volatility squeeze */
+    bollingerSqueezeBandwidthPct: parseFloat(process.env.BB_SQUEEZE_BANDWIDTH_PCT || '10'),
+
+    // Relative strength: 3/6/12-month performance vs the benchmark, rated 1–99 across the scanned tickers
+    rsBenchmarkUs: process.env.RS_BENCHMARK_US || 'SPY',
+    rsBenchmarkTase: process.env.RS_BENCHMARK_TASE || '^TA125.TA', // used for .TA tickers
+    minRsRating: parseFloat(process.env.MIN_RS_RATING || '0'), // signals rated below this are dropped; 0 = off
 
     // Prefer fetching RSI/SMA from Twelve Data instead of calculating (when key is set)
     useFetchedIndicators: process.env.USE_FETCHED_INDICATORS !== 'false',
 
+    /** Market data providers in fallback order (comma-separated names, e.g. "yahoo,twelvedata") */
+    marketDataProviders: (process.env.MARKET_DATA_PROVIDERS || 'yahoo,twelvedata')
+        .split(',')
+        .map((p) => p.trim().toLowerCase())
+        .filter(Boolean),
+
+    /** Daily history downloaded from Yahoo (range param: 5y, 10y, max); bounds the all-time high */
+    yahooHistoryRange: process.env.YAHOO_HISTORY_RANGE || '5y',
+
+    // Local OHLCV bar cache (incremental refresh instead of re-downloading 5y every run)
+    barCacheEnabled: process.env.BAR_CACHE_ENABLED !== 'false',
+    barCacheDir: process.env.BAR_CACHE_DIR || '.cache/bars',
+
+    // Signal history between runs: days flagged in the last N sessions, new signals 🆕, setup upgrades
+    signalHistoryEnabled: process.env.SIGNAL_HISTORY_ENABLED !== 'false',
+    signalHistoryFile: process.env.SIGNAL_HISTORY_FILE || '.cache/signal-history.json',
+    signalHistorySessions: parseInt(process.env.SIGNAL_HISTORY_SESSIONS || '20', 10),
+
+    // Intraday RVOL: during market hours compare volume so far with the average at the same time of day
+    // auto = only while the session is in progress, on = always, off = plain full-day RVOL
+    intradayRvolMode: (process.env.INTRADAY_RVOL || 'auto').toLowerCase() as 'auto' | 'on' | 'off',
+    intradayInterval: process.env.INTRADAY_INTERVAL || '5m',
+    intradayLookbackDays: parseInt(process.env.INTRADAY_LOOKBACK_DAYS || '20', 10),
+
+    /** Show today's traded value converted to USD in the report (FX rates from Yahoo) */
+    showDollarVolume: process.env.SHOW_DOLLAR_VOLUME !== 'false',
+
+    /** One-day close-to-close move above this % is flagged as a suspicious price jump */
+    maxPriceJumpPct: parseFloat(process.env.MAX_PRICE_JUMP_PCT || '40'),
+
+    /** Extra exchange closures not in the built-in calendars, e.g. "TASE:2026-10-02,US:2026-12-31" */
+    marketHolidays: (process.env.MARKET_HOLIDAYS || '')
+        .split(',')
+        .map((h) => h.trim())
+        .filter(Boolean),
+
     // API Keys
     finnhubApiKey: process.env.FINNHUB_API_KEY || '',
     openaiApiKey: process.env.OPENAI_API_KEY || '',
@@ -53,131 +130,40 @@ export const config = {
     // Watchlist: Google Sheet (public CSV export)
     googleSheetId: process.env.GOOGLE_SHEET_ID || '',
 
-    // Rate limiting
-    batchSize: 10,
-    batchDelayMs: 500, // 500ms between tickers - Chart API is less restrictive
-    newsDelayMs: 500,
+    // API request budgets (free-tier limits): requests per minute, Twelve Data credits per run
+    yahooRequestsPerMinute: parseInt(process.env.YAHOO_RPM || '120', 10),
+    twelveDataRequestsPerMinute: parseInt(process.env.TWELVE_DATA_RPM || '8', 10),
+    twelveDataCreditsPerRun: parseInt(process.env.TWELVE_DATA_CREDITS_PER_RUN || '800', 10),
+    finnhubRequestsPerMinute: parseInt(process.env.FINNHUB_RPM || '60', 10),
+
+    // Record/replay of all HTTP calls: live (default), record (save fixtures) or replay (offline from fixtures)
+    httpMode: (process.env.HTTP_MODE || 'live').toLowerCase() as 'live' | 'record' | 'replay',
+    httpFixturesDir: process.env.HTTP_FIXTURES_DIR || '.cache/http-fixtures',
 
-    // Retry settings
+    // HTTP client: attempts per request, backoff base, timeout and circuit breaker per provider
     maxRetries: 3,
     retryDelayMs: 2000,
+    httpTimeoutMs: parseInt(process.env.HTTP_TIMEOUT_MS || '15000', 10),
+    /** Consecutive failed requests before a provider is skipped for the cooldown */
+    circuitBreakerThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+    circuitBreakerCooldownMs: parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '60000', 10),
 } as const;
 
-/**
- * Ticker entry: symbol (required) and optional sector for grouping in reports
- */
-export interface TickerConfig {
-    symbol: string;
-    sector: string;
-    description?: string;
-}
-
-// Internal cache set by fetchAndCacheWatchlist(); must be called before loadWatchlist()
-let tickerCache: TickerConfig[] | null = null;
-
-const GOOGLE_SHEETS_CSV_URL = 'https://docs.google.com/spreadsheets/d/{id}/export?format=csv';
-
-/**
- * Fetch CSV content from a public Google Sheet
- * @param sheetId - ID from sheet URL (between /d/ and /edit)
- * @throws Error if request fails or non-2xx response
- */
-export async function fetchWatchlistCsv(sheetId: string): Promise<string> {
-    const url = GOOGLE_SHEETS_CSV_URL.replace('{id}', sheetId);
-    const res = await fetch(url, { redirect: 'follow' });
-    if (!res.ok) {
-        throw new Error(
-            `Failed to fetch watchlist: ${res.status} ${res.statusText}. Check GOOGLE_SHEET_ID and that the sheet is shared "Anyone with the link can view".`
-        );
-    }
-    return res.text();
-}
-
-/**
- * Parse CSV from Google Sheets into TickerConfig[].
- * - First row: treated as header if it looks like "Symbol" / "Sector" (case-insensitive), then skipped
- * - Column A: symbol (required); empty rows skipped
- * - Column B: sector (optional); default "Other" if empty
- */
-export function parseWatchlistCsv(csv: string): TickerConfig[] {
-    const lines = csv.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
-    if (lines.length === 0) {
-        throw new Error('Watchlist sheet is empty.');
-    }
-
-    const rows: string[][] = [];
-    for (const line of lines) {
-        // Simple CSV: split by comma; strip surrounding quotes from each cell
-        const cells = line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
-        rows.push(cells);
-    }
-
-    const isHeaderRow = (cells: string[]): boolean => {
-        const first = (cells[0] || '').toLowerCase();
-        return first === 'symbol' || first === 'sector' || first.includes('symbol') || first.includes('sector');
-    };
-
-    const startIndex = rows.length > 0 && isHeaderRow(rows[0]) ? 1 : 0;
-    const tickers: TickerConfig[] = [];
-
-    for (let i = startIndex; i < rows.length; i++) {
-        const cells = rows[i];
-        const symbol = (cells[0] || '').trim();
-        if (!symbol) continue;
-        const sector = (cells[1] || '').trim() || 'Other';
-        tickers.push({ symbol, sector });
-    }
-
-    if (tickers.length === 0) {
-        throw new Error('Watchlist sheet has no valid ticker rows (Column A = symbol).');
-    }
-
-    return tickers;
-}
-
-/**
- * Fetch watchlist from Google Sheet and cache it. Must be called once before loadWatchlist() / getSectorForTicker().
- * @throws Error if GOOGLE_SHEET_ID is missing, fetch fails, or sheet is empty
- */
-export async function fetchAndCacheWatchlist(): Promise<void> {
-    const sheetId = config.googleSheetId.trim();
-    if (!sheetId) {
-        throw new Error('GOOGLE_SHEET_ID is required. Set it to your Google Sheet ID (from the sheet URL).');
-    }
-    const csv = await fetchWatchlistCsv(sheetId);
-    tickerCache = parseWatchlistCsv(csv);
-}
-
-function getTickers(): TickerConfig[] {
-    if (tickerCache === null) {
-        throw new Error(
-            'Watchlist not loaded. Call fetchAndCacheWatchlist() once before loadWatchlist() or getSectorForTicker().'
-        );
-    }
-    return tickerCache;
-}
-
-/**
- * Load tickers for scanning
- * @returns Array of ticker symbols
- */
-export function loadWatchlist(): string[] {
-    const tickers = getTickers();
-    return tickers.map(t => t.symbol.toUpperCase());
-}
+/** Accepted values of the enumerated settings, checked by validateConfig */
+const SIGNAL_METRICS: SignalMetric[] = ['rvol', 'zscore', 'percentile'];
+const SETUP_HIGHS: (typeof config.setupHigh)[] = ['52w', 'ath'];
+const INTRADAY_RVOL_MODES: (typeof config.intradayRvolMode)[] = ['auto', 'on', 'off'];
 
 /**
- * Get sector for a ticker
+ * Problem message when an enumerated setting has a value outside its accepted ones
  */
-export function getSectorForTicker(symbol: string): string {
-    const tickers = getTickers();
-    const ticker = tickers.find(t => t.symbol.toUpperCase() === symbol.toUpperCase());
-    return ticker?.sector || 'Other';
+function invalidChoice(envVar: string, value: string, accepted: readonly string[]): string | undefined {
+    return accepted.includes(value) ? undefined : `${envVar} must be one of ${accepted.join(', ')} (got "${value}")`;
 }
 
 /**
  * Validate required configuration
- * @throws Error if critical config is missing
+ * @throws Error if critical config is missing or an enumerated setting (SIGNAL_METRIC, SETUP_HIGH, INTRADAY_RVOL) has an unknown value
  */
 export function validateConfig(): void {
     const missing: string[] = [];
@@ -187,7 +173,14 @@ export function validateConfig(): void {
     if (!config.telegramChatId) missing.push('TELEGRAM_CHAT_ID');
     if (!config.googleSheetId?.trim()) missing.push('GOOGLE_SHEET_ID');
 
-    if (missing.length > 0) {
-        throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+    const problems = [
+        missing.length > 0 ? `Missing required environment variables: ${missing.join(', ')}` : undefined,
+        invalidChoice('SIGNAL_METRIC', config.signalMetric, SIGNAL_METRICS),
+        invalidChoice('SETUP_HIGH', config.setupHigh, SETUP_HIGHS),
+        invalidChoice('INTRADAY_RVOL', config.intradayRvolMode, INTRADAY_RVOL_MODES),
+    ].filter((problem): problem is string => problem != null);
+
+    if (problems.length > 0) {
+        throw new Error(problems.join('; '));
     }
 }
@@ -3,14 +3,23 @@
  * Orchestrates the daily stock volume scan and reporting
  */
 
-import { loadWatchlist, validateConfig, config, getSectorForTicker, fetchAndCacheWatchlist } from './config/index.js';
+import { validateConfig, config } from './config/index.js';
+import { loadWatchlist, getSectorForTicker, fetchAndCacheWatchlist } from './services/watchlist.js';
 import { fetchAllStocks } from './services/marketData.js';
-import { calculateRVOL } from './services/rvolCalculator.js';
+import { calculateRVOL, formatSignalThreshold } from './services/rvolCalculator.js';
+import { parseScoreWeights } from './services/signalScore.js';
+import { loadScreens, runScreens } from './services/screens.js';
+import { calculateSectorStats } from './services/sectorStats.js';
+import { loadSignalHistory, applySignalHistory, recordSignals, saveSignalHistory } from './services/signalHistory.js';
 import { enrichWithNews } from './services/newsService.js';
 import { sendDailyReport, sendTelegramMessage } from './services/telegramBot.js';
 import { RVOLResult, MarketStatus } from './types/index.js';
 import logger from './utils/logger.js';
 import { formatErrorForTelegram } from './utils/errorHandler.js';
+import { getExchangeForTicker, getSessionState, getCalendar, hasSessionToScan } from './utils/tradingCalendar.js';
+import * as clock from './utils/clock.js';
+import { beginHttpSession } from './utils/httpRecorder.js';
+import { logBudgetReport } from './utils/requestScheduler.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -18,49 +27,41 @@ import { fileURLToPath } from 'node:url';
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 /**
- * Check if US market is open/closed for the day
- * Returns true if we should run the scan
+ * Check each watchlist exchange's calendar (weekends, holidays, session hours)
+ * Scan runs if any exchange has a session for this run; tickers on closed exchanges are left out
  */
-function checkMarketStatus(): MarketStatus {
-    const now = new Date();
-    // Get time in New York (EST/EDT)
-    const nyTime = new Intl.DateTimeFormat('en-US', {
-        timeZone: 'America/New_York',
-        hour: 'numeric',
-        hour12: false,
-        weekday: 'long',
-    }).formatToParts(now);
-
-    const weekday = nyTime.find(p => p.type === 'weekday')?.value;
-    const hour = parseInt(nyTime.find(p => p.type === 'hour')?.value || '0', 10);
-
-    // Skip weekends (Saturday, Sunday)
-    if (weekday === 'Saturday' || weekday === 'Sunday') {
-        return {
-            isOpen: false,
-            exchange: 'NYSE/NASDAQ',
-            currentTime: now,
-            message: `Market closed (it is ${weekday} in NY)`,
-        };
-    }
+function checkMarketStatus(tickers: string[]): MarketStatus {
+    const now = clock.now();
+    const exchanges = [...new Set(tickers.map(getExchangeForTicker))];
+    const states = exchanges.map((id) => getSessionState(id, now));
+
+    const notes = states.map((state) => {
+        const name = getCalendar(state.exchange).name;
+        if (state.phase === 'closed' && hasSessionToScan(state, now)) {
+            return `${name}: closed now (${state.holiday ?? 'weekend'}) – using the ${state.latestSession} session`;
+        }
+        if (state.phase === 'closed') return `${name}: closed today (${state.holiday ?? 'weekend'})`;
+        if (state.phase === 'pre-open') return `${name}: before the open – using the ${state.latestSession} session`;
+        if (state.phase === 'open') return `${name}: session in progress – data will be intraday`;
+        return `${name}: session closed – final daily bars`;
+    });
 
-    // US markets close at 16:00 (4 PM) EST. 
-    // We ideally run after close for final daily volume.
-    if (hour < 16) {
-        const msg = `Market is still open (it is ${hour}:00 in NY). Data will be intraday.`;
-        logger.warn(msg);
-        return {
-            isOpen: true,
-            exchange: 'NYSE/NASDAQ',
-            currentTime: now,
-            message: msg
-        };
-    }
+    const tradingExchanges = new Set(states.filter((s) => hasSessionToScan(s, now)).map((s) => s.exchange));
+    const openExchanges = new Set(states.filter((s) => s.phase === 'open').map((s) => s.exchange));
+    const scanTickers = tickers.filter((t) => tradingExchanges.has(getExchangeForTicker(t)));
+    const intradayTickers = tickers.filter((t) => openExchanges.has(getExchangeForTicker(t)));
+
+    if (openExchanges.size > 0) logger.warn(notes.join(' | '));
 
     return {
-        isOpen: true,
-        exchange: 'NYSE/NASDAQ',
+        isOpen: tradingExchanges.size > 0,
+        isIntraday: openExchanges.size > 0,
+        exchange: states.map((s) => getCalendar(s.exchange).name).join(', '),
         currentTime: now,
+        message: notes.join('\n'),
+        tickers: scanTickers,
+        skippedTickers: tickers.filter((t) => !tradingExchanges.has(getExchangeForTicker(t))),
+        intradayTickers,
     };
 }
 
@@ -72,17 +73,10 @@ async function main(): Promise<void> {
     const startTime = Date.now();
 
     try {
-        // 1. Check market status
-        const marketStatus = checkMarketStatus();
-        if (!marketStatus.isOpen && marketStatus.message && process.env.FORCE_SCAN !== 'true') {
-            logger.info(marketStatus.message);
-            await sendTelegramMessage(`📊 Smart Volume Radar\n\n${marketStatus.message}\nNo scan performed.`);
-            return;
-        } else if (process.env.FORCE_SCAN === 'true') {
-            logger.info(`${marketStatus.message} - FORCING scan using last available data.`);
-        }
+        // Record/replay HTTP fixtures when HTTP_MODE is set (freezes the clock at the run start)
+        beginHttpSession();
 
-        // 2. Validate configuration
+        // 1. Validate configuration
         try {
             validateConfig();
         } catch (error) {
@@ -91,19 +85,41 @@ async function main(): Promise<void> {
             logger.info('Continuing with available configuration...');
         }
 
-        // 3. Log LLM summary config (helps debug when summary doesn't appear)
+        // 2. Log LLM summary config (helps debug when summary doesn't appear)
         const llmProvider = config.llmProvider;
         const llmKey = llmProvider === 'gemini' ? config.geminiApiKey : llmProvider === 'perplexity' ? config.perplexityApiKey : config.openaiApiKey;
         logger.info(`LLM Summary: ${config.enableLlmSummary ? 'enabled' : 'DISABLED'} | provider=${llmProvider} | key=${llmKey ? '✓ set' : '✗ missing'}`);
 
-        // 4. Fetch watchlist from Google Sheet and load symbols
+        // 3. Fetch watchlist from Google Sheet and load symbols
         await fetchAndCacheWatchlist();
-        const tickers = loadWatchlist();
+        const watchlist = loadWatchlist();
+
+        // 4. Check exchange calendars: skip the scan when no watchlist exchange has a session for this run
+        const marketStatus = checkMarketStatus(watchlist);
+        const forceScan = process.env.FORCE_SCAN === 'true';
+        if (!marketStatus.isOpen && !forceScan) {
+            logger.info(marketStatus.message ?? 'Market closed');
+            await sendTelegramMessage(`📊 Smart Volume Radar\n\n${marketStatus.message}\nNo scan performed.`);
+            return;
+        } else if (forceScan) {
+            logger.info(`${marketStatus.message} - FORCING scan of all tickers using last available data.`);
+        }
+
+        const tickers = forceScan ? watchlist : marketStatus.tickers ?? watchlist;
+        if (!forceScan && marketStatus.skippedTickers?.length) {
+            logger.info(`⏭ Skipping ${marketStatus.skippedTickers.length} tickers (exchange closed today): ${marketStatus.skippedTickers.join(', ')}`);
+        }
         logger.info(`📋 Loaded ${tickers.length} tickers to scan`);
 
-        // 5. Fetch market data
-        logger.info('📊 Fetching market data...');
-        const { stocks, failedTickers } = await fetchAllStocks(tickers);
+        // 5. Fetch market data (time-of-day adjusted RVOL while the session is in progress)
+        const intradayTickers =
+            config.intradayRvolMode === 'on'
+                ? tickers
+                : config.intradayRvolMode === 'auto'
+                  ? marketStatus.intradayTickers ?? []
+                  : [];
+        logger.info(`📊 Fetching market data${intradayTickers.length > 0 ? ' (intraday RVOL mode)' : ''}...`);
+        const { stocks, failedTickers } = await fetchAllStocks(tickers, { intradayTickers });
         logger.info(`✅ Fetched data for ${stocks.length}/${tickers.length} stocks`);
 
         if (stocks.length === 0) {
@@ -113,19 +129,41 @@ async function main(): Promise<void> {
 
         // 6. Calculate RVOL and filter
         logger.info('🔢 Calculating RVOL...');
-        const { topSignals, volumeWithoutPrice } = calculateRVOL(stocks, {
+        const scoreWeights = parseScoreWeights(config.scoreWeights);
+        const rvolConfig = {
             minRVOL: config.minRVOL,
             topN: config.topN,
             priceChangeThreshold: config.priceChangeThreshold,
-        });
-        logger.info(`🎯 Found ${topSignals.length} signals (RVOL ≥ ${config.minRVOL})`);
+            minRsRating: config.minRsRating,
+            minSustainedRvol: config.minSustainedRvol,
+            scoreWeights,
+            signalMetric: config.signalMetric,
+            minVolumeZScore: config.minVolumeZScore,
+            minVolumePercentile: config.minVolumePercentile,
+        };
+        const { topSignals, volumeWithoutPrice, sustainedVolume, breakouts } = calculateRVOL(stocks, rvolConfig);
+        logger.info(`🎯 Found ${topSignals.length} signals (${formatSignalThreshold(rvolConfig)})`);
+
+        // Sector aggregation over every scanned stock (heatmap + surge flags)
+        const sectorStats = calculateSectorStats(
+            stocks.map((s) => ({ ...s, sector: getSectorForTicker(s.ticker) })),
+            { minRVOL: config.minRVOL, surgeRvol: config.sectorSurgeRvol, surgeMinNames: config.sectorSurgeMinNames }
+        );
+        const surging = sectorStats.filter((s) => s.surge).map((s) => s.sector);
+        if (surging.length > 0) logger.info(`🌊 Sector volume surge: ${surging.join(', ')}`);
+
+        // Named screens (SCREENS_FILE / screens sheet tab) over every scanned stock
+        const screenResults = runScreens(await loadScreens(), stocks, scoreWeights, config.signalMetric);
+        for (const { name, stocks: matched } of screenResults) {
+            logger.info(`🔎 Screen "${name}": ${matched.length} match(es)`);
+        }
 
         // 7. Enrich with news
         logger.info('📰 Enriching with news...');
         const enrichedSignals = await enrichWithNews(topSignals);
 
         // Mark volume without price stocks and add sector
-        const finalSignals: RVOLResult[] = enrichedSignals.map((s) => {
+        const signals: RVOLResult[] = enrichedSignals.map((s) => {
             return {
                 ...s,
                 sector: getSectorForTicker(s.ticker),
@@ -133,16 +171,34 @@ async function main(): Promise<void> {
             };
         });
 
+        // Signal history: streaks, new signals and setup upgrades vs earlier runs (not updated on replays)
+        const today = clock.now().toISOString().split('T')[0];
+        let finalSignals = signals;
+        if (config.signalHistoryEnabled) {
+            const history = loadSignalHistory(config.signalHistoryFile);
+            finalSignals = applySignalHistory(history, signals, today, config.signalHistorySessions);
+            if (config.httpMode !== 'replay') {
+                saveSignalHistory(config.signalHistoryFile, recordSignals(history, signals, today));
+            }
+        }
+
         // 8. Send report
-        const today = new Date().toISOString().split('T')[0];
-        await sendDailyReport(today, finalSignals, volumeWithoutPrice, failedTickers, {
-            watchlistCount: tickers.length,
-        });
+        const dataIssues = stocks.filter((s) => s.qualityFlags && s.qualityFlags.length > 0);
+        await sendDailyReport(
+            today,
+            finalSignals,
+            volumeWithoutPrice,
+            { failedTickers, dataIssues, sustainedVolume, breakouts, screenResults, sectorStats },
+            { watchlistCount: tickers.length }
+        );
 
         // 9. Log completion
         const duration = ((Date.now() - startTime) / 1000).toFixed(1);
         logger.info(`\n✅ Report sent successfully in ${duration}s`);
-        logger.info(`   Scanned: ${stocks.length} | Signals: ${topSignals.length} | Silent: ${volumeWithoutPrice.length}`);
+        logger.info(
+            `   Scanned: ${stocks.length} | Signals: ${topSignals.length} | Silent: ${volumeWithoutPrice.length} | Sustained: ${sustainedVolume.length} | Breakouts: ${breakouts.length}`
+        );
+        logBudgetReport();
 
     } catch (error) {
         const errorMessage = formatErrorForTelegram(error);
@@ -0,0 +1,274 @@
+/**
+ * Smart Volume Radar - OHLCV Bar Cache
+ * On-disk bar store (one JSON file per ticker per interval); providers read it first,
+ * fetch only the missing range and merge
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { config } from '../config/index.js';
+import logger from '../utils/logger.js';
+import { CorporateAction } from '../types/index.js';
+
+/** Bump when the file layout changes; older files are ignored and refetched (v2: split/dividend events, v3: full OHLC bars) */
+const BAR_CACHE_VERSION = 3;
+
+/** Overlapping bars may differ by this much before the cache is considered stale (e.g. split-adjusted upstream) */
+const OVERLAP_TOLERANCE_PCT = 0.5;
+
+/**
+ * One cached bar as returned by the provider (nulls kept as-is)
+ */
+export interface CachedBar {
+    /** Trading date of the bar in the exchange timezone (YYYY-MM-DD) */
+    date: string;
+    /** Bar timestamp (unix seconds) */
+    time: number;
+    open: number | null;
+    high: number | null;
+    low: number | null;
+    close: number | null;
+    /** Split/dividend-adjusted close as reported (daily intervals) */
+    adjClose?: number | null;
+    volume: number | null;
+}
+
+export interface BarCacheFile {
+    version: number;
+    ticker: string;
+    interval: string;
+    /** Exchange timezone (IANA) reported by the provider */
+    timezone?: string;
+    updatedAt: string;
+    bars: CachedBar[];
+    /** Splits/dividends reported with the bars (daily intervals) */
+    actions?: CorporateAction[];
+}
+
+/**
+ * Result of merging fresh bars into cached bars
+ */
+export interface BarMergeResult {
+    bars: CachedBar[];
+    /** True when an overlapping (non-latest) bar disagrees with the fresh data */
+    conflict: boolean;
+}
+
+/**
+ * Issues found in a cache file
+ */
+export interface BarCacheReport {
+    ticker: string;
+    interval: string;
+    bars: number;
+    firstDate?: string;
+    lastDate?: string;
+    updatedAt?: string;
+    duplicates: number;
+    unsorted: boolean;
+    nullBars: number;
+    invalidVersion: boolean;
+}
+
+/**
+ * Format a unix timestamp as YYYY-MM-DD in the given timezone (UTC when unknown)
+ */
+export function toExchangeDate(time: number, timeZone: string = 'UTC'): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+    }).format(new Date(time * 1000));
+}
+
+function safeFileName(ticker: string): string {
+    return ticker.toUpperCase().replace(/[^A-Z0-9._-]/g, '_');
+}
+
+function cacheFilePath(ticker: string, interval: string): string {
+    return path.join(config.barCacheDir, interval, `${safeFileName(ticker)}.json`);
+}
+
+/**
+ * Read the cache file for a ticker; null when missing, unreadable or from an older layout
+ */
+export function readBarCache(ticker: string, interval: string): BarCacheFile | null {
+    const file = cacheFilePath(ticker, interval);
+    if (!fs.existsSync(file)) return null;
+    try {
+        const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as BarCacheFile;
+        if (data.version !== BAR_CACHE_VERSION || !Array.isArray(data.bars)) return null;
+        return data;
+    } catch (error) {
+        logger.warn(`Bar cache unreadable for ${ticker} (${interval}), ignoring`, (error as Error).message);
+        return null;
+    }
+}
+
+/**
+ * Write (replace) the cache file for a ticker
+ */
+export function writeBarCache(
+    ticker: string,
+    interval: string,
+    bars: CachedBar[],
+    timezone?: string,
+    actions?: CorporateAction[]
+): void {
+    const file = cacheFilePath(ticker, interval);
+    const data: BarCacheFile = {
+        version: BAR_CACHE_VERSION,
+        ticker: ticker.toUpperCase(),
+        interval,
+        timezone,
+        updatedAt: new Date().toISOString(),
+        bars,
+        actions: actions && actions.length > 0 ? actions : undefined,
+    };
+    try {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(data));
+    } catch (error) {
+        logger.warn(`Failed to write bar cache for ${ticker} (${interval})`, (error as Error).message);
+    }
+}
+
+/**
+ * Delete cache files for the given tickers (all tickers of the interval when omitted)
+ * @returns Number of files removed
+ */
+export function clearBarCache(interval: string, tickers?: string[]): number {
+    const targets = tickers ?? listCachedTickers(interval);
+    let removed = 0;
+    for (const ticker of targets) {
+        const file = cacheFilePath(ticker, interval);
+        if (fs.existsSync(file)) {
+            fs.rmSync(file);
+            removed++;
+        }
+    }
+    return removed;
+}
+
+/**
+ * List tickers that have a cache file for the interval
+ */
+export function listCachedTickers(interval: string): string[] {
+    const dir = path.join(config.barCacheDir, interval);
+    if (!fs.existsSync(dir)) return [];
+    return fs
+        .readdirSync(dir)
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => f.replace(/\.json$/, ''));
+}
+
+/** Daily and longer intervals hold one bar per date; intraday intervals one bar per timestamp */
+function isDailyInterval(interval: string): boolean {
+    return /^\d*(d|wk|mo)$/.test(interval);
+}
+
+function barKey(bar: CachedBar, interval: string): string {
+    return isDailyInterval(interval) ? bar.date : String(bar.time);
+}
+
+/**
+ * Sort by time and keep one bar per key (the latest one wins)
+ */
+function normalizeBars(bars: CachedBar[], interval: string): CachedBar[] {
+    const byKey = new Map<string, CachedBar>();
+    for (const bar of [...bars].sort((a, b) => a.time - b.time)) {
+        byKey.set(barKey(bar, interval), bar);
+    }
+    return [...byKey.values()].sort((a, b) => a.time - b.time);
+}
+
+function closesDiffer(a: number | null, b: number | null): boolean {
+    if (a == null || b == null || a <= 0) return false;
+    return (Math.abs(a - b) / a) * 100 > OVERLAP_TOLERANCE_PCT;
+}
+
+/**
+ * Merge fresh bars into cached bars. Fresh bars replace cached bars with the same date
+ * (same timestamp for intraday intervals); the last cached bar may have been partial.
+ * Conflict = an overlapping bar other than the last cached one changed, i.e. history was re-adjusted.
+ */
+export function mergeBars(cached: CachedBar[], fresh: CachedBar[], interval: string = '1d'): BarMergeResult {
+    const freshByKey = new Map(fresh.map((b) => [barKey(b, interval), b]));
+    const lastCached = cached[cached.length - 1];
+    const lastCachedKey = lastCached ? barKey(lastCached, interval) : undefined;
+
+    let conflict = false;
+    for (const bar of cached) {
+        const key = barKey(bar, interval);
+        const update = freshByKey.get(key);
+        if (update && key !== lastCachedKey && closesDiffer(bar.close, update.close)) {
+            conflict = true;
+            break;
+        }
+    }
+
+    return { bars: normalizeBars([...cached, ...fresh], interval), conflict };
+}
+
+/**
+ * Union of cached and fresh corporate actions (one per type and ex-date, fresh wins), sorted by date
+ */
+export function mergeActions(cached: CorporateAction[] = [], fresh: CorporateAction[] = []): CorporateAction[] {
+    const byKey = new Map<string, CorporateAction>();
+    for (const action of [...cached, ...fresh]) byKey.set(`${action.type}:${action.date}`, action);
+    return [...byKey.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Inspect a cache file for duplicates, ordering and null bars
+ */
+export function inspectBarCache(ticker: string, interval: string): BarCacheReport {
+    const file = cacheFilePath(ticker, interval);
+    let raw: Partial<BarCacheFile> | null = null;
+    try {
+        raw = fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as BarCacheFile) : null;
+    } catch {
+        raw = null;
+    }
+
+    const bars = Array.isArray(raw?.bars) ? raw.bars : [];
+    const keys = new Set(bars.map((b) => barKey(b, interval)));
+    let unsorted = false;
+    for (let i = 1; i < bars.length; i++) {
+        if (bars[i].time < bars[i - 1].time) {
+            unsorted = true;
+            break;
+        }
+    }
+
+    return {
+        ticker: ticker.toUpperCase(),
+        interval,
+        bars: bars.length,
+        firstDate: bars[0]?.date,
+        lastDate: bars[bars.length - 1]?.date,
+        updatedAt: raw?.updatedAt,
+        duplicates: bars.length - keys.size,
+        unsorted,
+        nullBars: bars.filter((b) => b.close == null || b.volume == null).length,
+        invalidVersion: raw == null || raw.version !== BAR_CACHE_VERSION,
+    };
+}
+
+/**
+ * Repair a cache file in place: sort, drop duplicate bars and bars without a close.
+ * Files that cannot be read or have an old layout are deleted (refetched on the next run).
+ * @returns Report after repair, or null when the file was deleted
+ */
+export function repairBarCache(ticker: string, interval: string): BarCacheReport | null {
+    const cached = readBarCache(ticker, interval);
+    if (!cached) {
+        clearBarCache(interval, [ticker]);
+        return null;
+    }
+    const bars = normalizeBars(cached.bars.filter((b) => b.close != null && b.close > 0), interval);
+    writeBarCache(ticker, interval, bars, cached.timezone, cached.actions);
+    return inspectBarCache(ticker, interval);
+}
@@ -0,0 +1,138 @@
+/**
+ * Smart Volume Radar - Data Quality Validation
+ * Checks raw provider bars before RVOL is derived: null bars, bar freshness,
+ * zero-volume days, suspicious price jumps and short histories. Produces per-ticker quality flags.
+ */
+
+import { RawMarketData, RawBar, Bar, DataQualityFlag, BarStatus, StockData } from '../types/index.js';
+import { config } from '../config/index.js';
+import { getBarStatus } from '../utils/tradingCalendar.js';
+import * as clock from '../utils/clock.js';
+
+/** Zero-volume days within the RVOL lookback before the average is flagged as diluted */
+const MAX_ZERO_VOLUME_DAYS = 3;
+
+/** Window checked for price jumps (~1 year) */
+const PRICE_JUMP_WINDOW = 252;
+
+/**
+ * Cleaned bars plus the flags raised while validating
+ */
+export interface ValidatedSeries {
+    bars: Bar[];
+    lastBarDate?: string;
+    barStatus: BarStatus;
+    flags: DataQualityFlag[];
+}
+
+/**
+ * Complete a bar with a valid close and volume: missing open/high/low/adjClose fall back to the close,
+ * and high/low are widened to contain open and close
+ */
+function toBar(raw: RawBar, close: number, volume: number): Bar {
+    const open = raw.open != null && raw.open > 0 ? raw.open : close;
+    const high = raw.high != null && raw.high > 0 ? raw.high : close;
+    const low = raw.low != null && raw.low > 0 ? raw.low : close;
+    return {
+        date: raw.date,
+        open,
+        high: Math.max(high, open, close),
+        low: Math.min(low, open, close),
+        close,
+        adjClose: raw.adjClose != null && raw.adjClose > 0 ? raw.adjClose : close,
+        volume,
+    };
+}
+
+/**
+ * Validate raw provider bars. Bars with a missing close or volume are dropped.
+ * @param rvolLookback - Days in the RVOL average (short-history / zero-volume checks)
+ */
+export function validateMarketData(
+    raw: RawMarketData,
+    rvolLookback: number,
+    now: Date = clock.now()
+): ValidatedSeries {
+    const flags: DataQualityFlag[] = [];
+    const bars: Bar[] = [];
+
+    let dropped = 0;
+    let lastDropped = false;
+    raw.bars.forEach((bar, i) => {
+        const { close, volume } = bar;
+        if (close == null || close <= 0 || volume == null || volume < 0) {
+            dropped++;
+            if (i === raw.bars.length - 1) lastDropped = true;
+            return;
+        }
+        bars.push(toBar(bar, close, volume));
+    });
+    const closes = bars.map((b) => b.close);
+    const volumes = bars.map((b) => b.volume);
+
+    if (lastDropped) {
+        flags.push({
+            code: 'last-bar-null',
+            severity: 'error',
+            message: 'latest bar has no close/volume – the previous bar would look like today',
+        });
+    }
+    if (dropped > 0) {
+        flags.push({ code: 'null-bars', severity: 'warning', message: `${dropped} bar(s) with missing close/volume dropped` });
+    }
+
+    if (raw.bars.length > 0) {
+        const lookbackVolumes = volumes.slice(-(rvolLookback + 1), -1);
+        const zeroDays = lookbackVolumes.filter((v) => v === 0).length;
+        if (volumes.length > 0 && volumes[volumes.length - 1] === 0) {
+            flags.push({ code: 'zero-volume-today', severity: 'error', message: 'latest bar has zero volume (halted or not yet traded)' });
+        }
+        if (zeroDays >= MAX_ZERO_VOLUME_DAYS) {
+            flags.push({ code: 'zero-volume-days', severity: 'warning', message: `${zeroDays} zero-volume days in the ${rvolLookback}-day average` });
+        }
+
+        const jump = largestPriceJump(closes.slice(-PRICE_JUMP_WINDOW));
+        if (jump && Math.abs(jump.pct) > config.maxPriceJumpPct) {
+            const date = bars[bars.length - Math.min(bars.length, PRICE_JUMP_WINDOW) + jump.index].date;
+            const when = date ? ` on ${date}` : '';
+            flags.push({
+                code: 'price-jump',
+                severity: 'warning',
+                message: `${jump.pct > 0 ? '+' : ''}${jump.pct.toFixed(0)}% one-day move${when} (split or bad tick?)`,
+            });
+        }
+
+        if (closes.length <= rvolLookback) {
+            flags.push({ code: 'short-history', severity: 'warning', message: `only ${closes.length} bars of history` });
+        }
+    }
+
+    const lastBarDate = bars[bars.length - 1]?.date ?? raw.lastBarDate;
+    const barStatus = getBarStatus(raw.ticker, lastBarDate, now);
+    if (barStatus === 'stale') {
+        flags.push({ code: 'stale-bar', severity: 'error', message: `last bar ${lastBarDate} is older than the latest session` });
+    } else if (barStatus === 'missing') {
+        flags.push({ code: 'missing-bar-date', severity: 'warning', message: 'provider returned no bar date – freshness unknown' });
+    }
+
+    return { bars, lastBarDate, barStatus, flags };
+}
+
+/**
+ * Largest absolute one-day close-to-close move
+ */
+function largestPriceJump(closes: number[]): { pct: number; index: number } | null {
+    let best: { pct: number; index: number } | null = null;
+    for (let i = 1; i < closes.length; i++) {
+        const pct = ((closes[i] - closes[i - 1]) / closes[i - 1]) * 100;
+        if (!best || Math.abs(pct) > Math.abs(best.pct)) best = { pct, index: i };
+    }
+    return best;
+}
+
+/**
+ * True when a stock has an error-level flag (its RVOL is not trustworthy)
+ */
+export function hasDataError(stock: StockData): boolean {
+    return !!stock.qualityFlags?.some((f) => f.severity === 'error');
+}
@@ -8,7 +8,13 @@
 import pLimit from 'p-limit';
 import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
+import { httpRequest } from '../utils/httpClient.js';
 import type { StockData } from '../types/index.js';
+import { formatBasePatternType } from '../utils/basePatterns.js';
+import { formatPerformancePct } from '../utils/relativeStrength.js';
+import { formatGap } from '../utils/gapAnalysis.js';
+import { formatVwapAnchor } from '../utils/anchoredVwap.js';
+import { getSetupEmoji } from './rvolCalculator.js';
 
 const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
 const PERPLEXITY_API_URL = 'https://api.perplexity.ai/chat/completions';
@@ -46,9 +52,9 @@ function buildPrompt(stocks: StockData[], date: string, scope?: LlmScope): strin
             ? `\nScan scope: ${scope.watchlistCount} tickers. This table has ${stocks.length} stocks. ✓=met, ~=close. ${scope.setupCount ?? 0} have setup (🎯/👀).\n`
             : `\n${stocks.length} high-RVOL stocks.\n`;
 
-    return `You are a concise market analyst. Data below from Smart Volume Radar (${date}) – SAME parameters the code uses. Each row: SMA21%, High (52w), Base (mo). ✓ met, ~ close, ✗ far. 🎯 full setup, 👀 close setup.${scopeLine}
+    return `You are a concise market analyst. Data below from Smart Volume Radar (${date}) – SAME parameters the code uses. Each row: SMA21%, High (${config.setupHigh === 'ath' ? 'all-time' : '52w'}), Base (mo). ✓ met, ~ close, ✗ far. 🎯 full setup, 👀 close setup.${scopeLine}
 
-SETUP (same as code): Full 🎯 = SMA21 ≤${sma21TouchThresholdPct}%, High ≤${athThresholdPct}%, Base ${consolidationMinMonths}–${consolidationMaxMonths}mo.
+SETUP (same as code): Full 🎯 = SMA21 ≤${sma21TouchThresholdPct}%, High ≤${athThresholdPct}%, Base ${consolidationMinMonths}–${consolidationMaxMonths}mo or a base pattern with Q≥${config.basePatternMinQuality}.
 
 Data (code output):
 ---
@@ -64,6 +70,9 @@ interface ChatChoice {
     finish_reason?: string;
 }
 
+/** LLM calls are slow; allow longer than the default HTTP timeout */
+const LLM_TIMEOUT_MS = 60_000;
+
 /** Token limits: enough for 2–3 sentences with headroom to avoid truncation */
 const MAX_LLM_TOKENS = 8192;
 
@@ -74,18 +83,21 @@ async function callOpenAI(prompt: string, _systemPrompt: string = SYSTEM_PROMPT)
         return null;
     }
     try {
-        const response = await fetch(OPENAI_API_URL, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-            body: JSON.stringify({
-                model: 'gpt-4o-mini',
-                messages: [
-                    { role: 'system', content: SYSTEM_PROMPT },
-                    { role: 'user', content: prompt },
-                ],
-                max_tokens: MAX_LLM_TOKENS,
-                temperature: 0.3,
-            }),
+        const response = await httpRequest('openai', OPENAI_API_URL, {
+            timeoutMs: LLM_TIMEOUT_MS,
+            init: {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+                body: JSON.stringify({
+                    model: 'gpt-4o-mini',
+                    messages: [
+                        { role: 'system', content: SYSTEM_PROMPT },
+                        { role: 'user', content: prompt },
+                    ],
+                    max_tokens: MAX_LLM_TOKENS,
+                    temperature: 0.3,
+                }),
+            },
         });
         if (!response.ok) {
             logger.warn(`LLM summary (OpenAI) failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
@@ -112,18 +124,21 @@ async function callPerplexity(prompt: string, systemPrompt: string = SYSTEM_PROM
         return null;
     }
     try {
-        const response = await fetch(PERPLEXITY_API_URL, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-            body: JSON.stringify({
-                model: 'sonar',
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: prompt },
-                ],
-                max_tokens: MAX_LLM_TOKENS,
-                temperature: 0.3,
-            }),
+        const response = await httpRequest('perplexity', PERPLEXITY_API_URL, {
+            timeoutMs: LLM_TIMEOUT_MS,
+            init: {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+                body: JSON.stringify({
+                    model: 'sonar',
+                    messages: [
+                        { role: 'system', content: systemPrompt },
+                        { role: 'user', content: prompt },
+                    ],
+                    max_tokens: MAX_LLM_TOKENS,
+                    temperature: 0.3,
+                }),
+            },
         });
         if (!response.ok) {
             logger.warn(`LLM summary (Perplexity) failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
@@ -152,17 +167,20 @@ async function callGemini(prompt: string, systemPrompt: string = SYSTEM_PROMPT):
     const model = 'gemini-3-flash-preview';
     const url = `${GEMINI_API_BASE}/${model}:generateContent?key=${encodeURIComponent(apiKey)}`;
     try {
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                systemInstruction: { parts: [{ text: systemPrompt }] },
-                contents: [{ parts: [{ text: prompt }] }],
-                generationConfig: {
-                    maxOutputTokens: MAX_LLM_TOKENS,
-                    temperature: 0.2,
-                },
-            }),
+        const response = await httpRequest('gemini', url, {
+            timeoutMs: LLM_TIMEOUT_MS,
+            init: {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    systemInstruction: { parts: [{ text: systemPrompt }] },
+                    contents: [{ parts: [{ text: prompt }] }],
+                    generationConfig: {
+                        maxOutputTokens: MAX_LLM_TOKENS,
+                        temperature: 0.2,
+                    },
+                }),
+            },
         });
         if (!response.ok) {
             logger.warn(`LLM summary (Gemini) failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
@@ -196,6 +214,48 @@ function callLlm(prompt: string, systemPrompt: string = SYSTEM_PROMPT): Promise<
     return callOpenAI(prompt, systemPrompt);
 }
 
+/**
+ * Momentum/volatility, relative strength, volume, breakout, gap and anchored VWAP context (informational – not part of the setup conditions)
+ */
+function formatIndicatorsForLlm(stock: StockData): string {
+    const macd = stock.macd
+        ? `${stock.macd.histogram >= 0 ? '+' : ''}${stock.macd.histogram.toFixed(2)}`
+        : '—';
+    const adx = stock.adx
+        ? `${stock.adx.adx.toFixed(0)} (${stock.adx.plusDI >= stock.adx.minusDI ? '+DI' : '−DI'} leads)`
+        : '—';
+    const atr = stock.atrPct != null ? `${stock.atrPct.toFixed(1)}%` : '—';
+    const adr = stock.adrPct != null ? `${stock.adrPct.toFixed(1)}%` : '—';
+    const bb = stock.bollinger
+        ? `${stock.bollinger.bandwidth.toFixed(1)}%${stock.bollingerSqueeze ? ' squeeze' : ''}`
+        : '—';
+    const rs = stock.relativeStrength;
+    const rsText =
+        rs?.rating != null
+            ? `${rs.rating}${rs.benchmark && rs.vsBenchmark.m3 != null ? ` (3m vs ${rs.benchmark} ${formatPerformancePct(rs.vsBenchmark.m3)})` : ''}`
+            : '—';
+    const va = stock.volumeAnalytics;
+    const volume = va
+        ? `${va.bias} (U/D ${va.upDownRatio != null ? va.upDownRatio.toFixed(2) : '—'}, A/D days ${va.accumulationDays}/${va.distributionDays}, OBV ${va.obvTrend}${va.obvDivergence ? ` ${va.obvDivergence} divergence` : ''}${va.pocketPivotBarsAgo != null ? `, pocket pivot ${va.pocketPivotBarsAgo}d ago` : ''})`
+        : '—';
+    const b = stock.breakout;
+    const breakout = b
+        ? `${b.type} pivot ${b.pivot.toFixed(2)} ${b.barsAgo}d ago on ${b.rvol.toFixed(1)}x${b.volumeConfirmed ? ' (volume confirmed)' : ''}`
+        : '—';
+    const gap = stock.gap
+        ? `${stock.gap.category} (${formatGap(stock.gap)}, close at ${(stock.gap.closeLocation * 100).toFixed(0)}% of range)`
+        : '—';
+    const avwap =
+        stock.anchoredVwaps && stock.anchoredVwaps.length > 0
+            ? stock.anchoredVwaps.map((a) => `${formatVwapAnchor(a.anchor)} ${formatPerformancePct(a.pctFrom)}`).join(', ')
+            : '—';
+    const anomaly = stock.volumeAnomaly;
+    const volumeZ = anomaly
+        ? `${anomaly.zScore != null ? anomaly.zScore.toFixed(1) : '—'} (1y percentile ${anomaly.percentile.toFixed(0)})`
+        : '—';
+    return `Volume z-score: ${volumeZ} | MACD hist: ${macd} | ADX: ${adx} | ATR: ${atr} | ADR: ${adr} | BB width: ${bb} | RS rating: ${rsText} | Volume: ${volume} | Breakout: ${breakout} | Gap: ${gap} | Price vs AVWAP: ${avwap}`;
+}
+
 /**
  * Format RAW stock data for LLM – so it can CALCULATE the params itself.
  * Same conditions as code, but LLM does the math.
@@ -212,9 +272,14 @@ function formatRawStockForLlm(stock: StockData): string {
     const base = stock.monthsInConsolidation != null ? stock.monthsInConsolidation.toFixed(1) : '—';
     const sign = stock.priceChange >= 0 ? '+' : '';
     const rsi = stock.rsi != null ? stock.rsi.toFixed(0) : '—';
+    const highLabel = stock.athSource === 'ath' ? 'all-time' : '52w';
+    const other = stock.athSource === 'ath' ? stock.high52w : stock.allTimeHigh;
+    const otherHigh = other ? ` | ${stock.athSource === 'ath' ? '52w' : 'All-time'} High (context only): ${other.price.toFixed(2)}` : '';
     return `Ticker: ${stock.ticker}
-Price: ${price} | SMA21: ${sma21} | 52w High: ${athVal} | Base: ${base}mo
-RVOL: ${stock.rvol.toFixed(2)}x | Price chg: ${sign}${stock.priceChange.toFixed(2)}% | RSI: ${rsi}`;
+Price: ${price} ${stock.currency ?? 'USD'} | SMA21: ${sma21} | Setup High (${highLabel}): ${athVal} | Base: ${base}mo${otherHigh}
+RVOL: ${stock.rvol.toFixed(2)}x | Price chg: ${sign}${stock.priceChange.toFixed(2)}% | RSI: ${rsi}
+Base pattern: ${stock.basePattern ? formatBasePatternForLlm(stock) : '—'}
+${formatIndicatorsForLlm(stock)}`;
 }
 
 /**
@@ -243,7 +308,8 @@ function formatStockForLlm(stock: StockData): string {
     if (stock.pctFromAth != null) {
         const absPct = Math.abs(stock.pctFromAth);
         const met = absPct <= athThresholdPct;
-        highLine = `High: ${stock.pctFromAth.toFixed(0)}% from 52w ${met ? '✓' : '~'} (req ≤${athThresholdPct}%)`;
+        const highLabel = stock.athSource === 'ath' ? 'ATH' : '52w';
+        highLine = `High: ${stock.pctFromAth.toFixed(0)}% from ${highLabel} ${met ? '✓' : '~'} (req ≤${athThresholdPct}%)`;
     }
 
     let baseLine = 'Base: —';
@@ -258,23 +324,20 @@ function formatStockForLlm(stock: StockData): string {
         baseLine = `Base: ${mo}mo ${met ? '✓' : close ? '~' : '✗'} (req ${consolidationMinMonths}–${consolidationMaxMonths}mo)`;
     }
 
-    const isFull = !!(stock.nearSMA21 && stock.nearAth && stock.inConsolidationWindow);
-    const isClose =
-        (stock.nearSMA21 || stock.nearSMA21Close) &&
-        (stock.nearAth || stock.nearAthClose) &&
-        (stock.inConsolidationWindow || stock.inConsolidationClose);
-    const setup = isFull ? '🎯' : isClose ? '👀' : '—';
+    let patternLine = 'Pattern: —';
+    if (stock.basePattern) {
+        patternLine = `Pattern: ${formatBasePatternForLlm(stock)} ${stock.hasBasePattern ? '✓' : '~'} (req Q≥${config.basePatternMinQuality})`;
+    }
 
-    return `${stock.ticker} | RVOL ${stock.rvol.toFixed(2)}x | Price ${sign}${stock.priceChange.toFixed(2)}% | RSI ${rsi} | ${sma21Line} | ${highLine} | ${baseLine} | Setup ${setup}`;
+    return `${stock.ticker} | RVOL ${stock.rvol.toFixed(2)}x | Price ${sign}${stock.priceChange.toFixed(2)}% | RSI ${rsi} | ${sma21Line} | ${highLine} | ${baseLine} | ${patternLine} | Setup ${getSetupEmoji(stock)} | ${formatIndicatorsForLlm(stock)}`;
 }
 
-function getCodeSetup(stock: StockData): '🎯' | '👀' | '—' {
-    const isFull = !!(stock.nearSMA21 && stock.nearAth && stock.inConsolidationWindow);
-    const isClose =
-        (stock.nearSMA21 || stock.nearSMA21Close) &&
-        (stock.nearAth || stock.nearAthClose) &&
-        (stock.inConsolidationWindow || stock.inConsolidationClose);
-    return isFull ? '🎯' : isClose ? '👀' : '—';
+/**
+ * Base pattern summary: type, depth, pivot and quality
+ */
+function formatBasePatternForLlm(stock: StockData): string {
+    const p = stock.basePattern!;
+    return `${formatBasePatternType(p.type)} ${p.depthPct.toFixed(0)}% deep, pivot ${p.pivot.toFixed(2)}, Q${p.quality}`;
 }
 
 function buildSingleStockPrompt(rawData: string, codeSetup: string, date: string): string {
@@ -292,8 +355,8 @@ function buildSingleStockPrompt(rawData: string, codeSetup: string, date: string
 
 CONDITIONS (identical to code):
 1. SMA21: |Price-SMA21|/SMA21 × 100 = distance %. ✓ if ≤${sma21TouchThresholdPct}%, ~ if ${sma21TouchThresholdPct}–${sma21CloseThresholdPct}%, ✗ otherwise
-2. High: |(Price-52wHigh)/52wHigh| × 100 = distance %. ✓ if ≤${athThresholdPct}%, ~ if ${athThresholdPct}–${athCloseThresholdPct}%, ✗ otherwise
-3. Base: months given. ✓ if ${consolidationMinMonths}–${consolidationMaxMonths}mo, ~ if ${consolidationCloseMinMonths}–${consolidationMinMonths}mo, ✗ otherwise
+2. High: |(Price-SetupHigh)/SetupHigh| × 100 = distance %. ✓ if ≤${athThresholdPct}%, ~ if ${athThresholdPct}–${athCloseThresholdPct}%, ✗ otherwise
+3. Base: months given. ✓ if ${consolidationMinMonths}–${consolidationMaxMonths}mo or a base pattern with Q≥${config.basePatternMinQuality}, ~ if ${consolidationCloseMinMonths}–${consolidationMinMonths}mo or any other base pattern, ✗ otherwise
 
 Setup verdict: 🎯 = all ✓, 👀 = all ~ (or mix ✓~), — = any ✗
 
@@ -331,7 +394,7 @@ export async function getPerStockAnalyses(stocks: StockData[], date: string): Pr
     const tasks = stocks.map((stock) =>
         limit(async () => {
             const rawData = formatRawStockForLlm(stock);
-            const codeSetup = getCodeSetup(stock);
+            const codeSetup = getSetupEmoji(stock);
             const prompt = buildSingleStockPrompt(rawData, codeSetup, date);
             const analysis = await callLlm(prompt, SINGLE_STOCK_PROMPT);
             return { ticker: stock.ticker, codeSetup, analysis };
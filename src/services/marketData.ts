@@ -1,242 +1,331 @@
 /**
  * Smart Volume Radar - Market Data Service
- * Uses direct HTTP requests to avoid library-specific rate limiting issues
+ * Fetches raw data through the configured providers (in fallback order) and derives StockData
+ * in one shared step, so setup flags are identical regardless of provider
  */
 
-import { StockData } from '../types/index.js';
+import { StockData, RawMarketData, MarketDataProvider, PeriodPerformance } from '../types/index.js';
 import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
+import * as clock from '../utils/clock.js';
 import pLimit from 'p-limit';
-import { calculateSMA, calculateRSI, calculate52wHighAndConsolidation, isNearSMA } from '../utils/technicalAnalysis.js';
+import {
+    calculateSMA,
+    calculateEMA,
+    calculateRSI,
+    calculateMACD,
+    calculateBollingerBands,
+    calculateATR,
+    calculateADX,
+    calculateAdrPct,
+    calculatePriceHigh,
+    isNearSMA,
+    TRADING_DAYS_52W,
+} from '../utils/technicalAnalysis.js';
+import { calculateIntradayRvol } from '../utils/intradayVolume.js';
+import { detectBasePattern } from '../utils/basePatterns.js';
+import { analyzeVolume } from '../utils/volumeAnalytics.js';
+import { calculateRvolWindows } from '../utils/multiWindowRvol.js';
+import { findPriceLevels, classifyBreakout } from '../utils/priceLevels.js';
+import { analyzeGap } from '../utils/gapAnalysis.js';
+import { calculateAnchoredVwaps } from '../utils/anchoredVwap.js';
+import { calculateVolumeAnomaly, scoreVolume } from '../utils/volumeAnomaly.js';
+import {
+    calculatePerformance,
+    calculateRelativeStrength,
+    assignRsRatings,
+    getBenchmarkTicker,
+} from '../utils/relativeStrength.js';
+import { adjustForCorporateActions } from '../utils/corporateActions.js';
+import { normalizeCurrency } from '../utils/currency.js';
+import { validateMarketData, ValidatedSeries } from './dataQuality.js';
+import { resolveProviders, fetchIndicatorsFromTwelveData, fetchUsdRate } from './marketDataProviders.js';
+import { VOLUME_RVOL_LOOKBACK } from './rvolCalculator.js';
 
 /**
- * Direct fetch from Yahoo Finance chart API
- * Uses 5y range for price history; 52w high and consolidation use last 252 days
+ * Pick the setup high (SETUP_HIGH) and set near/close flags for SMA21, high, consolidation window,
+ * base pattern quality and Bollinger squeeze from already computed values.
+ * Single place for the threshold logic used by every provider.
  */
-async function fetchFromYahooChart(ticker: string): Promise<StockData | null> {
-    try {
-        const url = `https://query1.finance.yahoo.com/v8/finance/chart/${ticker}?interval=1d&range=5y`;
-
-        const response = await fetch(url, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
-                'Accept': 'application/json',
-            },
-        });
-
-        if (!response.ok) {
-            if (response.status === 429) {
-                logger.warn(`⚠️ Yahoo Chart API rate limited for ${ticker}`);
-            }
-            return null;
-        }
+export function applySetupFlags(stock: StockData): StockData {
+    const result: StockData = { ...stock };
+
+    // Setup high: the all-time high when configured and known, else the 52w high
+    const useAllTimeHigh = config.setupHigh === 'ath' && stock.allTimeHigh != null;
+    const setupHigh = useAllTimeHigh ? stock.allTimeHigh : stock.high52w;
+    if (setupHigh) {
+        result.ath = setupHigh.price;
+        result.athSource = useAllTimeHigh ? 'ath' : '52w';
+        result.pctFromAth = setupHigh.pctFrom;
+        result.monthsInConsolidation = setupHigh.monthsSince;
+    }
 
-        const data = await response.json() as any;
-        const result = data?.chart?.result?.[0];
+    if (result.pctFromAth != null) {
+        const absPct = Math.abs(result.pctFromAth);
+        result.nearAth = absPct <= config.athThresholdPct;
+        result.nearAthClose = absPct > config.athThresholdPct && absPct <= config.athCloseThresholdPct;
+    }
 
-        if (!result) {
-            logger.warn(`No chart data for ${ticker}`);
-            return null;
-        }
+    if (result.monthsInConsolidation != null) {
+        const mo = result.monthsInConsolidation;
+        result.inConsolidationWindow = mo >= config.consolidationMinMonths && mo <= config.consolidationMaxMonths;
+        result.inConsolidationClose = !result.inConsolidationWindow &&
+            mo >= config.consolidationCloseMinMonths &&
+            mo < config.consolidationMinMonths;
+    }
 
-        const meta = result.meta;
-        const indicators = result.indicators?.quote?.[0];
+    if (stock.basePattern) {
+        result.hasBasePattern = stock.basePattern.quality >= config.basePatternMinQuality;
+    }
 
-        if (!indicators?.volume || indicators.volume.length === 0) {
-            return null;
-        }
+    if (stock.bollinger) {
+        result.bollingerSqueeze = stock.bollinger.bandwidth <= config.bollingerSqueezeBandwidthPct;
+    }
 
-        // Get volumes and closes (filter out nulls)
-        const volumes = indicators.volume.filter((v: number | null) => v !== null && v > 0);
-        const closes = indicators.close?.filter((c: number | null) => c !== null && c > 0) || [];
-
-        if (volumes.length < 5 || closes.length < 2) return null;
-
-        // Current volume is the last entry
-        const currentVolume = volumes[volumes.length - 1] || 0;
-
-        // Average volume: 63-day SMA (industry standard ~3-month lookback for RVOL)
-        const VOLUME_RVOL_LOOKBACK = 63;
-        const historicalVolumes = volumes.slice(0, -1);
-        const lookbackVolumes = historicalVolumes.slice(-VOLUME_RVOL_LOOKBACK);
-        const avgVolume = lookbackVolumes.length > 0
-            ? lookbackVolumes.reduce((a: number, b: number) => a + b, 0) / lookbackVolumes.length
-            : 0;
-
-        if (avgVolume === 0) return null;
-
-        const rvol = currentVolume / avgVolume;
-
-        // Calculate price change from close prices
-        const currentClose = closes[closes.length - 1];
-        const previousClose = closes[closes.length - 2];
-        const priceChange = previousClose > 0 ? ((currentClose - previousClose) / previousClose) * 100 : 0;
-
-        // Calculate Technical Indicators
-        const sma21 = calculateSMA(closes, 21);
-        const sma50 = calculateSMA(closes, 50);
-        const sma200 = calculateSMA(closes, 200);
-        const rsi = calculateRSI(closes, 14);
-
-        const lastPrice = meta.regularMarketPrice || currentClose || 0;
-
-        // 52-week high and consolidation (pre-breakout indicators)
-        const athData = calculate52wHighAndConsolidation(closes);
-        let ath: number | undefined;
-        let pctFromAth: number | undefined;
-        let monthsInConsolidation: number | undefined;
-        let nearAth: boolean | undefined;
-        let inConsolidationWindow: boolean | undefined;
-
-        let nearAthClose: boolean | undefined;
-        let inConsolidationClose: boolean | undefined;
-        if (athData) {
-            ath = athData.ath;
-            pctFromAth = athData.pctFromAth;
-            monthsInConsolidation = athData.monthsInConsolidation;
-            const absPct = Math.abs(athData.pctFromAth);
-            nearAth = absPct <= config.athThresholdPct;
-            nearAthClose = absPct > config.athThresholdPct && absPct <= config.athCloseThresholdPct;
-            inConsolidationWindow =
-                athData.monthsInConsolidation >= config.consolidationMinMonths &&
-                athData.monthsInConsolidation <= config.consolidationMaxMonths;
-            inConsolidationClose = !inConsolidationWindow &&
-                athData.monthsInConsolidation >= config.consolidationCloseMinMonths &&
-                athData.monthsInConsolidation < config.consolidationMinMonths;
-        }
+    if (stock.sma21) {
+        result.nearSMA21 = isNearSMA(stock.lastPrice, stock.sma21, config.sma21TouchThresholdPct);
+        result.nearSMA21Close = !result.nearSMA21
+            ? isNearSMA(stock.lastPrice, stock.sma21, config.sma21CloseThresholdPct)
+            : undefined;
+    }
 
-        let finalSma21 = sma21;
-        let finalRsi = rsi;
+    return result;
+}
 
-        if (config.useFetchedIndicators && process.env.TWELVE_DATA_API_KEY) {
-            const fetched = await fetchIndicatorsFromTwelveData(ticker, process.env.TWELVE_DATA_API_KEY);
-            if (fetched.rsi != null) finalRsi = fetched.rsi;
-            if (fetched.sma21 != null) finalSma21 = fetched.sma21;
-        }
+/**
+ * Derive StockData (RVOL, indicators, 52w / all-time highs, consolidation) from validated daily bars
+ */
+function deriveFromHistory(raw: RawMarketData, series: ValidatedSeries): StockData | null {
+    const { ticker } = raw;
+    const { bars } = series;
+    if (bars.length < 5) return null;
+    const closes = bars.map((b) => b.close);
+    const volumes = bars.map((b) => b.volume);
+
+    // Current volume is the last entry
+    const currentVolume = volumes[volumes.length - 1] || 0;
+
+    const historicalVolumes = volumes.slice(0, -1);
+    const lookbackVolumes = historicalVolumes.slice(-VOLUME_RVOL_LOOKBACK);
+    const avgVolume = lookbackVolumes.length > 0
+        ? lookbackVolumes.reduce((a, b) => a + b, 0) / lookbackVolumes.length
+        : 0;
+
+    if (avgVolume === 0) return null;
+
+    // Calculate price change from close prices
+    const currentClose = closes[closes.length - 1];
+    const previousClose = closes[closes.length - 2];
+    const priceChange = previousClose > 0 ? ((currentClose - previousClose) / previousClose) * 100 : 0;
+
+    // 52-week and all-time highs with consolidation (pre-breakout indicators)
+    const high52w = calculatePriceHigh(bars, TRADING_DAYS_52W) ?? undefined;
+    const allTimeHigh = calculatePriceHigh(bars) ?? undefined;
+    const lastPrice = raw.lastPrice || currentClose || 0;
+    const atr = calculateATR(bars, 14);
+
+    return {
+        ticker,
+        currentVolume,
+        avgVolume,
+        rvol: currentVolume / avgVolume,
+        priceChange,
+        lastPrice,
+        sma21: calculateSMA(closes, 21),
+        sma50: calculateSMA(closes, 50),
+        sma200: calculateSMA(closes, 200),
+        ema21: calculateEMA(closes, 21),
+        rsi: calculateRSI(closes, 14),
+        macd: calculateMACD(closes, 12, 26, 9),
+        bollinger: calculateBollingerBands(closes, 20, 2),
+        atr,
+        atrPct: atr != null && lastPrice > 0 ? (atr / lastPrice) * 100 : undefined,
+        adx: calculateADX(bars, 14),
+        adrPct: calculateAdrPct(bars, 20),
+        high52w,
+        allTimeHigh,
+        basePattern: detectBasePattern(bars) ?? undefined,
+        performance: calculatePerformance(closes),
+        volumeAnalytics: analyzeVolume(bars),
+        rvolWindows: calculateRvolWindows(bars, config.rvolWindows, config.minSustainedRvol),
+        priceLevels: findPriceLevels(bars),
+        breakout: classifyBreakout(bars, config.breakoutMinRvol) ?? undefined,
+        gap: analyzeGap(bars, config.gapMinPct),
+        anchoredVwaps: calculateAnchoredVwaps(bars, config.minRVOL),
+        volumeAnomaly: calculateVolumeAnomaly(volumes, VOLUME_RVOL_LOOKBACK),
+    };
+}
 
-        const nearSMA21 = finalSma21 ? isNearSMA(lastPrice, finalSma21, config.sma21TouchThresholdPct) : undefined;
-        const nearSMA21Close = finalSma21 && !nearSMA21
-            ? isNearSMA(lastPrice, finalSma21, config.sma21CloseThresholdPct)
-            : undefined;
+/**
+ * Derive StockData from a quote-only response (no history: no SMA50/200 or consolidation)
+ */
+function deriveFromQuote(raw: RawMarketData): StockData | null {
+    const { quote } = raw;
+    if (!quote) return null;
+
+    const lastPrice = raw.lastPrice || 0;
+    const high = quote.high52w;
+
+    return {
+        ticker: raw.ticker,
+        currentVolume: quote.volume,
+        avgVolume: quote.avgVolume,
+        rvol: quote.volume / quote.avgVolume,
+        priceChange: quote.priceChange,
+        lastPrice,
+        high52w: high != null && high > 0 ? { price: high, pctFrom: ((lastPrice - high) / high) * 100 } : undefined,
+    };
+}
 
-        return {
-            ticker,
-            currentVolume,
-            avgVolume,
-            rvol,
-            priceChange,
-            lastPrice,
-            sma21: finalSma21,
-            sma50,
-            sma200,
-            rsi: finalRsi,
-            ath,
-            athSource: '52w',
-            pctFromAth,
-            monthsInConsolidation,
-            nearSMA21,
-            nearAth,
-            inConsolidationWindow,
-            nearSMA21Close,
-            nearAthClose,
-            inConsolidationClose,
-        };
-    } catch (error) {
-        logger.error(`❌ Chart fetch failed for ${ticker}:`, (error as Error).message);
-        return null;
-    }
+/**
+ * Convert prices quoted in a minor unit (ILA agorot, GBp pence) into the main currency
+ */
+function normalizePriceUnits(raw: RawMarketData): RawMarketData {
+    const { currency, divisor } = normalizeCurrency(raw.currency);
+    if (divisor === 1) return { ...raw, currency };
+    const scale = (v: number | null | undefined): number | undefined => (v != null ? v / divisor : undefined);
+    return {
+        ...raw,
+        currency,
+        bars: raw.bars.map((b) => ({
+            ...b,
+            open: b.open != null ? b.open / divisor : b.open,
+            high: b.high != null ? b.high / divisor : b.high,
+            low: b.low != null ? b.low / divisor : b.low,
+            close: b.close != null ? b.close / divisor : null,
+            adjClose: b.adjClose != null ? b.adjClose / divisor : b.adjClose,
+        })),
+        lastPrice: scale(raw.lastPrice),
+        quote: raw.quote ? { ...raw.quote, high52w: scale(raw.quote.high52w) } : undefined,
+        indicators: raw.indicators ? { ...raw.indicators, sma21: scale(raw.indicators.sma21) } : undefined,
+        actions: raw.actions?.map((a) => (a.amount != null ? { ...a, amount: a.amount / divisor } : a)),
+    };
 }
 
-/** Twelve Data API base */
-const TWELVE_DATA_BASE = 'https://api.twelvedata.com';
+/**
+ * Shared step: raw provider data -> price units -> split/dividend adjustment -> validation -> StockData with
+ * indicators, setup and quality flags. History is preferred; quote-only data is used when history
+ * is too short. Provider-supplied RSI/SMA21 override the locally calculated values.
+ */
+export function deriveStockData(provided: RawMarketData, now: Date = clock.now()): StockData | null {
+    const raw = normalizePriceUnits(provided);
+    const adjusted = adjustForCorporateActions(raw);
+    const series = validateMarketData(adjusted.raw, VOLUME_RVOL_LOOKBACK, now);
+    const base = deriveFromHistory(adjusted.raw, series) ?? deriveFromQuote(raw);
+    if (!base) return null;
+
+    if (raw.indicators?.rsi != null) base.rsi = raw.indicators.rsi;
+    if (raw.indicators?.sma21 != null) base.sma21 = raw.indicators.sma21;
+    base.currency = raw.currency ?? 'USD';
+    if (raw.exchange) base.exchange = raw.exchange;
+    base.lastBarDate = series.lastBarDate;
+    base.barStatus = series.barStatus;
+    if (series.flags.length > 0) base.qualityFlags = series.flags;
+
+    // Splits within the last year (what RVOL, SMA, RSI and the 52w high look at) are noted on the signal
+    const noteSince = series.bars[Math.max(0, series.bars.length - TRADING_DAYS_52W)]?.date;
+    const recentSplits = noteSince ? adjusted.splits.filter((s) => s.date >= noteSince) : [];
+    if (recentSplits.length > 0) base.splitAdjustments = recentSplits;
+
+    return applySetupFlags(base);
+}
 
 /**
- * Fetch RSI and SMA21 from Twelve Data (pre-calculated, no local calculation)
+ * Prefer RSI/SMA21 from Twelve Data when configured and the provider did not supply them
  */
-async function fetchIndicatorsFromTwelveData(
-    ticker: string,
-    apiKey: string
-): Promise<{ rsi?: number; sma21?: number }> {
-    const result: { rsi?: number; sma21?: number } = {};
-    try {
-        const [rsiRes, smaRes] = await Promise.all([
-            fetch(`${TWELVE_DATA_BASE}/rsi?symbol=${ticker}&interval=1day&time_period=14&apikey=${apiKey}`),
-            fetch(`${TWELVE_DATA_BASE}/sma?symbol=${ticker}&interval=1day&time_period=21&series_type=close&apikey=${apiKey}`),
-        ]);
-
-        const rsiData = (await rsiRes.json()) as any;
-        if (rsiData?.status === 'ok' && rsiData?.values?.[0]?.rsi != null) {
-            result.rsi = parseFloat(rsiData.values[0].rsi);
-        }
+async function withFetchedIndicators(raw: RawMarketData): Promise<RawMarketData> {
+    const apiKey = process.env.TWELVE_DATA_API_KEY;
+    if (raw.indicators || !config.useFetchedIndicators || !apiKey) return raw;
+    return { ...raw, indicators: await fetchIndicatorsFromTwelveData(raw.ticker, apiKey) };
+}
 
-        const smaData = (await smaRes.json()) as any;
-        if (smaData?.status === 'ok' && smaData?.values?.[0]?.sma != null) {
-            result.sma21 = parseFloat(smaData.values[0].sma);
-        }
-    } catch {
-        // Silently fall back to calculated values
+/**
+ * Try each provider in order until one yields usable StockData
+ */
+async function fetchWithFallback(
+    ticker: string,
+    providers: MarketDataProvider[]
+): Promise<{ data: StockData; source: string } | null> {
+    for (const provider of providers) {
+        const raw = await provider.fetchDaily(ticker);
+        if (!raw) continue;
+        const data = deriveStockData(await withFetchedIndicators(raw));
+        if (data) return { data, source: provider.name };
     }
-    return result;
+    return null;
 }
 
 /**
- * Fetch from Twelve Data API – fetches RSI, SMA21, 52w high when available
+ * Replace full-day RVOL with time-of-day adjusted RVOL from intraday bars.
+ * Keeps the stock unchanged when no provider serves intraday data or today has no bars yet.
  */
-async function fetchFromTwelveData(ticker: string): Promise<StockData | null> {
-    const apiKey = process.env.TWELVE_DATA_API_KEY;
-    if (!apiKey) return null;
-
-    try {
-        const url = `${TWELVE_DATA_BASE}/quote?symbol=${ticker}&apikey=${apiKey}`;
-        const response = await fetch(url);
-        const data = await response.json() as any;
+async function applyIntradayRvol(stock: StockData, providers: MarketDataProvider[]): Promise<StockData> {
+    const provider = providers.find((p) => p.fetchIntraday);
+    if (!provider?.fetchIntraday) return stock;
+
+    const intraday = await provider.fetchIntraday(stock.ticker);
+    if (!intraday) return stock;
+
+    const adjusted = calculateIntradayRvol(intraday, stock.avgVolume, config.intradayLookbackDays);
+    if (!adjusted) return stock;
+
+    // A breakout on today's partial bar is confirmed against time-of-day adjusted volume
+    const breakout =
+        stock.breakout?.barsAgo === 0
+            ? { ...stock.breakout, rvol: adjusted.rvol, volumeConfirmed: adjusted.rvol >= config.breakoutMinRvol }
+            : stock.breakout;
+    // Z-score / percentile of the full-day-equivalent volume (adjusted RVOL × average volume)
+    const volumeAnomaly = stock.volumeAnomaly
+        ? scoreVolume(stock.volumeAnomaly.baseline, adjusted.rvol * stock.avgVolume)
+        : undefined;
+    return { ...stock, rvol: adjusted.rvol, intradayRvol: adjusted.details, breakout, volumeAnomaly };
+}
 
-        if (data.status === 'error' || !data.close) {
-            return null;
-        }
+/**
+ * Today's traded value in USD; FX rates are fetched once per currency per run
+ */
+async function withDollarVolume(stock: StockData, usdRates: Map<string, Promise<number | undefined>>): Promise<StockData> {
+    const currency = stock.currency ?? 'USD';
+    if (!usdRates.has(currency)) usdRates.set(currency, fetchUsdRate(currency));
+    const rate = await usdRates.get(currency);
+    return rate != null ? { ...stock, dollarVolume: stock.currentVolume * stock.lastPrice * rate } : stock;
+}
 
-        const volume = parseFloat(data.volume) || 0;
-        const avgVolume = parseFloat(data.average_volume) || parseFloat(data.volume) || 1;
-        const lastPrice = parseFloat(data.close) || 0;
-        const fiftyTwoWeek = data.fifty_two_week;
-        const high52w = fiftyTwoWeek?.high != null ? parseFloat(fiftyTwoWeek.high) : undefined;
-
-        let rsi: number | undefined;
-        let sma21: number | undefined;
-        const indicators = await fetchIndicatorsFromTwelveData(ticker, apiKey);
-        rsi = indicators.rsi;
-        sma21 = indicators.sma21;
-
-        const ath = high52w;
-        const pctFromAth = ath != null && ath > 0 ? ((lastPrice - ath) / ath) * 100 : undefined;
-        const absPct = pctFromAth != null ? Math.abs(pctFromAth) : Infinity;
-        const nearAth = pctFromAth != null && absPct <= config.athThresholdPct;
-        const nearAthClose = pctFromAth != null && absPct > config.athThresholdPct && absPct <= config.athCloseThresholdPct;
-
-        const nearSMA21 = sma21 ? isNearSMA(lastPrice, sma21, config.sma21TouchThresholdPct) : undefined;
-        const nearSMA21Close = sma21 && !nearSMA21 ? isNearSMA(lastPrice, sma21, config.sma21CloseThresholdPct) : undefined;
-
-        return {
-            ticker,
-            currentVolume: volume,
-            avgVolume,
-            rvol: volume / avgVolume,
-            priceChange: parseFloat(data.percent_change) || 0,
-            lastPrice,
-            sma21,
-            rsi,
-            ath,
-            athSource: '52w',
-            pctFromAth,
-            nearSMA21,
-            nearAth,
-            nearAthClose,
-            nearSMA21Close,
-        };
-    } catch (error) {
-        logger.error(`❌ Twelve Data fetch failed for ${ticker}:`, (error as Error).message);
-        return null;
+/**
+ * 3/6/12-month performance of a benchmark from the first provider with enough history.
+ * Index volumes can be zero, so closes are read from the raw bars instead of deriving StockData.
+ */
+async function fetchBenchmarkPerformance(
+    ticker: string,
+    providers: MarketDataProvider[]
+): Promise<PeriodPerformance | undefined> {
+    for (const provider of providers) {
+        const raw = await provider.fetchDaily(ticker);
+        const closes = (raw?.bars ?? [])
+            .map((b) => b.close)
+            .filter((close): close is number => close != null && close > 0);
+        const performance = calculatePerformance(closes);
+        if (performance) return performance;
     }
+    logger.warn(`💪 Benchmark ${ticker} unavailable – its stocks are left without an RS rating`);
+    return undefined;
+}
+
+/**
+ * Performance vs each stock's benchmark (fetched once per benchmark) and the RS rating across all stocks
+ */
+async function withRelativeStrength(stocks: StockData[], providers: MarketDataProvider[]): Promise<StockData[]> {
+    const benchmarks = new Map<string, Promise<PeriodPerformance | undefined>>();
+    const withScores = await Promise.all(
+        stocks.map(async (stock) => {
+            if (!stock.performance) return stock;
+            const benchmark = getBenchmarkTicker(stock.ticker, config.rsBenchmarkUs, config.rsBenchmarkTase);
+            if (!benchmarks.has(benchmark)) benchmarks.set(benchmark, fetchBenchmarkPerformance(benchmark, providers));
+            const relativeStrength = calculateRelativeStrength(stock.performance, benchmark, await benchmarks.get(benchmark));
+            return relativeStrength ? { ...stock, relativeStrength } : stock;
+        })
+    );
+    return assignRsRatings(withScores);
 }
 
 export interface FetchAllStocksResult {
@@ -244,33 +333,45 @@ export interface FetchAllStocksResult {
     failedTickers: string[];
 }
 
+export interface FetchAllStocksOptions {
+    /** Tickers whose session is in progress: use time-of-day adjusted RVOL */
+    intradayTickers?: string[];
+}
+
 /**
- * Fetch all stocks with multiple fallback strategies
+ * Fetch all stocks, trying providers in config.marketDataProviders order
  */
-export async function fetchAllStocks(tickers: string[]): Promise<FetchAllStocksResult> {
-    logger.info(`🚀 Starting fetch for ${tickers.length} tickers using concurrency...`);
-
-    // Limit concurrency to avoid aggressive rate limiting from Yahoo/Twelve Data
+export async function fetchAllStocks(
+    tickers: string[],
+    options: FetchAllStocksOptions = {}
+): Promise<FetchAllStocksResult> {
+    const providers = resolveProviders(config.marketDataProviders);
+    logger.info(
+        `🚀 Starting fetch for ${tickers.length} tickers using concurrency (providers: ${providers.map((p) => p.name).join(' → ') || 'none'})...`
+    );
+
+    // Tickers in flight; request rates per provider are enforced by the request scheduler
     const limit = pLimit(3);
     const results: StockData[] = [];
     const failedTickers: string[] = [];
 
+    const intradayTickers = new Set(options.intradayTickers ?? []);
+    const usdRates = new Map<string, Promise<number | undefined>>();
+
     const tasks = tickers.map((ticker, index) => limit(async () => {
         logger.info(`[${index + 1}/${tickers.length}] Fetching ${ticker}...`);
 
-        // Try Yahoo Chart API first
-        let result = await fetchFromYahooChart(ticker);
-        let successSource = 'Yahoo Chart';
-
-        if (!result) {
-            // Try Twelve Data as fallback
-            result = await fetchFromTwelveData(ticker);
-            successSource = 'Twelve Data';
-        }
+        const result = await fetchWithFallback(ticker, providers);
 
         if (result) {
-            logger.info(`✅ ${ticker}: RVOL=${result.rvol.toFixed(2)}x (${successSource})`);
-            return { ticker, data: result };
+            let data = intradayTickers.has(ticker) ? await applyIntradayRvol(result.data, providers) : result.data;
+            if (config.showDollarVolume) data = await withDollarVolume(data, usdRates);
+            const mode = data.intradayRvol ? ', time-of-day adjusted' : '';
+            logger.info(`✅ ${ticker}: RVOL=${data.rvol.toFixed(2)}x (${result.source}${mode})`);
+            for (const flag of data.qualityFlags ?? []) {
+                if (flag.severity === 'error') logger.warn(`🩺 ${ticker}: ${flag.message}`);
+            }
+            return { ticker, data };
         } else {
             logger.warn(`❌ ${ticker}: No data from any source`);
             return { ticker, data: null };
@@ -291,5 +392,5 @@ export async function fetchAllStocks(tickers: string[]): Promise<FetchAllStocksR
     if (failedTickers.length > 0) {
         logger.warn(`⚠️ Failed to fetch: ${failedTickers.join(', ')}`);
     }
-    return { stocks: results, failedTickers };
+    return { stocks: await withRelativeStrength(results, providers), failedTickers };
 }
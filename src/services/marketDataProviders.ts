@@ -0,0 +1,364 @@
+/**
+ * Smart Volume Radar - Market Data Providers
+ * Each provider fetches raw history/quote for a ticker; StockData is derived in marketData.ts
+ */
+
+import { MarketDataProvider, RawMarketData, RawIntradayData, CorporateAction } from '../types/index.js';
+import { config } from '../config/index.js';
+import logger from '../utils/logger.js';
+import { httpRequest } from '../utils/httpClient.js';
+import { getHttpMode } from '../utils/httpRecorder.js';
+import { nowMs } from '../utils/clock.js';
+import { CachedBar, readBarCache, writeBarCache, mergeBars, mergeActions, toExchangeDate } from './barCache.js';
+
+/** Twelve Data API base */
+const TWELVE_DATA_BASE = 'https://api.twelvedata.com';
+
+/** Yahoo chart API base */
+const YAHOO_CHART_BASE = 'https://query1.finance.yahoo.com/v8/finance/chart';
+
+/** Days re-fetched before the last cached bar on incremental refresh (catches late corrections) */
+const CACHE_REFRESH_OVERLAP_DAYS = 7;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** Intraday bars kept in the cache (Yahoo serves 5m bars for the last ~60 days) */
+const INTRADAY_RETENTION_DAYS = 60;
+
+/**
+ * Parsed Yahoo chart response: bars plus the meta fields we use
+ */
+interface YahooChart {
+    bars: CachedBar[];
+    /** Splits/dividends from events=split,div */
+    actions: CorporateAction[];
+    timezone?: string;
+    regularMarketPrice?: number;
+    currency?: string;
+    exchange?: string;
+}
+
+/** chart.result[0].events with events=split,div (keyed by timestamp) */
+interface YahooEvents {
+    splits?: Record<string, { date?: number; numerator?: number; denominator?: number }>;
+    dividends?: Record<string, { date?: number; amount?: number }>;
+}
+
+/**
+ * Minutes per bar of an intraday interval in Yahoo notation (5m, 15m, 1h, …)
+ * @throws Error for anything other than a number of minutes or hours
+ */
+function intervalToMinutes(interval: string): number {
+    const match = /^(\d+)([mh])$/.exec(interval.trim());
+    if (!match || parseInt(match[1], 10) === 0) {
+        throw new Error(`Unsupported INTRADAY_INTERVAL "${interval}" (use minutes or hours, e.g. 5m or 1h)`);
+    }
+    return parseInt(match[1], 10) * (match[2] === 'h' ? 60 : 1);
+}
+
+/**
+ * Parse chart events into corporate actions
+ */
+function parseYahooEvents(events: YahooEvents | undefined, timezone?: string): CorporateAction[] {
+    const actions: CorporateAction[] = [];
+    for (const split of Object.values(events?.splits ?? {})) {
+        const { date, numerator = 0, denominator = 0 } = split;
+        const ratio = numerator > 0 && denominator > 0 ? numerator / denominator : 1;
+        if (date && ratio !== 1) actions.push({ type: 'split', date: toExchangeDate(date, timezone), ratio });
+    }
+    for (const { date, amount } of Object.values(events?.dividends ?? {})) {
+        if (date && amount && amount > 0) actions.push({ type: 'dividend', date: toExchangeDate(date, timezone), amount });
+    }
+    return actions.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Fetch and parse one Yahoo chart request
+ * @param query - Range part of the query, e.g. "range=5y" or "period1=...&period2=..."
+ */
+async function fetchYahooChart(ticker: string, interval: string, query: string): Promise<YahooChart | null> {
+    const url = `${YAHOO_CHART_BASE}/${ticker}?interval=${interval}&${query}&events=split,div`;
+
+    const response = await httpRequest('yahoo', url, {
+        init: {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+                'Accept': 'application/json',
+            },
+        },
+    });
+
+    if (!response.ok) {
+        logger.warn(`Yahoo chart request for ${ticker} failed: HTTP ${response.status}`);
+        return null;
+    }
+
+    const data = await response.json() as any;
+    const result = data?.chart?.result?.[0];
+
+    if (!result) {
+        logger.warn(`No chart data for ${ticker}`);
+        return null;
+    }
+
+    const meta = result.meta;
+    const timezone: string | undefined = meta?.exchangeTimezoneName;
+    const timestamps: number[] = result.timestamp || [];
+    const quote = result.indicators?.quote?.[0] || {};
+    const adjClose: (number | null)[] | undefined = result.indicators?.adjclose?.[0]?.adjclose;
+
+    const bars: CachedBar[] = timestamps.map((time, i) => ({
+        date: toExchangeDate(time, timezone),
+        time,
+        open: quote.open?.[i] ?? null,
+        high: quote.high?.[i] ?? null,
+        low: quote.low?.[i] ?? null,
+        close: quote.close?.[i] ?? null,
+        adjClose: adjClose?.[i] ?? undefined,
+        volume: quote.volume?.[i] ?? null,
+    }));
+
+    return {
+        bars,
+        actions: parseYahooEvents(result.events, timezone),
+        timezone,
+        regularMarketPrice: meta?.regularMarketPrice || undefined,
+        currency: meta?.currency || undefined,
+        exchange: meta?.fullExchangeName || meta?.exchangeName || undefined,
+    };
+}
+
+/**
+ * Bars for a ticker: read the cache, fetch only the missing range and merge.
+ * Falls back to a full download when there is no cache or cached history was re-adjusted upstream.
+ * @param fullQuery - Range part of the query for a full download (e.g. "range=5y")
+ * @param retentionDays - Drop cached bars older than this (intraday data is only kept short-term)
+ */
+async function fetchYahooBars(
+    ticker: string,
+    interval: string,
+    fullQuery: string,
+    retentionDays?: number
+): Promise<YahooChart | null> {
+    // Recorded/replayed runs always download the full range, so fixtures do not depend on cache state
+    const useCache = config.barCacheEnabled && getHttpMode() === 'live';
+    const cached = useCache ? readBarCache(ticker, interval) : null;
+    const store = (chart: YahooChart): YahooChart => {
+        const cutoff = retentionDays != null ? nowMs() / 1000 - retentionDays * SECONDS_PER_DAY : -Infinity;
+        const bars = chart.bars.filter((b) => b.time >= cutoff);
+        if (useCache && bars.length > 0) writeBarCache(ticker, interval, bars, chart.timezone, chart.actions);
+        return { ...chart, bars };
+    };
+
+    if (cached && cached.bars.length > 0) {
+        const lastTime = cached.bars[cached.bars.length - 1].time;
+        const period1 = lastTime - CACHE_REFRESH_OVERLAP_DAYS * SECONDS_PER_DAY;
+        const period2 = Math.floor(nowMs() / 1000);
+        const fresh = await fetchYahooChart(ticker, interval, `period1=${period1}&period2=${period2}`);
+
+        if (fresh) {
+            const merged = mergeBars(cached.bars, fresh.bars, interval);
+            if (!merged.conflict) {
+                return store({
+                    ...fresh,
+                    bars: merged.bars,
+                    actions: mergeActions(cached.actions, fresh.actions),
+                    timezone: fresh.timezone ?? cached.timezone,
+                });
+            }
+            logger.warn(`Bar cache for ${ticker} (${interval}) disagrees with fresh data (history re-adjusted?) – refetching full range`);
+        }
+    }
+
+    const full = await fetchYahooChart(ticker, interval, fullQuery);
+    return full ? store(full) : null;
+}
+
+/**
+ * Yahoo Finance chart API (direct HTTP, multi-year daily + recent intraday history, cached on disk)
+ */
+export const yahooChartProvider: MarketDataProvider = {
+    name: 'yahoo',
+
+    isAvailable(): boolean {
+        return true;
+    },
+
+    async fetchDaily(ticker: string): Promise<RawMarketData | null> {
+        try {
+            const chart = await fetchYahooBars(ticker, '1d', `range=${config.yahooHistoryRange}`);
+            if (!chart || chart.bars.length === 0) return null;
+
+            // Nulls are kept so validation can drop (or complete) them per bar
+            return {
+                ticker,
+                source: 'yahoo',
+                bars: chart.bars.map(({ date, open, high, low, close, adjClose, volume }) => ({
+                    date,
+                    open,
+                    high,
+                    low,
+                    close,
+                    adjClose,
+                    volume,
+                })),
+                actions: chart.actions,
+                lastPrice: chart.regularMarketPrice,
+                currency: chart.currency,
+                exchange: chart.exchange,
+                lastBarDate: chart.bars[chart.bars.length - 1].date,
+            };
+        } catch (error) {
+            logger.error(`❌ Chart fetch failed for ${ticker}:`, (error as Error).message);
+            return null;
+        }
+    },
+
+    async fetchIntraday(ticker: string): Promise<RawIntradayData | null> {
+        try {
+            const intervalMinutes = intervalToMinutes(config.intradayInterval);
+            // Calendar days covering the lookback sessions (weekends/holidays), capped at what Yahoo serves
+            const days = Math.min(INTRADAY_RETENTION_DAYS, Math.ceil(config.intradayLookbackDays * 1.5) + 2);
+            const period2 = Math.floor(nowMs() / 1000);
+            const fullQuery = `period1=${period2 - days * SECONDS_PER_DAY}&period2=${period2}`;
+            const chart = await fetchYahooBars(ticker, config.intradayInterval, fullQuery, INTRADAY_RETENTION_DAYS);
+            if (!chart || chart.bars.length === 0 || !chart.timezone) return null;
+            return {
+                ticker,
+                source: 'yahoo',
+                intervalMinutes,
+                timezone: chart.timezone,
+                bars: chart.bars.map((b) => ({ time: b.time, volume: b.volume })),
+            };
+        } catch (error) {
+            logger.warn(`Intraday fetch failed for ${ticker}:`, (error as Error).message);
+            return null;
+        }
+    },
+};
+
+/**
+ * Units of USD per one unit of a currency from Yahoo FX quotes (e.g. ILSUSD=X); undefined when unavailable
+ */
+export async function fetchUsdRate(currency: string): Promise<number | undefined> {
+    if (currency === 'USD') return 1;
+    try {
+        const chart = await fetchYahooChart(`${currency}USD=X`, '1d', 'range=5d');
+        const lastClose = chart?.bars.filter((b) => b.close != null).pop()?.close ?? undefined;
+        return chart?.regularMarketPrice ?? lastClose;
+    } catch (error) {
+        logger.warn(`FX rate ${currency}/USD unavailable:`, (error as Error).message);
+        return undefined;
+    }
+}
+
+/**
+ * Fetch RSI and SMA21 from Twelve Data (pre-calculated, no local calculation)
+ */
+export async function fetchIndicatorsFromTwelveData(
+    ticker: string,
+    apiKey: string
+): Promise<{ rsi?: number; sma21?: number }> {
+    const result: { rsi?: number; sma21?: number } = {};
+    try {
+        // Optional calls: only when a token is free right away, never waiting on the per-minute limit
+        const optional = { budget: { maxWaitMs: 0 }, attempts: 1 };
+        const [rsiRes, smaRes] = await Promise.all([
+            httpRequest('twelvedata', `${TWELVE_DATA_BASE}/rsi?symbol=${ticker}&interval=1day&time_period=14&apikey=${apiKey}`, optional),
+            httpRequest('twelvedata', `${TWELVE_DATA_BASE}/sma?symbol=${ticker}&interval=1day&time_period=21&series_type=close&apikey=${apiKey}`, optional),
+        ]);
+
+        const rsiData = (await rsiRes.json()) as any;
+        if (rsiData?.status === 'ok' && rsiData?.values?.[0]?.rsi != null) {
+            result.rsi = parseFloat(rsiData.values[0].rsi);
+        }
+
+        const smaData = (await smaRes.json()) as any;
+        if (smaData?.status === 'ok' && smaData?.values?.[0]?.sma != null) {
+            result.sma21 = parseFloat(smaData.values[0].sma);
+        }
+    } catch {
+        // Silently fall back to calculated values
+    }
+    return result;
+}
+
+/**
+ * Twelve Data /quote – no history; returns quote stats, 52w high and RSI/SMA21
+ */
+export const twelveDataProvider: MarketDataProvider = {
+    name: 'twelvedata',
+
+    isAvailable(): boolean {
+        return !!process.env.TWELVE_DATA_API_KEY;
+    },
+
+    async fetchDaily(ticker: string): Promise<RawMarketData | null> {
+        const apiKey = process.env.TWELVE_DATA_API_KEY;
+        if (!apiKey) return null;
+
+        try {
+            const url = `${TWELVE_DATA_BASE}/quote?symbol=${ticker}&apikey=${apiKey}`;
+            const response = await httpRequest('twelvedata', url);
+            const data = await response.json() as any;
+
+            if (data.status === 'error' || !data.close) {
+                return null;
+            }
+
+            const volume = parseFloat(data.volume) || 0;
+            const fiftyTwoWeek = data.fifty_two_week;
+
+            return {
+                ticker,
+                source: 'twelvedata',
+                bars: [],
+                lastPrice: parseFloat(data.close) || 0,
+                currency: data.currency || undefined,
+                exchange: data.exchange || undefined,
+                lastBarDate: typeof data.datetime === 'string' ? data.datetime.slice(0, 10) : undefined,
+                quote: {
+                    volume,
+                    avgVolume: parseFloat(data.average_volume) || volume || 1,
+                    priceChange: parseFloat(data.percent_change) || 0,
+                    high52w: fiftyTwoWeek?.high != null ? parseFloat(fiftyTwoWeek.high) : undefined,
+                },
+                indicators: await fetchIndicatorsFromTwelveData(ticker, apiKey),
+            };
+        } catch (error) {
+            logger.error(`❌ Twelve Data fetch failed for ${ticker}:`, (error as Error).message);
+            return null;
+        }
+    },
+};
+
+/** Registered providers by name; order of use comes from config.marketDataProviders */
+const providerRegistry = new Map<string, MarketDataProvider>([
+    [yahooChartProvider.name, yahooChartProvider],
+    [twelveDataProvider.name, twelveDataProvider],
+]);
+
+/**
+ * Register an additional provider (e.g. Stooq, Alpha Vantage, local CSV).
+ * Replaces any provider already registered under the same name.
+ */
+export function registerMarketDataProvider(provider: MarketDataProvider): void {
+    providerRegistry.set(provider.name, provider);
+}
+
+/**
+ * Resolve provider names (in fallback order) to registered, available providers.
+ * Unknown names are skipped with a warning.
+ */
+export function resolveProviders(names: readonly string[]): MarketDataProvider[] {
+    const providers: MarketDataProvider[] = [];
+    for (const name of names) {
+        const provider = providerRegistry.get(name.toLowerCase());
+        if (!provider) {
+            logger.warn(`Unknown market data provider "${name}" – skipping`);
+            continue;
+        }
+        if (provider.isAvailable()) providers.push(provider);
+    }
+    return providers;
+}
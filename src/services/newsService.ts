@@ -5,8 +5,9 @@
 
 import { NewsItem, FinnhubNewsResponse } from '../types/index.js';
 import { config } from '../config/index.js';
-import { sleep } from '../utils/errorHandler.js';
 import logger from '../utils/logger.js';
+import { httpRequest } from '../utils/httpClient.js';
+import * as clock from '../utils/clock.js';
 import { XMLParser } from 'fast-xml-parser';
 import fs from 'node:fs';
 import path from 'node:path';
@@ -41,21 +42,16 @@ export async function fetchNewsForStock(ticker: string): Promise<NewsItem[]> {
         return [];
     }
 
-    const now = new Date();
+    const now = clock.now();
     const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
     const url = `https://finnhub.io/api/v1/company-news?symbol=${ticker}&from=${formatDate(yesterday)}&to=${formatDate(now)}&token=${finnhubApiKey}`;
 
     try {
-        const response = await fetch(url);
+        const response = await httpRequest('finnhub', url);
 
         if (!response.ok) {
-            // Rate limit or other API error
-            if (response.status === 429) {
-                logger.warn(`Rate limited on Finnhub for ${ticker}, skipping news`);
-            } else {
-                logger.warn(`Finnhub API error for ${ticker}: ${response.status}`);
-            }
+            logger.warn(`Finnhub API error for ${ticker}: ${response.status}`);
             return [];
         }
 
@@ -86,7 +82,7 @@ export async function fetchHebrewNews(ticker: string): Promise<NewsItem[]> {
     const url = `https://news.google.com/rss/search?q=${query}&hl=iw&gl=IL&ceid=IL:iw`;
 
     try {
-        const response = await fetch(url);
+        const response = await httpRequest('googlenews', url);
         if (!response.ok) return [];
 
         const xmlData = await response.text();
@@ -118,10 +114,8 @@ export async function enrichWithNews<T extends { ticker: string }>(
 ): Promise<(T & { news: NewsItem[]; isVolumeWithoutPrice: boolean })[]> {
     logger.info(`Enriching ${stocks.length} stocks with news using concurrency...`);
 
-    // Finnhub free tier is 60 calls/min. We use a concurrency of 2 
-    // to speed up but still leave room for the newsDelayMs if needed.
+    // Stocks in flight; Finnhub's 60 calls/min is enforced by the request scheduler
     const limit = pLimit(2);
-    const { newsDelayMs } = config;
 
     const tasks = stocks.map((stock) => limit(async () => {
         let news: NewsItem[] = [];
@@ -136,11 +130,6 @@ export async function enrichWithNews<T extends { ticker: string }>(
             logger.error(`Error fetching news for ${stock.ticker}`, error);
         }
 
-        // Add a small delay for Finnhub's minute-based rate limit if we have many stocks
-        if (stocks.length > 30) {
-            await sleep(newsDelayMs || 1000);
-        }
-
         return {
             ...stock,
             news,
@@ -5,6 +5,11 @@
 
 import { StockData, RVOLConfig } from '../types/index.js';
 import logger from '../utils/logger.js';
+import { hasDataError } from './dataQuality.js';
+import { scoreSignal } from './signalScore.js';
+
+/** Average volume: 63-day SMA (industry standard ~3-month lookback for RVOL) */
+export const VOLUME_RVOL_LOOKBACK = 63;
 
 /**
  * RVOL calculation results
@@ -12,47 +17,113 @@ import logger from '../utils/logger.js';
 export interface RVOLCalcResult {
     topSignals: StockData[];
     volumeWithoutPrice: StockData[];
+    /** Below the signal threshold today but with elevated 5-day RVOL (multi-day accumulation), highest first */
+    sustainedVolume: StockData[];
+    /** Breakout events in the last 10 sessions, confirmed breakouts first (regardless of today's RVOL) */
+    breakouts: StockData[];
+}
+
+/** Setup tier: full 🎯, close 👀 or none */
+export type SetupTier = 'full' | 'close' | 'none';
+
+/** Base met: 6mo-3y consolidation window or a quality base pattern */
+function hasBase(s: StockData): boolean {
+    return !!(s.inConsolidationWindow || s.hasBasePattern);
 }
 
-/** Full setup: near SMA21, near ATH, in 6mo-3y window */
+/** Full setup: near SMA21, near ATH, base met */
 function isFullConsolidationSetup(s: StockData): boolean {
-    return !!(s.nearSMA21 && s.nearAth && s.inConsolidationWindow);
+    return !!(s.nearSMA21 && s.nearAth && hasBase(s));
 }
 
-/** Close setup: flexible - e.g. 4mo base, 17% from ATH - worth watching */
+/** Close setup: flexible - e.g. 4mo base or a weaker base pattern, 17% from ATH - worth watching */
 function isCloseConsolidationSetup(s: StockData): boolean {
     const smaOk = s.nearSMA21 || s.nearSMA21Close;
     const athOk = s.nearAth || s.nearAthClose;
-    const baseOk = s.inConsolidationWindow || s.inConsolidationClose;
+    const baseOk = hasBase(s) || s.inConsolidationClose || s.basePattern != null;
     return !!(smaOk && athOk && baseOk);
 }
 
+/**
+ * Setup tier of a stock – the single classification used by ranking, the report and the LLM prompt
+ */
+export function getSetupTier(s: StockData): SetupTier {
+    if (isFullConsolidationSetup(s)) return 'full';
+    return isCloseConsolidationSetup(s) ? 'close' : 'none';
+}
+
+/**
+ * Setup emoji: 🎯 full, 👀 close, — none
+ */
+export function getSetupEmoji(s: StockData): '🎯' | '👀' | '—' {
+    const tier = getSetupTier(s);
+    return tier === 'full' ? '🎯' : tier === 'close' ? '👀' : '—';
+}
+
+/**
+ * Breakout event order: confirmed breakout, pullback to the pivot, breakout on light volume, failed breakout
+ */
+function breakoutRank(s: StockData): number {
+    const b = s.breakout!;
+    if (b.type === 'breakout') return b.volumeConfirmed ? 0 : 2;
+    return b.type === 'pullback' ? 1 : 3;
+}
+
+/**
+ * Whether today's volume clears the signal threshold of the configured metric: RVOL ≥ minRVOL,
+ * log-volume z-score ≥ minVolumeZScore or 1-year percentile ≥ minVolumePercentile. Stocks without
+ * a z-score / percentile (short history) never clear the statistical metrics.
+ */
+export function meetsVolumeThreshold(s: StockData, rvolConfig: RVOLConfig): boolean {
+    const { signalMetric = 'rvol', minRVOL, minVolumeZScore = 2, minVolumePercentile = 95 } = rvolConfig;
+    if (signalMetric === 'zscore') return (s.volumeAnomaly?.zScore ?? -Infinity) >= minVolumeZScore;
+    if (signalMetric === 'percentile') return (s.volumeAnomaly?.percentile ?? -Infinity) >= minVolumePercentile;
+    return s.rvol >= minRVOL;
+}
+
+/**
+ * Signal threshold for logs (e.g. "RVOL ≥ 2", "volume z ≥ 2", "volume ≥ 95th pct of 1y")
+ */
+export function formatSignalThreshold(rvolConfig: RVOLConfig): string {
+    const { signalMetric = 'rvol', minRVOL, minVolumeZScore = 2, minVolumePercentile = 95 } = rvolConfig;
+    if (signalMetric === 'zscore') return `volume z ≥ ${minVolumeZScore}`;
+    if (signalMetric === 'percentile') return `volume ≥ ${minVolumePercentile}th pct of 1y`;
+    return `RVOL ≥ ${minRVOL}`;
+}
+
 /**
  * Calculate RVOL and filter/rank stocks
- * Boosts stocks in consolidation setup (near SMA21, near ATH, 6mo-3y base)
+ * Signals clear the threshold of the configured metric (see meetsVolumeThreshold) and are ranked by the
+ * composite signal score (volume on the same metric, setup, RS, price change, liquidity, trend – see signalScore)
  * @param stocks - Array of stock data
  * @param config - RVOL configuration
  * @returns Top signals and volume-without-price stocks
  */
 export function calculateRVOL(stocks: StockData[], rvolConfig: RVOLConfig): RVOLCalcResult {
-    const { minRVOL, topN, priceChangeThreshold } = rvolConfig;
+    const { topN, priceChangeThreshold, minRsRating = 0, minSustainedRvol, scoreWeights, signalMetric } = rvolConfig;
 
-    // Filter stocks with RVOL >= threshold
-    const highRVOL = stocks.filter((s) => s.rvol >= minRVOL);
+    // Stocks with error-level data quality flags have untrustworthy RVOL (reported under data issues)
+    const usable = stocks.filter((s) => !hasDataError(s));
+    if (usable.length < stocks.length) {
+        logger.warn(`Excluded ${stocks.length - usable.length} stock(s) with data errors from signals`);
+    }
 
-    logger.info(`Found ${highRVOL.length} stocks with RVOL >= ${minRVOL}`);
+    // Filter stocks clearing the volume threshold (and RS rating >= MIN_RS_RATING when rated)
+    const aboveMinRVOL = usable.filter((s) => meetsVolumeThreshold(s, rvolConfig));
+    const filtered = aboveMinRVOL.filter((s) => (s.relativeStrength?.rating ?? minRsRating) >= minRsRating);
+    if (filtered.length < aboveMinRVOL.length) {
+        logger.info(`Dropped ${aboveMinRVOL.length - filtered.length} stock(s) with RS rating < ${minRsRating}`);
+    }
 
-    // Sort by RVOL descending, with consolidation setup as tie-breaker (full > close > none)
-    highRVOL.sort((a, b) => {
-        const rvolDiff = b.rvol - a.rvol;
-        if (Math.abs(rvolDiff) >= 0.5) return rvolDiff > 0 ? 1 : -1; // RVOL dominates
-        const boostA = isFullConsolidationSetup(a) ? 2 : isCloseConsolidationSetup(a) ? 1 : 0;
-        const boostB = isFullConsolidationSetup(b) ? 2 : isCloseConsolidationSetup(b) ? 1 : 0;
-        return boostB - boostA || rvolDiff;
-    });
+    logger.info(`Found ${filtered.length} stocks with ${formatSignalThreshold(rvolConfig)}`);
 
-    const fullCount = highRVOL.filter(isFullConsolidationSetup).length;
-    const closeCount = highRVOL.filter(isCloseConsolidationSetup).length;
+    // Rank by composite score (higher RVOL breaks exact ties)
+    const highRVOL = filtered
+        .map((s) => ({ ...s, score: scoreSignal(s, getSetupTier(s), scoreWeights, signalMetric) }))
+        .sort((a, b) => b.score.total - a.score.total || b.rvol - a.rvol);
+
+    const fullCount = highRVOL.filter((s) => getSetupTier(s) === 'full').length;
+    const closeCount = highRVOL.filter((s) => getSetupTier(s) === 'close').length;
     if (fullCount > 0 || closeCount > 0) {
         logger.info(`Identified ${fullCount} full + ${closeCount} close consolidation setup(s)`);
     }
@@ -72,7 +143,32 @@ export function calculateRVOL(stocks: StockData[], rvolConfig: RVOLConfig): RVOL
         );
     }
 
-    return { topSignals, volumeWithoutPrice };
+    // Sustained volume: today's RVOL under the threshold, but the last 5 sessions ran elevated
+    const rvol5d = (s: StockData): number => s.rvolWindows?.rvol5d ?? 0;
+    const sustainedVolume =
+        minSustainedRvol != null
+            ? usable
+                  .filter((s) => !meetsVolumeThreshold(s, rvolConfig) && rvol5d(s) >= minSustainedRvol)
+                  .sort((a, b) => rvol5d(b) - rvol5d(a))
+                  .slice(0, topN)
+            : [];
+
+    if (sustainedVolume.length > 0) {
+        logger.info(`Identified ${sustainedVolume.length} sustained volume stock(s) (5-day RVOL >= ${minSustainedRvol})`);
+    }
+
+    // Breakout events (most recent and highest breakout RVOL first within each kind)
+    const breakouts = usable
+        .filter((s) => s.breakout)
+        .sort(
+            (a, b) =>
+                breakoutRank(a) - breakoutRank(b) ||
+                a.breakout!.barsAgo - b.breakout!.barsAgo ||
+                b.breakout!.rvol - a.breakout!.rvol
+        )
+        .slice(0, topN);
+
+    return { topSignals, volumeWithoutPrice, sustainedVolume, breakouts };
 }
 
 /**
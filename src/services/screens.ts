@@ -0,0 +1,222 @@
+/**
+ * Smart Volume Radar - Screens
+ * Named screens written in the screen expression language, loaded from SCREENS_FILE and/or a tab of
+ * the watchlist sheet and evaluated against every scanned stock
+ */
+
+import fs from 'node:fs';
+import { config } from '../config/index.js';
+import { StockData, ScreenDefinition, ScreenResult, ScoreWeights, SignalMetric } from '../types/index.js';
+import logger from '../utils/logger.js';
+import { compileScreenExpression, screenFieldPaths, FieldLookup, ScreenPredicate } from '../utils/screenExpression.js';
+import { hasDataError } from './dataQuality.js';
+import { getSetupTier } from './rvolCalculator.js';
+import { scoreSignal, DEFAULT_SCORE_WEIGHTS } from './signalScore.js';
+import { fetchWatchlistCsv } from './watchlist.js';
+
+/**
+ * Parse a screens JSON file: an array of { name, expression }. Entries missing either are skipped.
+ * @throws Error if the JSON is invalid or not an array
+ */
+export function parseScreensJson(json: string): ScreenDefinition[] {
+    const data: unknown = JSON.parse(json);
+    if (!Array.isArray(data)) {
+        throw new Error('Screens file must be a JSON array of { "name": ..., "expression": ... }.');
+    }
+    return data
+        .filter((entry): entry is Record<string, unknown> => entry != null && typeof entry === 'object')
+        .map((entry) => ({ name: String(entry.name ?? '').trim(), expression: String(entry.expression ?? '').trim() }))
+        .filter((screen) => screen.name && screen.expression);
+}
+
+/**
+ * Split one CSV line, keeping commas inside double-quoted cells ("" = literal quote)
+ */
+function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted && ch === '"' && line[i + 1] === '"') {
+            cell += '"';
+            i++;
+        } else if (ch === '"') {
+            quoted = !quoted;
+        } else if (ch === ',' && !quoted) {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+/**
+ * Parse the screens sheet tab: column A = name, column B = expression. A "Name" / "Screen" header
+ * row and rows missing either cell are skipped.
+ */
+export function parseScreensCsv(csv: string): ScreenDefinition[] {
+    const rows = csv
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .map(splitCsvLine);
+    const first = (rows[0]?.[0] ?? '').toLowerCase();
+    const startIndex = first === 'name' || first === 'screen' ? 1 : 0;
+    return rows
+        .slice(startIndex)
+        .map(([name = '', expression = '']) => ({ name, expression }))
+        .filter((screen) => screen.name && screen.expression);
+}
+
+/**
+ * Load screens from SCREENS_FILE and the SCREENS_SHEET_GID tab of the watchlist sheet (both optional).
+ * A source that cannot be read is logged and skipped so the scan still runs.
+ */
+export async function loadScreens(): Promise<ScreenDefinition[]> {
+    const screens: ScreenDefinition[] = [];
+
+    const file = config.screensFile.trim();
+    if (file) {
+        try {
+            screens.push(...parseScreensJson(fs.readFileSync(file, 'utf-8')));
+        } catch (error) {
+            logger.warn(`🔎 Could not load screens from ${file}: ${(error as Error).message}`);
+        }
+    }
+
+    const gid = config.screensSheetGid.trim();
+    if (gid && config.googleSheetId.trim()) {
+        try {
+            screens.push(...parseScreensCsv(await fetchWatchlistCsv(config.googleSheetId.trim(), gid)));
+        } catch (error) {
+            logger.warn(`🔎 Could not load screens from sheet tab ${gid}: ${(error as Error).message}`);
+        }
+    }
+
+    return screens;
+}
+
+/** Top-level StockData fields screens can read (typed so a new StockData field must be listed) */
+const STOCK_FIELDS: Record<keyof StockData, true> = {
+    ticker: true,
+    currentVolume: true,
+    avgVolume: true,
+    rvol: true,
+    priceChange: true,
+    lastPrice: true,
+    currency: true,
+    exchange: true,
+    dollarVolume: true,
+    sma50: true,
+    sma200: true,
+    sma21: true,
+    rsi: true,
+    sector: true,
+    high52w: true,
+    allTimeHigh: true,
+    ath: true,
+    athSource: true,
+    pctFromAth: true,
+    monthsInConsolidation: true,
+    nearSMA21: true,
+    nearAth: true,
+    inConsolidationWindow: true,
+    nearSMA21Close: true,
+    nearAthClose: true,
+    inConsolidationClose: true,
+    basePattern: true,
+    hasBasePattern: true,
+    ema21: true,
+    macd: true,
+    bollinger: true,
+    atr: true,
+    atrPct: true,
+    adx: true,
+    bollingerSqueeze: true,
+    adrPct: true,
+    performance: true,
+    relativeStrength: true,
+    volumeAnalytics: true,
+    rvolWindows: true,
+    priceLevels: true,
+    breakout: true,
+    gap: true,
+    anchoredVwaps: true,
+    score: true,
+    volumeAnomaly: true,
+    intradayRvol: true,
+    lastBarDate: true,
+    barStatus: true,
+    qualityFlags: true,
+    splitAdjustments: true,
+};
+
+/** Shorthand fields resolved by stockFields */
+const SHORTHAND_FIELDS = ['setup', 'rsRating', 'score'];
+
+/**
+ * True when a field path is a shorthand or starts with a StockData field
+ */
+function isKnownField(path: string): boolean {
+    return SHORTHAND_FIELDS.includes(path) || Object.prototype.hasOwnProperty.call(STOCK_FIELDS, path.split('.')[0]);
+}
+
+/**
+ * Field lookup for one stock: dotted StockData paths plus the shorthands `setup` (full / close /
+ * none), `rsRating` (relativeStrength.rating) and `score` (composite score total, scored on demand
+ * for stocks that were not ranked)
+ */
+export function stockFields(
+    stock: StockData,
+    scoreWeights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+    signalMetric: SignalMetric = 'rvol'
+): FieldLookup {
+    const shorthands: Record<string, () => unknown> = {
+        setup: () => getSetupTier(stock),
+        rsRating: () => stock.relativeStrength?.rating,
+        score: () => (stock.score ?? scoreSignal(stock, getSetupTier(stock), scoreWeights, signalMetric)).total,
+    };
+    return (path) => {
+        if (Object.prototype.hasOwnProperty.call(shorthands, path)) return shorthands[path]();
+        let value: unknown = stock;
+        for (const key of path.split('.')) {
+            if (value == null || typeof value !== 'object') return undefined;
+            value = (value as Record<string, unknown>)[key];
+        }
+        return value;
+    };
+}
+
+/**
+ * Evaluate each screen against the stocks (those with data errors are left out). Screens with an
+ * invalid expression are logged and skipped, unknown fields are logged (they match nothing); matches
+ * are sorted by RVOL, highest first.
+ */
+export function runScreens(
+    screens: ScreenDefinition[],
+    stocks: StockData[],
+    scoreWeights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+    signalMetric: SignalMetric = 'rvol'
+): ScreenResult[] {
+    const usable = stocks.filter((s) => !hasDataError(s));
+    const results: ScreenResult[] = [];
+    for (const screen of screens) {
+        let matches: ScreenPredicate;
+        try {
+            matches = compileScreenExpression(screen.expression);
+        } catch (error) {
+            logger.warn(`🔎 Screen "${screen.name}" skipped – ${(error as Error).message}`);
+            continue;
+        }
+        const unknown = screenFieldPaths(screen.expression).filter((path) => !isKnownField(path));
+        if (unknown.length > 0) {
+            logger.warn(`🔎 Screen "${screen.name}" uses unknown field(s) ${unknown.join(', ')} – never matched`);
+        }
+        const matched = usable.filter((s) => matches(stockFields(s, scoreWeights, signalMetric))).sort((a, b) => b.rvol - a.rvol);
+        results.push({ ...screen, stocks: matched });
+    }
+    return results;
+}
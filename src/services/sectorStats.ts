@@ -0,0 +1,66 @@
+/**
+ * Smart Volume Radar - Sector Stats
+ * Sector-level aggregation across every scanned stock: median RVOL, breadth of high-RVOL names,
+ * advance/decline and average price change, with a surge flag for clustered sector volume
+ */
+
+import { StockData, SectorStats } from '../types/index.js';
+import { hasDataError } from './dataQuality.js';
+
+/**
+ * Thresholds for sector aggregation
+ */
+export interface SectorStatsConfig {
+    /** Names with RVOL at or above this count toward pctAboveMinRvol (MIN_RVOL) */
+    minRVOL: number;
+    /** Aggregate RVOL at or above this (with enough names at it too) = surge */
+    surgeRvol: number;
+    /** Names at or above surgeRvol needed for a surge, so one stock cannot carry its sector */
+    surgeMinNames: number;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Aggregate one sector's stocks. Aggregate RVOL is each name's RVOL weighted by its average volume
+ * (Σ today's volume ÷ Σ average volume on a full session; uses the time-of-day adjusted RVOL intraday).
+ */
+function aggregateSector(sector: string, stocks: StockData[], cfg: SectorStatsConfig): SectorStats {
+    const totalAvgVolume = stocks.reduce((sum, s) => sum + s.avgVolume, 0);
+    const aggregateRvol =
+        totalAvgVolume > 0
+            ? stocks.reduce((sum, s) => sum + s.rvol * s.avgVolume, 0) / totalAvgVolume
+            : median(stocks.map((s) => s.rvol));
+    const surgingNames = stocks.filter((s) => s.rvol >= cfg.surgeRvol).length;
+
+    return {
+        sector,
+        count: stocks.length,
+        medianRvol: median(stocks.map((s) => s.rvol)),
+        aggregateRvol,
+        pctAboveMinRvol: (stocks.filter((s) => s.rvol >= cfg.minRVOL).length / stocks.length) * 100,
+        advancers: stocks.filter((s) => s.priceChange > 0).length,
+        decliners: stocks.filter((s) => s.priceChange < 0).length,
+        avgPriceChange: stocks.reduce((sum, s) => sum + s.priceChange, 0) / stocks.length,
+        surge: aggregateRvol >= cfg.surgeRvol && surgingNames >= cfg.surgeMinNames,
+    };
+}
+
+/**
+ * Sector stats over all scanned stocks (stocks with data errors left out; no sector = "Other"),
+ * hottest first: surging sectors, then by median RVOL
+ */
+export function calculateSectorStats(stocks: StockData[], cfg: SectorStatsConfig): SectorStats[] {
+    const sectors = new Map<string, StockData[]>();
+    for (const stock of stocks.filter((s) => !hasDataError(s))) {
+        const sector = stock.sector || 'Other';
+        sectors.set(sector, [...(sectors.get(sector) ?? []), stock]);
+    }
+    return [...sectors.entries()]
+        .map(([sector, members]) => aggregateSector(sector, members, cfg))
+        .sort((a, b) => Number(b.surge) - Number(a.surge) || b.medianRvol - a.medianRvol);
+}
@@ -0,0 +1,126 @@
+/**
+ * Smart Volume Radar - Signal History
+ * Per-ticker signal dates persisted between runs (one JSON file), so each signal shows how often it
+ * was flagged recently, whether it is new and whether its setup upgraded 👀 → 🎯
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { RVOLResult, SignalHistory } from '../types/index.js';
+import logger from '../utils/logger.js';
+import { getSetupTier, SetupTier } from './rvolCalculator.js';
+
+/** Bump when the file layout changes; older files are ignored (history starts over) */
+const SIGNAL_HISTORY_VERSION = 1;
+
+/** Sessions and signals older than this many calendar days are dropped when saving */
+const MAX_HISTORY_DAYS = 365;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * One day a ticker was reported as a signal
+ */
+export interface SignalHistoryEntry {
+    date: string;
+    setup: SetupTier;
+}
+
+export interface SignalHistoryFile {
+    version: number;
+    /** Dates of the runs (YYYY-MM-DD), oldest first – the sessions history windows count */
+    sessions: string[];
+    /** Signal days per ticker, oldest first */
+    signals: Record<string, SignalHistoryEntry[]>;
+}
+
+const emptyHistory = (): SignalHistoryFile => ({ version: SIGNAL_HISTORY_VERSION, sessions: [], signals: {} });
+
+const daysBetween = (from: string, to: string): number => Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+/**
+ * Read the history file; empty history when missing, unreadable or from an older layout
+ */
+export function loadSignalHistory(file: string): SignalHistoryFile {
+    if (!fs.existsSync(file)) return emptyHistory();
+    try {
+        const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as SignalHistoryFile;
+        if (data.version !== SIGNAL_HISTORY_VERSION || !Array.isArray(data.sessions) || !data.signals) {
+            return emptyHistory();
+        }
+        return data;
+    } catch (error) {
+        logger.warn(`Signal history unreadable (${file}), starting over`, (error as Error).message);
+        return emptyHistory();
+    }
+}
+
+/**
+ * Write (replace) the history file
+ */
+export function saveSignalHistory(file: string, history: SignalHistoryFile): void {
+    try {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(history));
+    } catch (error) {
+        logger.warn(`Failed to write signal history (${file})`, (error as Error).message);
+    }
+}
+
+/**
+ * Attach history to today's signals from the sessions before `date` (a rerun on the same date
+ * replaces that date's record, so it is never counted twice). The window is today plus the
+ * previous sessions − 1 recorded runs; an upgrade 👀 → 🎯 only counts from the last recorded run.
+ * Signals are returned unchanged when no earlier run is recorded.
+ */
+export function applySignalHistory(
+    history: SignalHistoryFile,
+    signals: RVOLResult[],
+    date: string,
+    sessions: number
+): RVOLResult[] {
+    const priorSessions = history.sessions.filter((d) => d < date);
+    if (priorSessions.length === 0) return signals;
+    const windowStart = priorSessions.slice(-(sessions - 1))[0] ?? date;
+
+    return signals.map((signal) => {
+        const prior = (history.signals[signal.ticker] ?? []).filter((e) => e.date < date);
+        const previous = prior[prior.length - 1];
+        const inWindow = sessions > 1 ? prior.filter((e) => e.date >= windowStart).length : 0;
+        const tracked: SignalHistory = {
+            flaggedSessions: inWindow + 1,
+            sessions: Math.min(sessions, priorSessions.length + 1),
+            previousSignalDate: previous?.date,
+            daysSincePrevious: previous ? daysBetween(previous.date, date) : undefined,
+            isNew: inWindow === 0,
+            setupUpgraded:
+                previous?.date === priorSessions[priorSessions.length - 1] &&
+                previous.setup === 'close' &&
+                getSetupTier(signal) === 'full',
+        };
+        return { ...signal, history: tracked };
+    });
+}
+
+/**
+ * Record today's run and its signals (replacing an earlier record of the same date) and drop
+ * entries older than a year
+ */
+export function recordSignals(history: SignalHistoryFile, signals: RVOLResult[], date: string): SignalHistoryFile {
+    const keep = (d: string): boolean => d !== date && daysBetween(d, date) <= MAX_HISTORY_DAYS;
+    const result: SignalHistoryFile = {
+        version: SIGNAL_HISTORY_VERSION,
+        sessions: [...history.sessions.filter(keep), date].sort(),
+        signals: {},
+    };
+    for (const [ticker, entries] of Object.entries(history.signals)) {
+        const kept = entries.filter((e) => keep(e.date));
+        if (kept.length > 0) result.signals[ticker] = kept;
+    }
+    for (const signal of signals) {
+        const entries = result.signals[signal.ticker] ?? [];
+        entries.push({ date, setup: getSetupTier(signal) });
+        result.signals[signal.ticker] = entries.sort((a, b) => a.date.localeCompare(b.date));
+    }
+    return result;
+}
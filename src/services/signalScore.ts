@@ -0,0 +1,139 @@
+/**
+ * Smart Volume Radar - Composite Signal Score
+ * Weighted 0–100 score from RVOL, setup quality, RS rating, price change, liquidity and trend;
+ * ranks signals and is shown as a breakdown in the report
+ */
+
+import type {
+    StockData,
+    ScoreComponentName,
+    ScoreWeights,
+    SignalScore,
+    ScoreComponent,
+    SignalMetric,
+} from '../types/index.js';
+import logger from '../utils/logger.js';
+import type { SetupTier } from './rvolCalculator.js';
+
+/** Default weights (SCORE_WEIGHTS overrides per component) */
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+    rvol: 40,
+    setup: 20,
+    rs: 15,
+    price: 10,
+    liquidity: 5,
+    trend: 10,
+};
+
+/** RVOL at which the RVOL component maxes out (log scale from 1x) */
+const RVOL_CAP = 10;
+
+/** Log-volume z-score at which the volume component maxes out (SIGNAL_METRIC=zscore; 0 = typical volume) */
+const ZSCORE_CAP = 4;
+
+/** Price change (%) mapped to 0–1: −5% or worse = 0, flat = 0.5, +5% or better = 1 */
+const PRICE_CHANGE_RANGE_PCT = 5;
+
+/** Traded value (USD) mapped to 0–1 on a log scale: $1M = 0, $1B = 1 */
+const LIQUIDITY_MIN_USD = 1e6;
+const LIQUIDITY_DECADES = 3;
+
+const clamp01 = (x: number): number => Math.min(1, Math.max(0, x));
+
+/**
+ * Parse SCORE_WEIGHTS ("rvol=40,setup=20,rs=15,price=10,liquidity=5,trend=10"). Unlisted or invalid
+ * components keep their default weight (unknown names are logged); 0 turns a component off.
+ */
+export function parseScoreWeights(spec: string | undefined): ScoreWeights {
+    const weights = { ...DEFAULT_SCORE_WEIGHTS };
+    for (const entry of (spec ?? '').split(',')) {
+        const [name, value] = entry.split('=').map((part) => part.trim().toLowerCase());
+        if (!name) continue;
+        if (!Object.hasOwn(weights, name)) {
+            logger.warn(`🧮 SCORE_WEIGHTS: unknown component "${name}" ignored`);
+            continue;
+        }
+        const weight = parseFloat(value);
+        if (Number.isFinite(weight) && weight >= 0) {
+            weights[name as ScoreComponentName] = weight;
+        }
+    }
+    return weights;
+}
+
+/**
+ * Volume component 0–1 on the signal metric, so ranking follows the metric signals were selected by:
+ * RVOL on a log scale, z-score from 0 to ZSCORE_CAP or the 1-year percentile (undefined without them)
+ */
+function volumeValue(stock: StockData, signalMetric: SignalMetric): number | undefined {
+    const { zScore, percentile } = stock.volumeAnomaly ?? {};
+    if (signalMetric === 'zscore') return zScore != null ? clamp01(zScore / ZSCORE_CAP) : undefined;
+    if (signalMetric === 'percentile') return percentile != null ? percentile / 100 : undefined;
+    return clamp01(Math.log(Math.max(stock.rvol, 1)) / Math.log(RVOL_CAP));
+}
+
+/**
+ * Component values 0–1; undefined when the input is unknown (e.g. no RS rating, no USD traded value)
+ */
+function componentValues(
+    stock: StockData,
+    tier: SetupTier,
+    signalMetric: SignalMetric
+): Record<ScoreComponentName, number | undefined> {
+    const trendChecks = [stock.sma50, stock.sma200]
+        .filter((sma): sma is number => sma != null && sma > 0)
+        .map((sma): number => (stock.lastPrice > sma ? 1 : 0));
+    return {
+        rvol: volumeValue(stock, signalMetric),
+        setup: tier === 'full' ? 1 : tier === 'close' ? 0.5 : 0,
+        rs: stock.relativeStrength?.rating != null ? stock.relativeStrength.rating / 99 : undefined,
+        price: clamp01((stock.priceChange + PRICE_CHANGE_RANGE_PCT) / (2 * PRICE_CHANGE_RANGE_PCT)),
+        liquidity:
+            stock.dollarVolume != null && stock.dollarVolume > 0
+                ? clamp01(Math.log10(stock.dollarVolume / LIQUIDITY_MIN_USD) / LIQUIDITY_DECADES)
+                : undefined,
+        trend: trendChecks.length > 0 ? trendChecks.reduce((a, b) => a + b, 0) / trendChecks.length : undefined,
+    };
+}
+
+/**
+ * Composite score 0–100: weighted average of the known components (unknown ones are left out and
+ * the remaining weights rescaled, so missing data neither helps nor hurts). Each component's
+ * points are its share of the total. The rvol component scores the SIGNAL_METRIC volume measure.
+ */
+export function scoreSignal(
+    stock: StockData,
+    tier: SetupTier,
+    weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+    signalMetric: SignalMetric = 'rvol'
+): SignalScore {
+    const values = componentValues(stock, tier, signalMetric);
+    const known = (Object.keys(values) as ScoreComponentName[]).filter(
+        (name) => values[name] != null && weights[name] > 0
+    );
+    const totalWeight = known.reduce((sum, name) => sum + weights[name], 0);
+
+    const components: ScoreComponent[] = known.map((name) => {
+        const value = values[name]!;
+        return { name, value, weight: weights[name], points: totalWeight > 0 ? (value * weights[name] * 100) / totalWeight : 0 };
+    });
+    return { total: components.reduce((sum, c) => sum + c.points, 0), components };
+}
+
+/**
+ * Breakdown for the report: "RVOL 28 · Setup 20 · RS 12" (points, largest first)
+ */
+export function formatScoreBreakdown(score: SignalScore): string {
+    const labels: Record<ScoreComponentName, string> = {
+        rvol: 'RVOL',
+        setup: 'Setup',
+        rs: 'RS',
+        price: 'Price',
+        liquidity: 'Liq',
+        trend: 'Trend',
+    };
+    return [...score.components]
+        .sort((a, b) => b.points - a.points)
+        .map((c) => `${labels[c.name]} ${c.points.toFixed(0)}`)
+        .join(' · ');
+}
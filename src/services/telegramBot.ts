@@ -3,13 +3,78 @@
  * Sends formatted reports via Telegram Bot API
  */
 
-import { RVOLResult, StockData } from '../types/index.js';
+import { RVOLResult, StockData, GapCategory, ScreenResult, SectorStats, SignalHistory } from '../types/index.js';
 import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
+import { httpRequest } from '../utils/httpClient.js';
 import { getReportSummary, getPerStockAnalyses } from './llmSummary.js';
+import { formatMinuteOfDay } from '../utils/intradayVolume.js';
+import { formatSplitRatio } from '../utils/corporateActions.js';
+import { formatPrice, formatUsdCompact } from '../utils/currency.js';
+import { formatBasePatternType } from '../utils/basePatterns.js';
+import { formatPerformancePct } from '../utils/relativeStrength.js';
+import { formatVolumeBias } from '../utils/volumeAnalytics.js';
+import { SUSTAINED_DAYS, BASELINE_BARS } from '../utils/multiWindowRvol.js';
+import { formatGap } from '../utils/gapAnalysis.js';
+import { formatVwapAnchor } from '../utils/anchoredVwap.js';
+import { getSetupTier, getSetupEmoji, VOLUME_RVOL_LOOKBACK } from './rvolCalculator.js';
+import { formatScoreBreakdown } from './signalScore.js';
 
 const TELEGRAM_MAX_LENGTH = 4096;
 
+/**
+ * Momentum/volatility summary: MACD histogram, ADX trend strength, ATR %, average daily range and Bollinger width.
+ * Empty when none of the indicators could be calculated.
+ */
+function formatMomentumLine(stock: StockData): string {
+    const parts: string[] = [];
+    if (stock.macd) {
+        const arrow = stock.macd.histogram >= 0 ? '▲' : '▼';
+        parts.push(`<b>MACD</b> ${arrow}${stock.macd.histogram >= 0 ? '+' : ''}${stock.macd.histogram.toFixed(2)}`);
+    }
+    if (stock.adx) {
+        const direction = stock.adx.plusDI >= stock.adx.minusDI ? '+' : '−';
+        parts.push(`<b>ADX</b> ${stock.adx.adx.toFixed(0)}${direction}`);
+    }
+    if (stock.atrPct != null) parts.push(`<b>ATR</b> ${stock.atrPct.toFixed(1)}%`);
+    if (stock.adrPct != null) parts.push(`<b>ADR</b> ${stock.adrPct.toFixed(1)}%`);
+    if (stock.bollinger) {
+        parts.push(`<b>BB</b> ${stock.bollinger.bandwidth.toFixed(1)}%${stock.bollingerSqueeze ? ' 🗜' : ''}`);
+    }
+    return parts.join(' | ');
+}
+
+/**
+ * Multi-day volume: accumulation/distribution bias, 50-day up/down volume, A/D day counts,
+ * OBV trend (with divergence) and a recent pocket pivot. Empty without volume analytics.
+ */
+function formatVolumeAnalyticsLine(stock: StockData): string {
+    const va = stock.volumeAnalytics;
+    if (!va) return '';
+    const parts = [formatVolumeBias(va.bias)];
+    if (va.upDownRatio != null) parts.push(`<b>U/D</b> ${va.upDownRatio.toFixed(2)}`);
+    parts.push(`<b>A/D</b> ${va.accumulationDays}/${va.distributionDays}`);
+    const obvArrow = va.obvTrend === 'rising' ? '↑' : va.obvTrend === 'falling' ? '↓' : '→';
+    parts.push(`<b>OBV</b> ${obvArrow}${va.obvDivergence ? ` <i>${va.obvDivergence} div</i>` : ''}`);
+    if (va.pocketPivotBarsAgo != null) {
+        parts.push(va.pocketPivot ? '<b>PP</b> today' : `<b>PP</b> ${va.pocketPivotBarsAgo}d ago`);
+    }
+    return parts.join(' | ');
+}
+
+/**
+ * Relative strength: RS rating and 3/6/12-month outperformance vs the benchmark. Empty without a
+ * rating (including stocks whose benchmark was unavailable).
+ */
+function formatRelativeStrengthLine(stock: StockData): string {
+    const rs = stock.relativeStrength;
+    if (rs?.rating == null) return '';
+    const parts = (['m3', 'm6', 'm12'] as const)
+        .filter((p) => rs.vsBenchmark[p] != null)
+        .map((p) => `${p.slice(1)}m ${formatPerformancePct(rs.vsBenchmark[p]!)}`);
+    return `<b>RS</b> ${rs.rating}${parts.length > 0 ? ` <i>(vs ${rs.benchmark} ${parts.join(' · ')})</i>` : ''}`;
+}
+
 /**
  * Format setup indicator with clear status: met ✓, close ~, or far ✗
  * Shows actual value and how close/far from threshold when relevant
@@ -22,7 +87,9 @@ function formatSetupIndicator(
     smaClose: number,
     baseMin: number,
     baseMax: number,
-    baseCloseMin: number
+    baseCloseMin: number,
+    patternMinQuality: number,
+    avwapClose: number
 ): string[] {
     const lines: string[] = [];
 
@@ -38,17 +105,26 @@ function formatSetupIndicator(
         lines.push(`<b>SMA21</b> ${detail}`);
     }
 
-    // High (52-week; 5y removed as not relevant)
+    // High (the setup high – 52-week or all-time, per SETUP_HIGH)
     if (stock.pctFromAth != null) {
         const absPct = Math.abs(stock.pctFromAth);
-        const highLabel = '52w';
+        const highLabel = stock.athSource === 'ath' ? 'ATH' : '52w';
+        const setupHigh = stock.athSource === 'ath' ? stock.allTimeHigh : stock.high52w;
         const met = absPct <= athThreshold;
         const close = absPct > athThreshold && absPct <= athCloseThreshold;
-        let detail = `${stock.pctFromAth.toFixed(0)}% from ${highLabel}`;
+        let detail = `${stock.pctFromAth.toFixed(0)}% from ${highLabel}${setupHigh?.date ? ` (${setupHigh.date})` : ''}`;
         if (met) detail += ` ✓ (req ≤${athThreshold}%)`;
         else if (close) detail += ` ~ (${(absPct - athThreshold).toFixed(0)}% over ${athThreshold}%, under ${athCloseThreshold}% close)`;
         else detail += ` ✗ (${(absPct - athThreshold).toFixed(0)}% over ${athThreshold}% threshold)`;
         lines.push(`<b>High</b> ${detail}`);
+
+        // The other high, for context only
+        const other = stock.athSource === 'ath' ? stock.high52w : stock.allTimeHigh;
+        if (other && other.price !== stock.ath) {
+            const otherLabel = stock.athSource === 'ath' ? '52w' : 'ATH';
+            const when = other.date ? ` (${other.date})` : '';
+            lines.push(`<i>${otherLabel} ${formatPrice(other.price, stock.currency)}${when}, ${other.pctFrom.toFixed(0)}% – not used for setup</i>`);
+        }
     }
 
     // Base (months in consolidation)
@@ -65,6 +141,28 @@ function formatSetupIndicator(
         lines.push(`<b>Base</b> ${detail}`);
     }
 
+    // Base pattern (met ✓ by quality; any detected pattern counts as close ~)
+    if (stock.basePattern) {
+        const p = stock.basePattern;
+        const toPivot = ((p.pivot - stock.lastPrice) / p.pivot) * 100;
+        const pivotNote = toPivot > 0 ? `${toPivot.toFixed(1)}% below` : 'above';
+        let detail = `${formatBasePatternType(p.type)} ${Math.round(p.lengthBars / 5)}wk, ${p.depthPct.toFixed(0)}% deep`;
+        if (p.contractions) detail += ` (${p.contractions.map((c) => c.toFixed(0)).join('→')}%)`;
+        detail += `, pivot ${formatPrice(p.pivot, stock.currency)} (${pivotNote}), Q${p.quality}`;
+        detail += stock.hasBasePattern ? ` ✓ (req Q≥${patternMinQuality})` : ` ~ (Q under ${patternMinQuality})`;
+        lines.push(`<b>Pattern</b> ${detail}`);
+    }
+
+    // Anchored VWAPs (informational: above ✓, slightly below ~, else ✗)
+    if (stock.anchoredVwaps && stock.anchoredVwaps.length > 0) {
+        const parts = stock.anchoredVwaps.map((a) => {
+            const status = a.pctFrom >= 0 ? '✓' : a.pctFrom >= -avwapClose ? '~' : '✗';
+            const when = a.date ? ` (${a.date})` : '';
+            return `${formatVwapAnchor(a.anchor)}${when} ${a.pctFrom >= 0 ? '+' : ''}${a.pctFrom.toFixed(1)}% ${status}`;
+        });
+        lines.push(`<b>AVWAP</b> ${parts.join(' | ')}`);
+    }
+
     return lines;
 }
 
@@ -91,15 +189,19 @@ export async function sendTelegramMessage(message: string): Promise<void> {
     const url = `https://api.telegram.org/bot${telegramBotToken}/sendMessage`;
 
     try {
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                chat_id: telegramChatId,
-                text: message,
-                parse_mode: 'HTML',
-                disable_web_page_preview: true,
-            }),
+        const response = await httpRequest('telegram', url, {
+            init: {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    chat_id: telegramChatId,
+                    text: message,
+                    parse_mode: 'HTML',
+                    disable_web_page_preview: true,
+                }),
+            },
+            // Not idempotent: a retry after a timeout could post the same chunk twice
+            attempts: 1,
         });
 
         if (!response.ok) {
@@ -150,6 +252,210 @@ function chunkMessage(message: string, maxLen: number = TELEGRAM_MAX_LENGTH): st
     return chunks;
 }
 
+/** Max tickers listed in the data issues section */
+const MAX_DATA_ISSUES = 15;
+
+/** Max tickers listed in the sustained volume section */
+const MAX_SUSTAINED_VOLUME = 10;
+
+/** Max tickers listed in the breakout section */
+const MAX_BREAKOUTS = 10;
+
+/** Max tickers listed per screen section */
+const MAX_SCREEN_MATCHES = 10;
+
+/** Max sectors listed in the sector heatmap */
+const MAX_SECTORS = 12;
+
+/** Signal groups in report order when any signal gapped */
+const GAP_GROUPS: { category: GapCategory; header: string }[] = [
+    { category: 'gap-and-go', header: '⏫ <b>GAP &amp; GO</b> <i>(gap held, closed with it)</i>' },
+    { category: 'gap-fade', header: '🔻 <b>GAP FADE</b> <i>(gap filled or closed against it)</i>' },
+    { category: 'no-gap', header: '➖ <b>NO GAP</b>' },
+];
+
+/**
+ * Format the data issues section: tickers with quality flags, errors (excluded from signals) first
+ */
+function formatDataIssuesSection(stocks: StockData[]): string {
+    const flagged = stocks.filter((s) => s.qualityFlags && s.qualityFlags.length > 0);
+    if (flagged.length === 0) return '';
+
+    const isError = (s: StockData): boolean => !!s.qualityFlags?.some((f) => f.severity === 'error');
+    const sorted = [...flagged].sort((a, b) => Number(isError(b)) - Number(isError(a)));
+    const lines = sorted.slice(0, MAX_DATA_ISSUES).map((s) => {
+        const messages = (s.qualityFlags ?? []).map((f) => f.message).join('; ');
+        return `• <b>${s.ticker}</b> ${isError(s) ? '⛔' : '⚠️'} ${messages}`;
+    });
+    const more = flagged.length > MAX_DATA_ISSUES ? `\n<i>…and ${flagged.length - MAX_DATA_ISSUES} more</i>` : '';
+
+    return `\n\n━━━━━━━━━━━━━━━━━━━━━━\n🩺 <b>Data issues</b> <i>(⛔ = excluded from signals)</i>\n${lines.join('\n')}${more}`;
+}
+
+/**
+ * RVOL against the other windows: each N-day average, 5-day and weekly RVOL.
+ * Empty when no window could be calculated.
+ */
+function formatRvolWindowsLine(stock: StockData): string {
+    const windows = stock.rvolWindows;
+    if (!windows) return '';
+    const parts = Object.entries(windows.daily).map(([n, rvol]) => `${n}d ${rvol.toFixed(1)}x`);
+    if (windows.rvol5d != null) parts.push(`<b>5d avg</b> ${windows.rvol5d.toFixed(1)}x`);
+    if (windows.weekly != null) parts.push(`<b>wk</b> ${windows.weekly.toFixed(1)}x`);
+    return parts.join(' | ');
+}
+
+/**
+ * Breakout event line: confirmed breakout 🚀, light-volume breakout 🔸, pullback ↩️, failed ⚠️
+ */
+function formatBreakoutEvent(stock: StockData): string {
+    const b = stock.breakout!;
+    const pivot = formatPrice(b.pivot, stock.currency);
+    const when = b.barsAgo === 0 ? 'today' : `${b.barsAgo}d ago`;
+    const pct = `${b.pctFromPivot >= 0 ? '+' : ''}${b.pctFromPivot.toFixed(1)}%`;
+    if (b.type === 'failed-breakout') {
+        return `⚠️ <b>${stock.ticker}</b> failed breakout – back below ${pivot} (${pct})`;
+    }
+    if (b.type === 'pullback') {
+        return `↩️ <b>${stock.ticker}</b> pullback to pivot ${pivot} <i>(broke out ${when} on ${b.rvol.toFixed(1)}x)</i>`;
+    }
+    return b.volumeConfirmed
+        ? `🚀 <b>${stock.ticker}</b> cleared ${pivot} ${when} on ${b.rvol.toFixed(1)}x ✓ (${pct})`
+        : `🔸 <b>${stock.ticker}</b> cleared ${pivot} ${when} on ${b.rvol.toFixed(1)}x – light volume (${pct})`;
+}
+
+/**
+ * Format the breakout section shown at the top of the report
+ */
+function formatBreakoutSection(breakouts: StockData[]): string {
+    if (breakouts.length === 0) return '';
+    const lines = breakouts.slice(0, MAX_BREAKOUTS).map((s) => `• ${formatBreakoutEvent(s)}`);
+    return `🚀 <b>BREAKOUTS</b>\n${lines.join('\n')}\n━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+}
+
+/**
+ * Nearest resistance / support with the number of swings that formed them. Empty without levels.
+ */
+function formatLevelsLine(stock: StockData): string {
+    const levels = stock.priceLevels;
+    if (!levels) return '';
+    const parts: string[] = [];
+    if (levels.resistance) {
+        parts.push(`<b>R</b> ${formatPrice(levels.resistance.price, stock.currency)} (${levels.resistance.touches}×)`);
+    } else if (levels.swingHigh) {
+        parts.push(`<b>Swing high</b> ${formatPrice(levels.swingHigh.price, stock.currency)}`);
+    }
+    if (levels.support) {
+        parts.push(`<b>S</b> ${formatPrice(levels.support.price, stock.currency)} (${levels.support.touches}×)`);
+    } else if (levels.swingLow) {
+        parts.push(`<b>Swing low</b> ${formatPrice(levels.swingLow.price, stock.currency)}`);
+    }
+    return parts.join(' | ');
+}
+
+/**
+ * Format the sustained volume section: below MIN_RVOL today, elevated 5-day RVOL
+ */
+function formatSustainedVolumeSection(stocks: StockData[]): string {
+    if (stocks.length === 0) return '';
+    const lines = stocks.slice(0, MAX_SUSTAINED_VOLUME).map((s) => {
+        const w = s.rvolWindows!;
+        const weekly = w.weekly != null ? ` · wk ${w.weekly.toFixed(1)}x` : '';
+        return `• <b>${s.ticker}</b> 5d ${w.rvol5d!.toFixed(1)}x${weekly} · ${w.elevatedDays}/${SUSTAINED_DAYS} days elevated <i>(today ${s.rvol.toFixed(1)}x)</i>`;
+    });
+    return `\n\n━━━━━━━━━━━━━━━━━━━━━━\n🔁 <b>SUSTAINED VOLUME</b>\n<i>(Below today's RVOL threshold, but the last ${SUSTAINED_DAYS} sessions ran heavy)</i>\n${lines.join('\n')}`;
+}
+
+/**
+ * Escape text for Telegram HTML (screen expressions contain < and >)
+ */
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * One section per screen with matches: the expression, then each match with RVOL, price change and setup
+ */
+function formatScreenSections(screenResults: ScreenResult[]): string {
+    return screenResults
+        .filter((r) => r.stocks.length > 0)
+        .map((r) => {
+            const lines = r.stocks.slice(0, MAX_SCREEN_MATCHES).map((s) => {
+                const sign = s.priceChange >= 0 ? '+' : '';
+                const setup = getSetupEmoji(s);
+                return `• <b>${s.ticker}</b> ${s.rvol.toFixed(1)}x · ${sign}${s.priceChange.toFixed(2)}%${setup !== '—' ? ` ${setup}` : ''}`;
+            });
+            const more = r.stocks.length > MAX_SCREEN_MATCHES ? `\n<i>…and ${r.stocks.length - MAX_SCREEN_MATCHES} more</i>` : '';
+            return `\n\n━━━━━━━━━━━━━━━━━━━━━━\n🔎 <b>${escapeHtml(r.name.toUpperCase())}</b>\n<i>${escapeHtml(r.expression)}</i>\n${lines.join('\n')}${more}`;
+        })
+        .join('');
+}
+
+/**
+ * Signal history: 🆕 first signal (in N days / on record) or sessions flagged in the window, plus a 👀→🎯 upgrade
+ */
+function formatHistoryLine(history: SignalHistory): string {
+    let text: string;
+    if (history.isNew) {
+        text = history.daysSincePrevious != null ? `🆕 First signal in ${history.daysSincePrevious}d` : '🆕 First signal on record';
+    } else {
+        const since = history.daysSincePrevious === 1 ? 'yesterday' : `${history.daysSincePrevious}d ago`;
+        text = `🗓 Flagged ${history.flaggedSessions}/${history.sessions} sessions <i>(prev ${since})</i>`;
+    }
+    return history.setupUpgraded ? `${text} | ⬆️ <b>Setup 👀→🎯 today</b>` : text;
+}
+
+/**
+ * Z-score and 1-year percentile shown after RVOL (" | z +2.4 | 97th pct"); empty without history
+ */
+function formatVolumeAnomaly(stock: StockData): string {
+    const anomaly = stock.volumeAnomaly;
+    if (!anomaly) return '';
+    const z = anomaly.zScore != null ? ` | <b>z</b> ${anomaly.zScore >= 0 ? '+' : ''}${anomaly.zScore.toFixed(1)}` : '';
+    return `${z} | ${anomaly.percentile.toFixed(0)}th pct`;
+}
+
+/**
+ * Heat square for a sector's median RVOL: 🟥 ≥ 2x, 🟧 ≥ 1.5x, 🟨 ≥ 1x, 🟦 below average
+ */
+function sectorHeat(medianRvol: number): string {
+    if (medianRvol >= 2) return '🟥';
+    if (medianRvol >= 1.5) return '🟧';
+    return medianRvol >= 1 ? '🟨' : '🟦';
+}
+
+/**
+ * Format the sector heatmap: median RVOL, share of names at MIN_RVOL, advance/decline, avg change, surge 🌊
+ */
+function formatSectorHeatmapSection(sectorStats: SectorStats[]): string {
+    if (sectorStats.length === 0) return '';
+    const lines = sectorStats.slice(0, MAX_SECTORS).map((s) => {
+        const sign = s.avgPriceChange >= 0 ? '+' : '';
+        const surge = s.surge ? ` 🌊 <b>surge</b> (${s.aggregateRvol.toFixed(1)}x combined)` : '';
+        return `${sectorHeat(s.medianRvol)} <b>${escapeHtml(s.sector)}</b> ${s.medianRvol.toFixed(1)}x · ${s.pctAboveMinRvol.toFixed(0)}% hot · ${s.advancers}▲ ${s.decliners}▼ · ${sign}${s.avgPriceChange.toFixed(1)}%${surge}`;
+    });
+    const more = sectorStats.length > MAX_SECTORS ? `\n<i>…and ${sectorStats.length - MAX_SECTORS} more</i>` : '';
+    return `\n\n━━━━━━━━━━━━━━━━━━━━━━\n🗺 <b>SECTOR HEATMAP</b>\n<i>(median RVOL · % of names at ${config.minRVOL}x+ · advancers/decliners · avg change)</i>\n${lines.join('\n')}${more}`;
+}
+
+/**
+ * Report sections beyond the signal and silent-activity lists (all optional)
+ */
+export interface DailyReportOptions {
+    /** Tickers that could not be fetched */
+    failedTickers?: string[];
+    /** Scanned stocks with data quality flags (shown in their own section) */
+    dataIssues?: StockData[];
+    /** Stocks under MIN_RVOL with elevated 5-day RVOL (own section) */
+    sustainedVolume?: StockData[];
+    /** Stocks with a breakout event (listed at the top) */
+    breakouts?: StockData[];
+    /** Named screens; each one with matches gets its own section */
+    screenResults?: ScreenResult[];
+    /** Sector aggregation over all scanned stocks (heatmap; 🌊 marks surging sector headers) */
+    sectorStats?: SectorStats[];
+}
+
 /**
  * Format the daily report message
  */
@@ -157,19 +463,34 @@ export function formatDailyReport(
     date: string,
     topSignals: RVOLResult[],
     volumeWithoutPrice: StockData[],
-    failedTickers: string[] = []
+    options: DailyReportOptions = {}
 ): string {
-    const failedSection =
-        failedTickers.length > 0
+    const {
+        failedTickers = [],
+        dataIssues = [],
+        sustainedVolume = [],
+        breakouts = [],
+        screenResults = [],
+        sectorStats = [],
+    } = options;
+    const breakoutSection = formatBreakoutSection(breakouts);
+    const trailingSections =
+        formatSectorHeatmapSection(sectorStats) +
+        formatScreenSections(screenResults) +
+        formatSustainedVolumeSection(sustainedVolume) +
+        (failedTickers.length > 0
             ? `\n\n━━━━━━━━━━━━━━━━━━━━━━\n⚠️ <b>Could not check (fetch error)</b>\n<code>${failedTickers.join(', ')}</code>`
-            : '';
+            : '') +
+        formatDataIssuesSection(dataIssues);
 
     if (topSignals.length === 0) {
-        return `📊 <b>Smart Volume Radar</b>\n📅 ${date}\n\n📭 No high-volume signals detected today.\n\nEverything within normal range.${failedSection}`;
+        return `📊 <b>Smart Volume Radar</b>\n📅 ${date}\n\n${breakoutSection}📭 No high-volume signals detected today.\n\nEverything within normal range.${trailingSections}`;
     }
 
-    // Sort signals by RVOL descending
-    const sortedSignals = [...topSignals].sort((a, b) => b.rvol - a.rvol);
+    // Sort signals by composite score (RVOL when unscored) descending
+    const sortedSignals = [...topSignals].sort((a, b) =>
+        a.score && b.score ? b.score.total - a.score.total : b.rvol - a.rvol
+    );
 
     // Stats
     const bullish = topSignals.filter(s => s.priceChange > 0).length;
@@ -179,17 +500,33 @@ export function formatDailyReport(
     message += `📅 <code>${date}</code>\n`;
     message += `🎭 Sentiment: ${bullish} 🟢 | ${bearish} 🔴\n`;
     message += `━━━━━━━━━━━━━━━━━━━━━━\n\n`;
-
-    // Group by sector
-    const sectors: Record<string, RVOLResult[]> = {};
-    for (const stock of sortedSignals) {
-        const sector = stock.sector || 'Other';
-        if (!sectors[sector]) sectors[sector] = [];
-        sectors[sector].push(stock);
+    message += breakoutSection;
+
+    // Split into gap groups when any signal gapped, then group by sector
+    const anyGap = sortedSignals.some((s) => s.gap && s.gap.category !== 'no-gap');
+    const groups = anyGap
+        ? GAP_GROUPS.map(({ category, header }) => ({
+              header,
+              signals: sortedSignals.filter((s) => (s.gap?.category ?? 'no-gap') === category),
+          }))
+        : [{ header: '', signals: sortedSignals }];
+    const sections: { header: string; sectorName: string; stocks: RVOLResult[] }[] = [];
+    for (const group of groups) {
+        const sectors: Record<string, RVOLResult[]> = {};
+        for (const stock of group.signals) {
+            const sector = stock.sector || 'Other';
+            if (!sectors[sector]) sectors[sector] = [];
+            sectors[sector].push(stock);
+        }
+        Object.entries(sectors).forEach(([sectorName, stocks], i) => {
+            sections.push({ header: i === 0 ? group.header : '', sectorName, stocks });
+        });
     }
 
-    for (const [sectorName, stocks] of Object.entries(sectors)) {
-        message += `📍 <b>${sectorName.toUpperCase()}</b>\n`;
+    for (const { header, sectorName, stocks } of sections) {
+        if (header) message += `${header}\n\n`;
+        const surge = sectorStats.some((s) => s.sector === sectorName && s.surge) ? ' 🌊' : '';
+        message += `📍 <b>${sectorName.toUpperCase()}</b>${surge}\n`;
         message += `━━━━━━━━━━━━━━━━━━━━━━\n`;
 
         for (const stock of stocks) {
@@ -212,11 +549,29 @@ export function formatDailyReport(
                 : xUrl;
 
             // Header: ticker + main signal
-            message += `${statusEmoji} <b><a href="${tvUrl}">${stock.ticker}</a></b>\n`;
+            message += `${statusEmoji} <b><a href="${tvUrl}">${stock.ticker}</a></b>${stock.history?.isNew ? ' 🆕' : ''}\n`;
 
             // Section 1: Core metrics – each param on its own row
-            message += `├ 📊 <b>RVOL</b> ${stock.rvol.toFixed(2)}x\n`;
-            message += `├ <b>Price</b> ${trendColor} ${sign}${stock.priceChange.toFixed(2)}%\n`;
+            const intradayNote = stock.intradayRvol
+                ? ` ⏱ <i>(@${formatMinuteOfDay(stock.intradayRvol.minuteOfDay)} vs same time, raw ${stock.intradayRvol.unadjustedRvol.toFixed(2)}x)</i>`
+                : '';
+            message += `├ 📊 <b>RVOL</b> ${stock.rvol.toFixed(2)}x${formatVolumeAnomaly(stock)}${intradayNote}\n`;
+            if (stock.history) message += `├ ${formatHistoryLine(stock.history)}\n`;
+            if (stock.score) {
+                message += `├ 🧮 <b>Score</b> ${stock.score.total.toFixed(0)} <i>(${formatScoreBreakdown(stock.score)})</i>\n`;
+            }
+            const rvolWindows = formatRvolWindowsLine(stock);
+            if (rvolWindows) message += `├ 🔁 ${rvolWindows}\n`;
+            message += `├ <b>Price</b> ${formatPrice(stock.lastPrice, stock.currency)} ${trendColor} ${sign}${stock.priceChange.toFixed(2)}%\n`;
+            if (stock.gap) {
+                message += `├ 🕳 <b>Gap</b> ${formatGap(stock.gap)} | <b>CL</b> ${(stock.gap.closeLocation * 100).toFixed(0)}%\n`;
+            }
+            if (stock.dollarVolume != null) {
+                message += `├ 💵 ${formatUsdCompact(stock.dollarVolume)} traded${stock.currency && stock.currency !== 'USD' ? ` <i>(${stock.currency}→USD)</i>` : ''}\n`;
+            }
+            for (const split of stock.splitAdjustments ?? []) {
+                message += `├ ✂️ <i>Split ${formatSplitRatio(split.ratio ?? 1)} on ${split.date} – history adjusted</i>\n`;
+            }
 
             // Section 2: Technicals – each param on its own row
             if (stock.rsi != null) {
@@ -227,6 +582,15 @@ export function formatDailyReport(
                 const trend = stock.lastPrice > stock.sma50 ? 'Above SMA50' : 'Below SMA50';
                 message += `├ ${trend}\n`;
             }
+            const momentum = formatMomentumLine(stock);
+            if (momentum) message += `├ 〰️ ${momentum}\n`;
+            const volume = formatVolumeAnalyticsLine(stock);
+            if (volume) message += `├ 📦 ${volume}\n`;
+            const levels = formatLevelsLine(stock);
+            if (levels) message += `├ 🧱 ${levels}\n`;
+            if (stock.breakout) message += `├ ${formatBreakoutEvent(stock)}\n`;
+            const relativeStrength = formatRelativeStrengthLine(stock);
+            if (relativeStrength) message += `├ 💪 ${relativeStrength}\n`;
 
             // Section 3: Setup (consolidation) – detailed per-indicator status
             const setupLines = formatSetupIndicator(
@@ -237,12 +601,13 @@ export function formatDailyReport(
                 config.sma21CloseThresholdPct,
                 config.consolidationMinMonths,
                 config.consolidationMaxMonths,
-                config.consolidationCloseMinMonths
+                config.consolidationCloseMinMonths,
+                config.basePatternMinQuality,
+                config.avwapCloseThresholdPct
             );
             if (setupLines.length > 0) {
-                const fullSetup = stock.nearSMA21 && stock.nearAth && stock.inConsolidationWindow;
-                const closeSetup = (stock.nearSMA21 || stock.nearSMA21Close) && (stock.nearAth || stock.nearAthClose) && (stock.inConsolidationWindow || stock.inConsolidationClose);
-                const setupEmoji = fullSetup ? ' 🎯' : closeSetup ? ' 👀' : '';
+                const tier = getSetupTier(stock);
+                const setupEmoji = tier === 'full' ? ' 🎯' : tier === 'close' ? ' 👀' : '';
                 message += `├ 🎯 Setup${setupEmoji}\n`;
                 for (const line of setupLines) {
                     message += `│   ${line}\n`;
@@ -271,20 +636,23 @@ export function formatDailyReport(
     if (volumeWithoutPrice.length > 0) {
         message += `━━━━━━━━━━━━━━━━━━━━━━\n`;
         message += `👀 <b>SILENT ACTIVITY WATCHLIST</b>\n`;
-        message += `<i>(High RVOL, low price change - potential breakouts)</i>\n`;
+        message += `<i>(High RVOL, low price change - potential breakouts; 🟢/🔴 = multi-day accumulation/distribution)</i>\n`;
 
-        const isFullSetup = (s: StockData) => !!(s.nearSMA21 && s.nearAth && s.inConsolidationWindow);
-        const isCloseSetup = (s: StockData) => (s.nearSMA21 || s.nearSMA21Close) && (s.nearAth || s.nearAthClose) && (s.inConsolidationWindow || s.inConsolidationClose);
         const items = volumeWithoutPrice
             .sort((a, b) => b.rvol - a.rvol)
             .slice(0, 5)
-            .map((s) => `• <b>${s.ticker}</b> (${s.rvol.toFixed(1)}x)${isFullSetup(s) ? ' 🎯' : isCloseSetup(s) ? ' 👀' : ''}`)
+            .map((s) => {
+                const tier = getSetupTier(s);
+                const va = s.volumeAnalytics;
+                const bias = va ? ` ${formatVolumeBias(va.bias)}${va.pocketPivotBarsAgo != null ? ' · PP' : ''}` : '';
+                return `• <b>${s.ticker}</b> (${s.rvol.toFixed(1)}x)${tier === 'full' ? ' 🎯' : tier === 'close' ? ' 👀' : ''}${bias}`;
+            })
             .join('\n');
 
         message += items;
     }
 
-    message += failedSection;
+    message += trailingSections;
     return message;
 }
 
@@ -301,15 +669,47 @@ export function formatLegend(): string {
 • <b>News</b> – Finnhub
 
 <b>Calculated locally:</b>
-• <b>RVOL</b> = today's volume ÷ 63-day avg volume
+• <b>RVOL</b> = today's volume ÷ ${VOLUME_RVOL_LOOKBACK}-day avg volume
+• <b>🧮 Score</b> = 0–100 weighted ranking (SCORE_WEIGHTS): volume on the SIGNAL_METRIC (RVOL log scale to 10x, z-score 0–4 or percentile), setup (🎯 full, 👀 half), RS rating, price change (−5%…+5%), USD traded value ($1M…$1B, log) and trend (above SMA50/200); unknown inputs are left out. Breakdown = points per component
+• <b>🔁 RVOL windows</b> = today's volume ÷ each N-day average; <b>5d avg</b> = last ${SUSTAINED_DAYS} sessions ÷ the ${BASELINE_BARS} before; <b>wk</b> = this week's daily avg ÷ previous 10 weeks
+• <b>z</b> = (ln today's volume − mean) ÷ std dev of ln volume over ${VOLUME_RVOL_LOOKBACK} days – steady names score higher than erratic ones at the same RVOL; <b>pct</b> = share of the last year's sessions with lower volume. Signals use ${config.signalMetric === 'zscore' ? `z ≥ ${config.minVolumeZScore}` : config.signalMetric === 'percentile' ? `pct ≥ ${config.minVolumePercentile}` : `RVOL ≥ ${config.minRVOL}`} (SIGNAL_METRIC)
+• <b>RVOL ⏱</b> (market open) = volume so far ÷ avg volume at the same time of day (last ${config.intradayLookbackDays} sessions)
 • <b>Price Change %</b> = (close − prev close) ÷ prev close × 100
+• <b>Price</b> in the listing currency (TASE agorot shown as ₪ shekels)
+• <b>💵 traded</b> = today's volume × price, converted to USD
+• <b>✂️ Split</b> = volumes/closes before a split (and closes before dividends) are back-adjusted
 • <b>SMA50, SMA200</b> = SMA of last 50/200 closes
-• <b>52w high</b> = max of last 252 trading days (Yahoo / Twelve Data)
-• <b>pctFromAth</b> = (price − ATH) ÷ ATH × 100
-• <b>monthsInConsolidation</b> = days since ATH touch ÷ 21
+• <b>MACD</b> = EMA12 − EMA26; ▲/▼ histogram = MACD − 9-day signal line
+• <b>ADX</b> = 14-day trend strength (&gt;25 trending); +/− = +DI above/below −DI
+• <b>ATR</b> = 14-day average true range as % of price
+• <b>ADR</b> = 20-day average daily range (high ÷ low − 1)
+• <b>BB</b> = Bollinger (20, 2σ) band width as % of SMA20; 🗜 = squeeze (≤ ${config.bollingerSqueezeBandwidthPct}%)
+• <b>🕳 Gap</b> = (open − prev close) ÷ prev close, ≥ ${config.gapMinPct}% counts; held / filled = the day's range did not / did reach the prev close; <b>CL</b> = close location in the day's range (0% low, 100% high). Gap &amp; go = held and closed in the gap's half of the range, else gap fade
+• <b>🚀 Breakouts</b> = close above the latest unbroken swing high (high of 5 bars each side) in the last 10 sessions: 🚀 on RVOL ≥ ${config.breakoutMinRvol} (vs 50 days) ✓, 🔸 light volume, ↩️ pullback (low back within 2% of the pivot), ⚠️ failed (closed back below)
+• <b>🧱 R / S</b> = nearest resistance above / support below: 2+ swing highs (lows) within 1.5% of each other in the last year
+• <b>📦 Volume</b> = 🟢 accumulation / 🔴 distribution when 2 of 3 agree: <b>U/D</b> (50-day up-day ÷ down-day volume, ≥1.2), <b>A/D</b> days (last 25 days up/down ≥0.2% on above-average volume) and <b>OBV</b> 20-day trend; div = OBV against price; <b>PP</b> = pocket pivot (up day above SMA10 on volume over every down day of the prior 10)
+• <b>RS</b> = 1–99 percentile across the scanned tickers of 3/6/12-month outperformance vs SPY (TA-125 for TASE), 3m weighted double; no rating when the benchmark could not be fetched
+• <b>52w high</b> = highest intraday high of last 252 trading days (Yahoo / Twelve Data)
+• <b>ATH</b> = highest intraday high of the downloaded history (${config.yahooHistoryRange})
+• <b>High</b> in Setup = % from the setup high, labelled 52w or ATH (${config.setupHigh === 'ath' ? 'ATH' : '52w'} configured; the other high is shown in italics)
+• <b>pctFromAth</b> = (price − setup high) ÷ setup high × 100
+• <b>monthsInConsolidation</b> = days since the setup high was last touched (within 2%) ÷ 21
+
+• <b>Pattern</b> = base since the 65-week high: flat base (≤15% deep, 5+ wk), cup w/ handle (12–35% cup, shallow handle in the upper half) or VCP (shrinking pullbacks); pivot = breakout price; Q = quality 0–100 (depth, tightness, volume dry-up, distance to pivot). A quality pattern meets the Base condition
+• <b>AVWAP</b> = volume-weighted avg of (high + low + close) ÷ 3 since the 52w high, the lowest low after it and the latest day with RVOL ≥ ${config.minRVOL}; ✓ = price above, ~ = up to ${config.avwapCloseThresholdPct}% below (informational, not part of 🎯/👀)
+
+<b>🆕 / 🗓 History</b> = signal days from earlier runs (SIGNAL_HISTORY_FILE): 🆕 = not a signal in the last ${config.signalHistorySessions} sessions (first signal in N days or on record); 🗓 = sessions flagged out of the last ${config.signalHistorySessions}; ⬆️ = previous signal was 👀, today 🎯
+
+<b>🗺 Sector heatmap</b> = per sector over all scanned names: median RVOL (🟥 ≥2x, 🟧 ≥1.5x, 🟨 ≥1x, 🟦 below average), % of names at MIN_RVOL, advancers ▲ / decliners ▼ and average change. 🌊 surge = the sector's combined volume (names weighted by average volume) at ≥ ${config.sectorSurgeRvol}x with ${config.sectorSurgeMinNames}+ names at that RVOL
+
+<b>🔎 Screens</b> = named rules from SCREENS_FILE / the screens sheet tab (e.g. <code>rvol &gt;= 3 and rsi &lt; 70</code>); a missing field never matches
 
 <b>Setup symbols:</b>
-✓ = met condition | ~ = close | 🎯 = full setup | 👀 = close to setup`;
+✓ = met condition | ~ = close | 🎯 = full setup | 👀 = close to setup
+
+<b>Data issues (🩺):</b>
+⛔ = untrustworthy data (stale/missing last bar, zero volume) – excluded from signals
+⚠️ = warning (dropped null bars, price jump, short history)`;
 }
 
 /** Shared row format: TICKER | RVOL X.XXx | Price ±X.XX% | RSI XX | Setup (code + LLM use same structure) */
@@ -329,13 +729,7 @@ function formatStockRow(stock: StockData, setupEmoji: '🎯' | '👀' | '—'):
  * Used so LLM receives the exact params the code calculated.
  */
 export function getStocksForLlm(topSignals: RVOLResult[], volumeWithoutPrice: StockData[]): StockData[] {
-    const isFullSetup = (s: StockData) => !!(s.nearSMA21 && s.nearAth && s.inConsolidationWindow);
-    const isCloseSetup = (s: StockData) =>
-        (s.nearSMA21 || s.nearSMA21Close) &&
-        (s.nearAth || s.nearAthClose) &&
-        (s.inConsolidationWindow || s.inConsolidationClose);
-    const hasSetup = (s: StockData) => isFullSetup(s) || isCloseSetup(s);
-    const setupFromSilent = volumeWithoutPrice.filter(hasSetup);
+    const setupFromSilent = volumeWithoutPrice.filter((s) => getSetupTier(s) !== 'none');
     const topSilent = [...volumeWithoutPrice].sort((a, b) => b.rvol - a.rvol).slice(0, 10);
     return [...topSignals, ...setupFromSilent, ...topSilent]
         .filter((s, i, arr) => arr.findIndex((x) => x.ticker === s.ticker) === i)
@@ -348,39 +742,20 @@ export function getStocksForLlm(topSignals: RVOLResult[], volumeWithoutPrice: St
  * Ensures ALL setup stocks (🎯/👀) are included + topSignals + top 10 silent.
  */
 export function getAllSignalRows(topSignals: RVOLResult[], volumeWithoutPrice: StockData[]): string[] {
-    const isFullSetup = (s: StockData) => !!(s.nearSMA21 && s.nearAth && s.inConsolidationWindow);
-    const isCloseSetup = (s: StockData) =>
-        (s.nearSMA21 || s.nearSMA21Close) &&
-        (s.nearAth || s.nearAthClose) &&
-        (s.inConsolidationWindow || s.inConsolidationClose);
     const stocks = getStocksForLlm(topSignals, volumeWithoutPrice);
-    return stocks.map((s) => {
-        const emoji: '🎯' | '👀' | '—' = isFullSetup(s) ? '🎯' : isCloseSetup(s) ? '👀' : '—';
-        return formatStockRow(s, emoji);
-    });
+    return stocks.map((s) => formatStockRow(s, getSetupEmoji(s)));
 }
 
 /**
  * Get setup stock rows from code (setup stocks only – for compact Data display).
  */
 export function getSetupRowsFromData(topSignals: RVOLResult[], volumeWithoutPrice: StockData[]): string[] {
-    const isFullSetup = (s: StockData) => !!(s.nearSMA21 && s.nearAth && s.inConsolidationWindow);
-    const isCloseSetup = (s: StockData) =>
-        (s.nearSMA21 || s.nearSMA21Close) &&
-        (s.nearAth || s.nearAthClose) &&
-        (s.inConsolidationWindow || s.inConsolidationClose);
-
     const seen = new Set<string>();
     const rows: string[] = [];
     for (const s of [...topSignals, ...volumeWithoutPrice]) {
-        if (seen.has(s.ticker)) continue;
-        if (isFullSetup(s)) {
-            seen.add(s.ticker);
-            rows.push(formatStockRow(s, '🎯'));
-        } else if (isCloseSetup(s)) {
-            seen.add(s.ticker);
-            rows.push(formatStockRow(s, '👀'));
-        }
+        if (seen.has(s.ticker) || getSetupTier(s) === 'none') continue;
+        seen.add(s.ticker);
+        rows.push(formatStockRow(s, getSetupEmoji(s)));
     }
     return rows;
 }
@@ -425,10 +800,10 @@ export async function sendDailyReport(
     date: string,
     topSignals: RVOLResult[],
     volumeWithoutPrice: StockData[],
-    failedTickers: string[] = [],
+    options: DailyReportOptions = {},
     scope?: ReportScope
 ): Promise<void> {
-    const report = formatDailyReport(date, topSignals, volumeWithoutPrice, failedTickers);
+    const report = formatDailyReport(date, topSignals, volumeWithoutPrice, options);
     const chunks = chunkMessage(report);
 
     // Optional: send LLM summary as first message (keeps report chunks under length limit)
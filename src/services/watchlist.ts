@@ -0,0 +1,120 @@
+/**
+ * Smart Volume Radar - Watchlist
+ * Tickers and sectors loaded from a public Google Sheet (CSV export) once per run
+ */
+
+import { config } from '../config/index.js';
+import { httpRequest } from '../utils/httpClient.js';
+
+/**
+ * Ticker entry: symbol (required) and optional sector for grouping in reports
+ */
+export interface TickerConfig {
+    symbol: string;
+    sector: string;
+    description?: string;
+}
+
+// Internal cache set by fetchAndCacheWatchlist(); must be called before loadWatchlist()
+let tickerCache: TickerConfig[] | null = null;
+
+const GOOGLE_SHEETS_CSV_URL = 'https://docs.google.com/spreadsheets/d/{id}/export?format=csv';
+
+/**
+ * Fetch CSV content from a public Google Sheet
+ * @param sheetId - ID from sheet URL (between /d/ and /edit)
+ * @param gid - Tab ID (gid=… in the tab URL); first tab when omitted
+ * @throws Error if request fails or non-2xx response
+ */
+export async function fetchWatchlistCsv(sheetId: string, gid?: string): Promise<string> {
+    const url = GOOGLE_SHEETS_CSV_URL.replace('{id}', sheetId) + (gid ? `&gid=${encodeURIComponent(gid)}` : '');
+    const res = await httpRequest('googlesheets', url, { init: { redirect: 'follow' } });
+    if (!res.ok) {
+        throw new Error(
+            `Failed to fetch watchlist: ${res.status} ${res.statusText}. Check GOOGLE_SHEET_ID and that the sheet is shared "Anyone with the link can view".`
+        );
+    }
+    return res.text();
+}
+
+/**
+ * Parse CSV from Google Sheets into TickerConfig[].
+ * - First row: treated as header if it looks like "Symbol" / "Sector" (case-insensitive), then skipped
+ * - Column A: symbol (required); empty rows skipped
+ * - Column B: sector (optional); default "Other" if empty
+ */
+export function parseWatchlistCsv(csv: string): TickerConfig[] {
+    const lines = csv.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    if (lines.length === 0) {
+        throw new Error('Watchlist sheet is empty.');
+    }
+
+    const rows: string[][] = [];
+    for (const line of lines) {
+        // Simple CSV: split by comma; strip surrounding quotes from each cell
+        const cells = line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
+        rows.push(cells);
+    }
+
+    const isHeaderRow = (cells: string[]): boolean => {
+        const first = (cells[0] || '').toLowerCase();
+        return first === 'symbol' || first === 'sector' || first.includes('symbol') || first.includes('sector');
+    };
+
+    const startIndex = rows.length > 0 && isHeaderRow(rows[0]) ? 1 : 0;
+    const tickers: TickerConfig[] = [];
+
+    for (let i = startIndex; i < rows.length; i++) {
+        const cells = rows[i];
+        const symbol = (cells[0] || '').trim();
+        if (!symbol) continue;
+        const sector = (cells[1] || '').trim() || 'Other';
+        tickers.push({ symbol, sector });
+    }
+
+    if (tickers.length === 0) {
+        throw new Error('Watchlist sheet has no valid ticker rows (Column A = symbol).');
+    }
+
+    return tickers;
+}
+
+/**
+ * Fetch watchlist from Google Sheet and cache it. Must be called once before loadWatchlist() / getSectorForTicker().
+ * @throws Error if GOOGLE_SHEET_ID is missing, fetch fails, or sheet is empty
+ */
+export async function fetchAndCacheWatchlist(): Promise<void> {
+    const sheetId = config.googleSheetId.trim();
+    if (!sheetId) {
+        throw new Error('GOOGLE_SHEET_ID is required. Set it to your Google Sheet ID (from the sheet URL).');
+    }
+    const csv = await fetchWatchlistCsv(sheetId);
+    tickerCache = parseWatchlistCsv(csv);
+}
+
+function getTickers(): TickerConfig[] {
+    if (tickerCache === null) {
+        throw new Error(
+            'Watchlist not loaded. Call fetchAndCacheWatchlist() once before loadWatchlist() or getSectorForTicker().'
+        );
+    }
+    return tickerCache;
+}
+
+/**
+ * Load tickers for scanning
+ * @returns Array of ticker symbols
+ */
+export function loadWatchlist(): string[] {
+    const tickers = getTickers();
+    return tickers.map(t => t.symbol.toUpperCase());
+}
+
+/**
+ * Get sector for a ticker
+ */
+export function getSectorForTicker(symbol: string): string {
+    const tickers = getTickers();
+    const ticker = tickers.find(t => t.symbol.toUpperCase() === symbol.toUpperCase());
+    return ticker?.sector || 'Other';
+}
@@ -3,6 +3,41 @@
  * Core interfaces for stock data, news, and RVOL results
  */
 
+/**
+ * Latest daily bar vs the exchange calendar: final = latest session complete,
+ * partial = session in progress, stale = older than the latest session, missing = no dated bar
+ */
+export type BarStatus = 'final' | 'partial' | 'stale' | 'missing';
+
+/**
+ * Daily OHLCV bar after validation; prices in the quote currency
+ */
+export interface Bar {
+    /** Exchange-local trading date (YYYY-MM-DD); omitted when the provider has no dates */
+    date?: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    /** Close adjusted for splits and dividends by the provider (the close when not reported) */
+    adjClose: number;
+    volume: number;
+}
+
+/**
+ * Daily bar as returned by a provider. Missing values are null (a bar without close or volume is
+ * dropped during validation); open/high/low/adjClose are optional for close-only providers.
+ */
+export interface RawBar {
+    date?: string;
+    open?: number | null;
+    high?: number | null;
+    low?: number | null;
+    close: number | null;
+    adjClose?: number | null;
+    volume: number | null;
+}
+
 /**
  * Raw stock data from market API
  */
@@ -12,19 +47,30 @@ export interface StockData {
     avgVolume: number;
     rvol: number;
     priceChange: number;
+    /** Last price in `currency` (minor units such as agorot already converted) */
     lastPrice: number;
+    /** ISO currency of prices (e.g. USD, ILS, EUR); USD when unknown */
+    currency?: string;
+    /** Exchange name reported by the provider (e.g. NasdaqGS, Tel Aviv) */
+    exchange?: string;
+    /** Today's traded value converted to USD (volume × price × FX rate) */
+    dollarVolume?: number;
     sma50?: number;
     sma200?: number;
     sma21?: number;
     rsi?: number;
     sector?: string;
-    /** All-time high from available price history */
+    /** 52-week high (highest intraday high of the last 252 sessions, or the provider's quote) */
+    high52w?: PriceHigh;
+    /** Highest high of the whole downloaded history (YAHOO_HISTORY_RANGE, 5y by default) */
+    allTimeHigh?: PriceHigh;
+    /** High the setup is measured against (see athSource) */
     ath?: number;
-    /** Source of high: 5y = Yahoo 5-year history, 52w = Twelve Data 52-week high */
-    athSource?: '5y' | '52w';
-    /** Percentage distance from ATH (e.g. -15 = 15% below ATH) */
+    /** Which high ath / pctFromAth / monthsInConsolidation refer to: 52w high or all-time high (SETUP_HIGH) */
+    athSource?: '52w' | 'ath';
+    /** Percentage distance from the setup high (e.g. -15 = 15% below it) */
     pctFromAth?: number;
-    /** Months since ATH was reached (approx consolidation duration) */
+    /** Months since the setup high was reached (approx consolidation duration) */
     monthsInConsolidation?: number;
     /** Price within threshold of SMA21 */
     nearSMA21?: boolean;
@@ -38,6 +84,426 @@ export interface StockData {
     nearAthClose?: boolean;
     /** Close to consolidation window (e.g. 4–6mo) */
     inConsolidationClose?: boolean;
+    /** Base pattern found in the daily bars (flat base, cup-with-handle, VCP) */
+    basePattern?: BasePattern;
+    /** Base pattern with quality at or above BASE_PATTERN_MIN_QUALITY (counts as a met base) */
+    hasBasePattern?: boolean;
+    /** 21-day exponential moving average */
+    ema21?: number;
+    /** MACD (12, 26, 9) */
+    macd?: MacdValues;
+    /** Bollinger Bands (20, 2) with bandwidth */
+    bollinger?: BollingerBands;
+    /** Average True Range (14) in price units */
+    atr?: number;
+    /** ATR as % of last price */
+    atrPct?: number;
+    /** ADX (14) with directional indicators */
+    adx?: AdxValues;
+    /** Bollinger bandwidth at or below the squeeze threshold (volatility contraction) */
+    bollingerSqueeze?: boolean;
+    /** Average daily range (high ÷ low − 1) over 20 days, in % */
+    adrPct?: number;
+    /** Price change over 3/6/12 months (63/126/252 bars), in % */
+    performance?: PeriodPerformance;
+    /** Performance vs the benchmark and RS rating across the scanned universe */
+    relativeStrength?: RelativeStrength;
+    /** Multi-day accumulation/distribution: up/down volume, OBV, A/D days, pocket pivots */
+    volumeAnalytics?: VolumeAnalytics;
+    /** RVOL against several average windows plus 5-day and weekly RVOL (from daily bars) */
+    rvolWindows?: RvolWindows;
+    /** Latest swing pivots and nearest horizontal support/resistance */
+    priceLevels?: PriceLevels;
+    /** Breakout above a swing-high pivot in the last 10 sessions (or its failure / pullback) */
+    breakout?: BreakoutSignal;
+    /** Today's opening gap, whether it held, and the close location in the day's range */
+    gap?: GapAnalysis;
+    /** VWAPs anchored at the 52w high, the base low and the latest high-RVOL day */
+    anchoredVwaps?: AnchoredVwap[];
+    /** Composite signal score with per-component breakdown (set when ranking signals) */
+    score?: SignalScore;
+    /** Today's volume vs the ticker's own distribution: log-volume z-score and 1-year percentile */
+    volumeAnomaly?: VolumeAnomaly;
+    /** Set when rvol was time-of-day adjusted during market hours */
+    intradayRvol?: IntradayRvol;
+    /** Exchange-local date of the last daily bar (YYYY-MM-DD) */
+    lastBarDate?: string;
+    /** Latest bar vs the exchange calendar */
+    barStatus?: BarStatus;
+    /** Data quality issues found while validating the provider data */
+    qualityFlags?: DataQualityFlag[];
+    /** Splits the history was adjusted for (RVOL, SMA, RSI and 52w high use adjusted series) */
+    splitAdjustments?: CorporateAction[];
+}
+
+/**
+ * Highest high over a window, with distance from it and time since it was reached
+ */
+export interface PriceHigh {
+    price: number;
+    /** Exchange-local date of the bar that set the high */
+    date?: string;
+    /** (last close − high) ÷ high × 100 */
+    pctFrom: number;
+    /** Months since price was last within 2% of the high; omitted for quote-only highs */
+    monthsSince?: number;
+}
+
+export type BasePatternType = 'flat-base' | 'cup-with-handle' | 'vcp';
+
+/**
+ * Base (consolidation) pattern ending at the latest bar
+ */
+export interface BasePattern {
+    type: BasePatternType;
+    /** Left-side high to lowest low of the base, in % */
+    depthPct: number;
+    /** Breakout (buy) point: flat base / VCP = base high, cup = handle high */
+    pivot: number;
+    /** Trading days from the left-side high to the latest bar */
+    lengthBars: number;
+    /** Date of the left-side high */
+    startDate?: string;
+    /** VCP: depth of each contraction in %, oldest first */
+    contractions?: number[];
+    /** 0–100: depth, tightness of the last bars, volume dry-up and distance to the pivot */
+    quality: number;
+}
+
+/**
+ * % change per period; a period longer than the history is omitted
+ */
+export interface PeriodPerformance {
+    m3?: number;
+    m6?: number;
+    m12?: number;
+}
+
+/**
+ * Relative strength vs the market benchmark and peers
+ */
+export interface RelativeStrength {
+    /** Benchmark ticker (SPY, ^TA125.TA); omitted when its history was unavailable */
+    benchmark?: string;
+    /** Outperformance per period: (1 + stock) ÷ (1 + benchmark) − 1, in % */
+    vsBenchmark: PeriodPerformance;
+    /** Weighted outperformance (3m counts double); raw performance without a benchmark */
+    score: number;
+    /** 1–99 percentile of the score across the scanned universe; unset without a benchmark */
+    rating?: number;
+}
+
+export type ScoreComponentName = 'rvol' | 'setup' | 'rs' | 'price' | 'liquidity' | 'trend';
+
+/** Weight per score component (relative; 0 = off) */
+export type ScoreWeights = Record<ScoreComponentName, number>;
+
+/**
+ * One component of the composite score
+ */
+export interface ScoreComponent {
+    name: ScoreComponentName;
+    /** Normalized input, 0–1 */
+    value: number;
+    weight: number;
+    /** Contribution to the total (components sum to the total) */
+    points: number;
+}
+
+/**
+ * Composite 0–100 signal score; components with unknown inputs are omitted
+ */
+export interface SignalScore {
+    total: number;
+    components: ScoreComponent[];
+}
+
+/**
+ * VWAP from an anchor event to the latest bar
+ */
+export interface AnchoredVwap {
+    anchor: 'high52w' | 'baseLow' | 'highRvolDay';
+    /** Date of the anchor bar */
+    date?: string;
+    vwap: number;
+    /** (last close − vwap) ÷ vwap × 100; positive = price above the anchored VWAP */
+    pctFrom: number;
+}
+
+export type GapCategory = 'gap-and-go' | 'gap-fade' | 'no-gap';
+
+/**
+ * Opening gap of the latest bar
+ */
+export interface GapAnalysis {
+    /** up / down when |gapPct| ≥ GAP_MIN_PCT */
+    direction: 'up' | 'down' | 'none';
+    /** (open − previous close) ÷ previous close × 100 */
+    gapPct: number;
+    /** The day's range reached back to the previous close */
+    filled: boolean;
+    /** Share of the gap retraced intraday, 0–100 */
+    fillPct: number;
+    /** (close − low) ÷ (high − low): 0 = closed at the low, 1 = at the high */
+    closeLocation: number;
+    category: GapCategory;
+}
+
+/**
+ * Swing high or low: the extreme of the bars on each side
+ */
+export interface SwingPivot {
+    index: number;
+    date?: string;
+    price: number;
+    kind: 'high' | 'low';
+}
+
+/**
+ * Horizontal support/resistance from clustered swings
+ */
+export interface PriceLevel {
+    /** Average price of the swings in the cluster */
+    price: number;
+    /** Swings that formed the level */
+    touches: number;
+    lastTouchDate?: string;
+}
+
+export interface PriceLevels {
+    swingHigh?: SwingPivot;
+    swingLow?: SwingPivot;
+    /** Nearest resistance above the last close */
+    resistance?: PriceLevel;
+    /** Nearest support below the last close */
+    support?: PriceLevel;
+}
+
+export type BreakoutType = 'breakout' | 'failed-breakout' | 'pullback';
+
+/**
+ * Close above a swing-high pivot and what happened since
+ */
+export interface BreakoutSignal {
+    type: BreakoutType;
+    /** Swing high that was cleared */
+    pivot: number;
+    pivotDate?: string;
+    /** Sessions since the breakout bar (0 = latest bar) */
+    barsAgo: number;
+    /** Date of the breakout bar */
+    date?: string;
+    /** RVOL of the breakout bar (vs its previous 50 sessions; time-of-day adjusted for today's bar) */
+    rvol: number;
+    /** Breakout bar RVOL at or above BREAKOUT_MIN_RVOL */
+    volumeConfirmed: boolean;
+    /** (last close − pivot) ÷ pivot × 100 */
+    pctFromPivot: number;
+}
+
+/**
+ * RVOL over several windows; sustained volume shows in rvol5d / weekly / elevatedDays
+ */
+export interface RvolWindows {
+    /** Today's volume ÷ average of the previous N sessions, keyed by N (RVOL_WINDOWS) */
+    daily: Record<number, number>;
+    /** Average volume of the last 5 sessions ÷ the 63-session average before them */
+    rvol5d?: number;
+    /** This calendar week's average daily volume ÷ that of the previous 10 weeks */
+    weekly?: number;
+    /** Sessions of the last 5 at or above MIN_SUSTAINED_RVOL × the 63-session average */
+    elevatedDays: number;
+}
+
+export type VolumeBias = 'accumulation' | 'distribution' | 'neutral';
+
+/**
+ * Volume behaviour over the last weeks (institutional buying vs selling)
+ */
+export interface VolumeAnalytics {
+    /** Up-day volume ÷ down-day volume over 50 days; undefined without down days or history */
+    upDownRatio?: number;
+    /** OBV over the last 20 days, relative to the volume traded */
+    obvTrend: 'rising' | 'falling' | 'flat';
+    /** OBV rising while price fell (bullish) or falling while price rose (bearish) */
+    obvDivergence?: 'bullish' | 'bearish';
+    /** Up ≥0.2% on above-average volume, last 25 days */
+    accumulationDays: number;
+    /** Down ≥0.2% on above-average volume, last 25 days */
+    distributionDays: number;
+    /** The latest bar is a pocket pivot */
+    pocketPivot: boolean;
+    /** Sessions since the most recent pocket pivot within the last 10 (0 = latest bar) */
+    pocketPivotBarsAgo?: number;
+    pocketPivotDate?: string;
+    /** Two of three votes (up/down ratio, A/D days, OBV trend) agree */
+    bias: VolumeBias;
+}
+
+/**
+ * Prior-session volume distribution a day's volume is scored against
+ */
+export interface VolumeBaseline {
+    /** Mean of ln(volume) over the RVOL lookback (sessions with volume) */
+    logMean: number;
+    /** Standard deviation of ln(volume) over the same sessions; 0 when too few */
+    logStdDev: number;
+    /** Volumes of the last year's sessions, ascending */
+    sortedVolumes: number[];
+}
+
+/**
+ * Statistical volume anomaly of today's session
+ */
+export interface VolumeAnomaly {
+    /** (ln today's volume − mean) ÷ std dev of log volume over the lookback */
+    zScore?: number;
+    /** % of the last year's sessions with lower volume (ties count half), 0–100 */
+    percentile: number;
+    /** Kept so an intraday full-day-equivalent volume can be rescored */
+    baseline: VolumeBaseline;
+}
+
+/** Metric that decides whether a stock is a signal: RVOL, log-volume z-score or 1-year percentile */
+export type SignalMetric = 'rvol' | 'zscore' | 'percentile';
+
+/**
+ * MACD line, signal line and histogram
+ */
+export interface MacdValues {
+    macd: number;
+    signal: number;
+    histogram: number;
+}
+
+/**
+ * Bollinger Bands; bandwidth = (upper − lower) ÷ middle × 100
+ */
+export interface BollingerBands {
+    upper: number;
+    middle: number;
+    lower: number;
+    bandwidth: number;
+}
+
+/**
+ * Average Directional Index with +DI / −DI
+ */
+export interface AdxValues {
+    adx: number;
+    plusDI: number;
+    minusDI: number;
+}
+
+/**
+ * Split or cash dividend from the provider's event feed
+ */
+export interface CorporateAction {
+    type: 'split' | 'dividend';
+    /** Exchange-local ex-date (YYYY-MM-DD); bars before it are adjusted */
+    date: string;
+    /** Split: new shares per old share (4 for 4:1, 0.1 for a 1:10 reverse split) */
+    ratio?: number;
+    /** Dividend: cash amount per share */
+    amount?: number;
+}
+
+/**
+ * Data quality issue on a ticker's market data. Errors make RVOL untrustworthy
+ * (the stock is kept out of the signal lists); warnings are informational.
+ */
+export interface DataQualityFlag {
+    code:
+        | 'last-bar-null'
+        | 'null-bars'
+        | 'zero-volume-today'
+        | 'zero-volume-days'
+        | 'price-jump'
+        | 'short-history'
+        | 'stale-bar'
+        | 'missing-bar-date';
+    severity: 'warning' | 'error';
+    message: string;
+}
+
+/**
+ * Quote-level figures for providers that return no price history (e.g. Twelve Data /quote)
+ */
+export interface ProviderQuote {
+    volume: number;
+    avgVolume: number;
+    /** Percent change vs previous close */
+    priceChange: number;
+    high52w?: number;
+}
+
+/**
+ * Raw market data returned by a provider, before RVOL / indicators / setup flags are derived
+ */
+export interface RawMarketData {
+    ticker: string;
+    /** Provider name that produced the data (e.g. 'yahoo') */
+    source: string;
+    /** Daily bars, oldest first; empty for quote-only providers */
+    bars: RawBar[];
+    /** Latest traded price when reported separately from the last close */
+    lastPrice?: number;
+    /** Currency prices are quoted in, as reported (may be a minor unit, e.g. ILA = agorot) */
+    currency?: string;
+    /** Exchange name reported by the provider */
+    exchange?: string;
+    /** Exchange-local date of the last bar (YYYY-MM-DD) */
+    lastBarDate?: string;
+    /** Splits/dividends reported by the provider (history is adjusted before RVOL is derived) */
+    actions?: CorporateAction[];
+    /** Used when the provider has no (or too short) history */
+    quote?: ProviderQuote;
+    /** Pre-calculated indicators from the provider; override local calculation */
+    indicators?: { rsi?: number; sma21?: number };
+}
+
+/**
+ * Market data source. Providers only fetch; StockData is derived in one shared step
+ * so every provider produces identical setup flags.
+ */
+export interface MarketDataProvider {
+    /** Key used in MARKET_DATA_PROVIDERS (e.g. 'yahoo', 'twelvedata') */
+    readonly name: string;
+    /** False when the provider cannot be used (e.g. API key missing) */
+    isAvailable(): boolean;
+    /** Fetch daily history / quote for a ticker; null when no data */
+    fetchDaily(ticker: string): Promise<RawMarketData | null>;
+    /** Fetch recent intraday bars (for time-of-day RVOL); optional */
+    fetchIntraday?(ticker: string): Promise<RawIntradayData | null>;
+}
+
+/**
+ * Recent intraday bars (regular session only, oldest first) for time-of-day volume curves
+ */
+export interface RawIntradayData {
+    ticker: string;
+    source: string;
+    /** Bar length in minutes (e.g. 5) */
+    intervalMinutes: number;
+    /** Exchange timezone (IANA), used to align bars by minute of the session */
+    timezone: string;
+    bars: { time: number; volume: number | null }[];
+}
+
+/**
+ * Time-of-day adjusted RVOL details (intraday scan)
+ */
+export interface IntradayRvol {
+    /** Today's cumulative volume up to the latest bar */
+    volumeSoFar: number;
+    /** Historical average cumulative volume at the same minute of the session */
+    expectedVolumeSoFar: number;
+    /** Local exchange time of the measurement, minutes since midnight */
+    minuteOfDay: number;
+    /** Past sessions used for the curve */
+    sessionsUsed: number;
+    /** Partial-day volume ÷ full-day average (what RVOL would be without adjustment) */
+    unadjustedRvol: number;
 }
 
 /**
@@ -56,6 +522,26 @@ export interface NewsItem {
 export interface RVOLResult extends StockData {
     news: NewsItem[];
     isVolumeWithoutPrice: boolean;
+    /** Earlier runs this ticker was a signal in (omitted when no earlier run is recorded) */
+    history?: SignalHistory;
+}
+
+/**
+ * A signal's record across previous runs (SIGNAL_HISTORY_FILE)
+ */
+export interface SignalHistory {
+    /** Sessions of the window this ticker was a signal in, today included */
+    flaggedSessions: number;
+    /** Window length: SIGNAL_HISTORY_SESSIONS, or fewer while the history is still short */
+    sessions: number;
+    /** Most recent earlier signal date */
+    previousSignalDate?: string;
+    /** Calendar days since that signal */
+    daysSincePrevious?: number;
+    /** Not a signal in any earlier session of the window 🆕 */
+    isNew: boolean;
+    /** Previous signal was a close 👀 setup, today a full 🎯 setup */
+    setupUpgraded: boolean;
 }
 
 /**
@@ -65,6 +551,52 @@ export interface RVOLConfig {
     minRVOL: number;
     topN: number;
     priceChangeThreshold: number;
+    /** Drop signals rated below this RS rating (stocks without a rating are kept); 0 = off */
+    minRsRating?: number;
+    /** 5-day RVOL at or above this puts a stock under minRVOL in the sustained volume list */
+    minSustainedRvol?: number;
+    /** Composite score weights used for ranking (defaults when omitted) */
+    scoreWeights?: ScoreWeights;
+    /** Signal threshold metric (default rvol = minRVOL) */
+    signalMetric?: SignalMetric;
+    /** Minimum log-volume z-score when signalMetric is zscore */
+    minVolumeZScore?: number;
+    /** Minimum 1-year volume percentile when signalMetric is percentile */
+    minVolumePercentile?: number;
+}
+
+/**
+ * Named screen from SCREENS_FILE or the screens sheet tab, e.g. expression "rvol >= 3 and rsi < 70"
+ */
+export interface ScreenDefinition {
+    name: string;
+    expression: string;
+}
+
+/**
+ * Stocks matching a screen (highest RVOL first)
+ */
+export interface ScreenResult extends ScreenDefinition {
+    stocks: StockData[];
+}
+
+/**
+ * Sector-level aggregation across all scanned stocks of a sector
+ */
+export interface SectorStats {
+    sector: string;
+    /** Scanned names in the sector */
+    count: number;
+    medianRvol: number;
+    /** RVOL of the sector's combined volume (names weighted by average volume) */
+    aggregateRvol: number;
+    /** Share of names with RVOL ≥ MIN_RVOL, in % */
+    pctAboveMinRvol: number;
+    advancers: number;
+    decliners: number;
+    avgPriceChange: number;
+    /** Aggregate RVOL ≥ SECTOR_SURGE_RVOL with at least SECTOR_SURGE_MIN_NAMES names at that RVOL */
+    surge: boolean;
 }
 
 /**
@@ -99,7 +631,15 @@ export interface FinnhubNewsResponse {
  */
 export interface MarketStatus {
     isOpen: boolean;
+    /** Session still in progress: today's bar is partial */
+    isIntraday?: boolean;
     exchange: string;
     currentTime: Date;
     message?: string;
+    /** Tickers whose exchange has a session for this run (scan universe) */
+    tickers?: string[];
+    /** Tickers left out because their exchange has no session for this run (weekend/holiday) */
+    skippedTickers?: string[];
+    /** Tickers whose exchange session is in progress (time-of-day RVOL) */
+    intradayTickers?: string[];
 }
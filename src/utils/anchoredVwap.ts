@@ -0,0 +1,83 @@
+/**
+ * Smart Volume Radar - Anchored VWAP
+ * Volume-weighted average price from key events to the latest bar: the 52-week high,
+ * the base low since that high and the most recent high-RVOL day
+ */
+
+import { Bar, AnchoredVwap } from '../types/index.js';
+import { TRADING_DAYS_52W } from './technicalAnalysis.js';
+
+/** Average volume window for finding the high-RVOL anchor day */
+const ANCHOR_VOLUME_BARS = 50;
+
+/**
+ * VWAP from bar `anchor` through the latest bar, using the typical price (high + low + close) ÷ 3.
+ * Undefined when the anchor is out of range or no volume traded since.
+ */
+export function calculateAnchoredVwap(bars: Bar[], anchor: number): number | undefined {
+    if (anchor < 0 || anchor >= bars.length) return undefined;
+    let priceVolume = 0;
+    let volume = 0;
+    for (let i = anchor; i < bars.length; i++) {
+        const { high, low, close } = bars[i];
+        priceVolume += ((high + low + close) / 3) * bars[i].volume;
+        volume += bars[i].volume;
+    }
+    return volume > 0 ? priceVolume / volume : undefined;
+}
+
+/**
+ * Most recent bar before the latest with volume ≥ minRvol × its previous 50-session average, within ~1 year
+ */
+function findHighRvolDay(bars: Bar[], minRvol: number): number | undefined {
+    const first = Math.max(1, bars.length - TRADING_DAYS_52W);
+    for (let i = bars.length - 2; i >= first; i--) {
+        const prior = bars.slice(Math.max(0, i - ANCHOR_VOLUME_BARS), i);
+        const avg = prior.reduce((sum, b) => sum + b.volume, 0) / prior.length;
+        if (avg > 0 && bars[i].volume / avg >= minRvol) return i;
+    }
+    return undefined;
+}
+
+/**
+ * Anchored VWAPs with the last close's distance from each. Anchors: the 52-week high bar, the
+ * lowest low after it (base low; omitted when the high is the latest bar) and the most recent
+ * high-RVOL day (volume ≥ minRvol × 50-day average, today excluded).
+ */
+export function calculateAnchoredVwaps(bars: Bar[], minRvol: number): AnchoredVwap[] {
+    if (bars.length < 2) return [];
+    const last = bars.length - 1;
+    const lastClose = bars[last].close;
+
+    let highIndex = Math.max(0, bars.length - TRADING_DAYS_52W);
+    for (let i = highIndex + 1; i <= last; i++) if (bars[i].high >= bars[highIndex].high) highIndex = i;
+
+    let lowIndex: number | undefined;
+    for (let i = highIndex + 1; i <= last; i++) {
+        if (lowIndex == null || bars[i].low <= bars[lowIndex].low) lowIndex = i;
+    }
+
+    const anchors: [AnchoredVwap['anchor'], number | undefined][] = [
+        ['high52w', highIndex],
+        ['baseLow', lowIndex],
+        ['highRvolDay', findHighRvolDay(bars, minRvol)],
+    ];
+
+    const result: AnchoredVwap[] = [];
+    for (const [anchor, index] of anchors) {
+        if (index == null) continue;
+        const vwap = calculateAnchoredVwap(bars, index);
+        if (vwap == null || vwap <= 0) continue;
+        result.push({ anchor, date: bars[index].date, vwap, pctFrom: ((lastClose - vwap) / vwap) * 100 });
+    }
+    return result;
+}
+
+/**
+ * Anchor label for the report (52w high, base low, RVOL day)
+ */
+export function formatVwapAnchor(anchor: AnchoredVwap['anchor']): string {
+    if (anchor === 'high52w') return '52w high';
+    if (anchor === 'baseLow') return 'base low';
+    return 'RVOL day';
+}
@@ -0,0 +1,213 @@
+/**
+ * Smart Volume Radar - Base Pattern Recognition
+ * Detects flat bases, cup-with-handle and volatility contraction patterns (VCP) in daily bars.
+ * A base starts at the highest high of the last ~65 weeks and runs to the latest bar.
+ */
+
+import { Bar, BasePattern } from '../types/index.js';
+
+/** Bases older than ~65 weeks are not considered */
+const MAX_BASE_BARS = 325;
+
+/** Minimum base lengths (trading days) */
+const FLAT_BASE_MIN_BARS = 25; // ~5 weeks
+const CUP_MIN_BARS = 35; // ~7 weeks
+const VCP_MIN_BARS = 15; // ~3 weeks
+
+/** Maximum depths (%) */
+const FLAT_BASE_MAX_DEPTH = 15;
+const CUP_MIN_DEPTH = 12;
+const CUP_MAX_DEPTH = 35;
+const HANDLE_MAX_DEPTH = 12;
+const VCP_MAX_FIRST_DEPTH = 35;
+const VCP_MAX_LAST_DEPTH = 10;
+
+/** Handle length in trading days */
+const HANDLE_MIN_BARS = 5;
+const HANDLE_MAX_BARS = 25;
+
+/** Reversal (%) that ends a swing when splitting a VCP into contractions */
+const SWING_REVERSAL_PCT = 3;
+
+/** Price more than this far above the pivot = extended, no longer in the base */
+const MAX_ABOVE_PIVOT_PCT = 5;
+
+/** Recent bars used for tightness and volume dry-up */
+const RECENT_BARS = 10;
+
+interface SwingPoint {
+    index: number;
+    price: number;
+    kind: 'high' | 'low';
+}
+
+const clamp01 = (x: number): number => Math.min(1, Math.max(0, x));
+
+const average = (values: number[]): number => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+function lowestLow(bars: Bar[], from: number): { index: number; price: number } {
+    let index = from;
+    for (let i = from + 1; i < bars.length; i++) if (bars[i].low < bars[index].low) index = i;
+    return { index, price: bars[index].low };
+}
+
+function highestHigh(bars: Bar[], from: number): { index: number; price: number } {
+    let index = from;
+    for (let i = from + 1; i < bars.length; i++) if (bars[i].high > bars[index].high) index = i;
+    return { index, price: bars[index].high };
+}
+
+/**
+ * Alternating swing highs and lows (zigzag) starting with a high at index 0.
+ * A swing ends once price reverses by SWING_REVERSAL_PCT; the last, unfinished swing is included.
+ */
+function swingPoints(bars: Bar[]): SwingPoint[] {
+    const points: SwingPoint[] = [];
+    let current: SwingPoint = { index: 0, price: bars[0].high, kind: 'high' };
+    for (let i = 1; i < bars.length; i++) {
+        const { high, low } = bars[i];
+        if (current.kind === 'high') {
+            if (high > current.price) current = { index: i, price: high, kind: 'high' };
+            else if (low <= current.price * (1 - SWING_REVERSAL_PCT / 100)) {
+                points.push(current);
+                current = { index: i, price: low, kind: 'low' };
+            }
+        } else if (low < current.price) {
+            current = { index: i, price: low, kind: 'low' };
+        } else if (high >= current.price * (1 + SWING_REVERSAL_PCT / 100)) {
+            points.push(current);
+            current = { index: i, price: high, kind: 'high' };
+        }
+    }
+    points.push(current);
+    return points;
+}
+
+/**
+ * Quality 0–100 from four equally weighted parts: depth score (0–1, per pattern type),
+ * tightness of the last 10 bars (avg range ≤2% best, ≥6% worst), volume dry-up (last 10 bars
+ * vs the base average, ≤0.6× best) and distance below the pivot (at the pivot best, ≥10% worst)
+ */
+function scoreQuality(base: Bar[], pivot: number, depthScore: number): number {
+    const recent = base.slice(-RECENT_BARS);
+    const rangePct = average(recent.map((b) => (b.low > 0 ? (b.high / b.low - 1) * 100 : 0)));
+    const tightness = clamp01((6 - rangePct) / 4);
+    const baseVolume = average(base.map((b) => b.volume));
+    const dryUp = baseVolume > 0 ? clamp01((1.2 - average(recent.map((b) => b.volume)) / baseVolume) / 0.6) : 0;
+    const lastClose = base[base.length - 1].close;
+    const proximity = clamp01(1 - Math.max(0, ((pivot - lastClose) / pivot) * 100) / 10);
+    return Math.round(25 * (clamp01(depthScore) + tightness + dryUp + proximity));
+}
+
+function detectFlatBase(base: Bar[], depthPct: number): BasePattern | null {
+    if (base.length < FLAT_BASE_MIN_BARS || depthPct > FLAT_BASE_MAX_DEPTH) return null;
+    const pivot = highestHigh(base, 0).price;
+    return {
+        type: 'flat-base',
+        depthPct,
+        pivot,
+        lengthBars: base.length,
+        startDate: base[0].date,
+        // Shallower is better (≤5% best)
+        quality: scoreQuality(base, pivot, (FLAT_BASE_MAX_DEPTH - depthPct) / 10),
+    };
+}
+
+function detectCupWithHandle(base: Bar[], depthPct: number): BasePattern | null {
+    if (base.length < CUP_MIN_BARS || depthPct < CUP_MIN_DEPTH || depthPct > CUP_MAX_DEPTH) return null;
+
+    const leftHigh = base[0].high;
+    const cupLow = lowestLow(base, 1);
+    // Rounded bottom: the low is not right after the left-side high, and there is room for a right side
+    if (cupLow.index < base.length * 0.2 || cupLow.index >= base.length - HANDLE_MIN_BARS - 1) return null;
+
+    const rightSide = highestHigh(base, cupLow.index + 1);
+    const handleBars = base.length - 1 - rightSide.index;
+    if (handleBars < HANDLE_MIN_BARS || handleBars > HANDLE_MAX_BARS) return null;
+    // Right side recovers most of the cup
+    if (rightSide.price < cupLow.price + (leftHigh - cupLow.price) * 0.8) return null;
+
+    const handleLow = lowestLow(base, rightSide.index + 1).price;
+    const handleDepth = ((rightSide.price - handleLow) / rightSide.price) * 100;
+    const cupMidpoint = cupLow.price + (leftHigh - cupLow.price) / 2;
+    if (handleDepth > HANDLE_MAX_DEPTH || handleLow < cupMidpoint) return null;
+
+    const pivot = rightSide.price;
+    return {
+        type: 'cup-with-handle',
+        depthPct,
+        pivot,
+        lengthBars: base.length,
+        startDate: base[0].date,
+        // 15–30% deep cups score best; shallow handles are better
+        quality: scoreQuality(base, pivot, 1 - Math.max(0, 15 - depthPct, depthPct - 30) / 10 - handleDepth / 24),
+    };
+}
+
+function detectVcp(base: Bar[]): BasePattern | null {
+    if (base.length < VCP_MIN_BARS) return null;
+
+    const points = swingPoints(base);
+    const contractions: number[] = [];
+    let lastHigh = base[0].high;
+    for (let i = 0; i + 1 < points.length; i++) {
+        if (points[i].kind !== 'high' || points[i + 1].kind !== 'low') continue;
+        contractions.push(((points[i].price - points[i + 1].price) / points[i].price) * 100);
+        lastHigh = points[i].price;
+    }
+    if (contractions.length < 2) return null;
+
+    // Each pullback shallower than the one before
+    for (let i = 1; i < contractions.length; i++) {
+        if (contractions[i] >= contractions[i - 1]) return null;
+    }
+    const first = contractions[0];
+    const last = contractions[contractions.length - 1];
+    if (first > VCP_MAX_FIRST_DEPTH || last > VCP_MAX_LAST_DEPTH) return null;
+
+    const pivot = lastHigh;
+    return {
+        type: 'vcp',
+        depthPct: first,
+        pivot,
+        lengthBars: base.length,
+        startDate: base[0].date,
+        contractions,
+        // More contractions and a tight final one score best
+        quality: scoreQuality(base, pivot, (contractions.length - 1) / 3 + (VCP_MAX_LAST_DEPTH - last) / 20),
+    };
+}
+
+/**
+ * Detect the base the stock is in at the latest bar. The base runs from the highest high of the
+ * last ~65 weeks to today; it is tested as a flat base, cup-with-handle and VCP and the highest
+ * quality match is returned. Null when there is no base (too short, too deep, or price is
+ * already extended above the pivot).
+ */
+export function detectBasePattern(bars: Bar[]): BasePattern | null {
+    if (bars.length < VCP_MIN_BARS) return null;
+    const window = bars.slice(-MAX_BASE_BARS);
+    const start = highestHigh(window, 0).index;
+    const base = window.slice(start);
+    if (base.length < VCP_MIN_BARS) return null;
+
+    const depthPct = ((base[0].high - lowestLow(base, 0).price) / base[0].high) * 100;
+    const candidates = [detectFlatBase(base, depthPct), detectCupWithHandle(base, depthPct), detectVcp(base)];
+    const lastClose = base[base.length - 1].close;
+
+    let best: BasePattern | null = null;
+    for (const pattern of candidates) {
+        if (!pattern || lastClose > pattern.pivot * (1 + MAX_ABOVE_PIVOT_PCT / 100)) continue;
+        if (!best || pattern.quality > best.quality) best = pattern;
+    }
+    return best;
+}
+
+/**
+ * Short label for a pattern type (report, LLM prompt)
+ */
+export function formatBasePatternType(type: BasePattern['type']): string {
+    if (type === 'cup-with-handle') return 'Cup w/ handle';
+    if (type === 'vcp') return 'VCP';
+    return 'Flat base';
+}
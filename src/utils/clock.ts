@@ -0,0 +1,29 @@
+/**
+ * Smart Volume Radar - Clock
+ * Current time for everything that depends on "now" (request ranges, calendars, bar freshness).
+ * Frozen at the run start when recording or replaying HTTP fixtures, so a replayed run builds
+ * the same requests and sees the same market state as the recorded one.
+ */
+
+let frozenAt: number | null = null;
+
+/**
+ * Current time (the frozen time when the clock is frozen)
+ */
+export function now(): Date {
+    return frozenAt != null ? new Date(frozenAt) : new Date();
+}
+
+/**
+ * Current time in milliseconds (see now())
+ */
+export function nowMs(): number {
+    return frozenAt ?? Date.now();
+}
+
+/**
+ * Freeze the clock at a point in time; null unfreezes it
+ */
+export function freezeClock(at: Date | null): void {
+    frozenAt = at ? at.getTime() : null;
+}
@@ -0,0 +1,108 @@
+/**
+ * Smart Volume Radar - Corporate Action Adjustment
+ * Back-adjusts daily bars (OHLC and volume) for splits and cash dividends, so a split inside the
+ * lookback does not fake an RVOL spike/collapse or a price jump in SMA, RSI and the 52w high
+ */
+
+import { RawMarketData, RawBar, CorporateAction } from '../types/index.js';
+
+/**
+ * Adjusted raw data plus the splits found inside its history
+ */
+export interface AdjustmentResult {
+    raw: RawMarketData;
+    /** Splits inside the history, whether adjusted here or already by the provider */
+    splits: CorporateAction[];
+}
+
+/**
+ * Last valid close before a date and first valid close on/after it
+ */
+function closesAround(bars: RawBar[], date: string): { before?: number; after?: number } {
+    let before: number | undefined;
+    for (const bar of bars) {
+        const { close } = bar;
+        if (close == null || close <= 0) continue;
+        if (bar.date! < date) before = close;
+        else return { before, after: close };
+    }
+    return { before };
+}
+
+/**
+ * True when the price gap across the ex-date matches the split ratio (history not yet adjusted).
+ * Already adjusted history shows no such gap, so a split is never applied twice.
+ */
+function isUnadjustedSplit(bars: RawBar[], split: CorporateAction): boolean {
+    const { before, after } = closesAround(bars, split.date);
+    if (before == null || after == null || !split.ratio) return false;
+    const gap = Math.log(before / after);
+    return Math.abs(gap - Math.log(split.ratio)) < Math.abs(gap);
+}
+
+/** Multiply a nullable price; missing values stay missing */
+function scale(value: number | null | undefined, factor: number): number | null | undefined {
+    return value != null ? value * factor : value;
+}
+
+/**
+ * Bar with open/high/low/close multiplied by a factor (adjClose is already adjusted by the provider)
+ */
+function scaleBar(bar: RawBar, factor: number): RawBar {
+    return {
+        ...bar,
+        open: scale(bar.open, factor),
+        high: scale(bar.high, factor),
+        low: scale(bar.low, factor),
+        close: scale(bar.close, factor) ?? null,
+    };
+}
+
+/**
+ * Format a split ratio as new:old shares (4 -> "4:1", 0.1 -> "1:10")
+ */
+export function formatSplitRatio(ratio: number): string {
+    return ratio >= 1 ? `${+ratio.toFixed(2)}:1` : `1:${+(1 / ratio).toFixed(2)}`;
+}
+
+/**
+ * Adjust bars before each ex-date. Splits divide prices and multiply volumes by the ratio
+ * (only when the provider returned unadjusted history); cash dividends scale prices by
+ * 1 − amount ÷ previous close (provider closes are not dividend-adjusted). Needs bar dates.
+ */
+export function adjustForCorporateActions(raw: RawMarketData): AdjustmentResult {
+    const actions = raw.actions ?? [];
+    if (actions.length === 0 || raw.bars.length === 0 || raw.bars.some((b) => !b.date)) {
+        return { raw, splits: [] };
+    }
+
+    const first = raw.bars[0].date!;
+    const last = raw.bars[raw.bars.length - 1].date!;
+    const inHistory = actions
+        .filter((a) => a.date > first && a.date <= last)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    let bars = raw.bars;
+    const splits: CorporateAction[] = [];
+    const adjustBefore = (date: string, adjust: (bar: RawBar) => RawBar): RawBar[] =>
+        bars.map((bar) => (bar.date! < date ? adjust(bar) : bar));
+
+    for (const action of inHistory) {
+        if (action.type === 'split' && action.ratio && action.ratio > 0) {
+            splits.push(action);
+            if (!isUnadjustedSplit(bars, action)) continue;
+            const ratio = action.ratio;
+            bars = adjustBefore(action.date, (bar) => ({
+                ...scaleBar(bar, 1 / ratio),
+                volume: bar.volume != null ? Math.round(bar.volume * ratio) : null,
+            }));
+        } else if (action.type === 'dividend' && action.amount && action.amount > 0) {
+            const { before } = closesAround(bars, action.date);
+            if (before == null || action.amount >= before) continue;
+            const factor = 1 - action.amount / before;
+            bars = adjustBefore(action.date, (bar) => scaleBar(bar, factor));
+        }
+    }
+
+    return { raw: { ...raw, bars }, splits };
+}
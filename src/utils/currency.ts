@@ -0,0 +1,49 @@
+/**
+ * Smart Volume Radar - Currency Helpers
+ * Minor-unit quotes (agorot, pence, cents) normalized to the main currency, price and
+ * dollar-volume formatting for the report
+ */
+
+/** Yahoo minor-unit currency codes -> main currency and units per main unit */
+const MINOR_UNITS: Record<string, { currency: string; divisor: number }> = {
+    ILA: { currency: 'ILS', divisor: 100 }, // TASE quotes in agorot
+    GBp: { currency: 'GBP', divisor: 100 }, // LSE quotes in pence
+    GBX: { currency: 'GBP', divisor: 100 },
+    ZAc: { currency: 'ZAR', divisor: 100 },
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    USD: '$',
+    ILS: '₪',
+    EUR: '€',
+    GBP: '£',
+    JPY: '¥',
+};
+
+/**
+ * Main currency of a quote currency and the divisor that converts quoted prices into it
+ * (ILA -> ILS / 100). Unknown or missing codes are returned upper-cased with divisor 1.
+ */
+export function normalizeCurrency(code: string | undefined): { currency?: string; divisor: number } {
+    if (!code) return { divisor: 1 };
+    return MINOR_UNITS[code] ?? { currency: code.toUpperCase(), divisor: 1 };
+}
+
+/**
+ * Price with currency symbol (₪12.34, $5.10, 12.34 CHF)
+ */
+export function formatPrice(price: number, currency: string = 'USD'): string {
+    const symbol = CURRENCY_SYMBOLS[currency];
+    return symbol ? `${symbol}${price.toFixed(2)}` : `${price.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Compact USD amount ($1.2B, $45.3M, $820K)
+ */
+export function formatUsdCompact(amount: number): string {
+    const abs = Math.abs(amount);
+    if (abs >= 1e9) return `$${(amount / 1e9).toFixed(1)}B`;
+    if (abs >= 1e6) return `$${(amount / 1e6).toFixed(1)}M`;
+    if (abs >= 1e3) return `$${(amount / 1e3).toFixed(0)}K`;
+    return `$${amount.toFixed(0)}`;
+}
@@ -1,10 +1,8 @@
 /**
  * Smart Volume Radar - Error Handler Utility
- * Graceful error handling with retry logic
+ * Graceful error handling helpers (retries live in the HTTP client)
  */
 
-import logger from './logger.js';
-
 /**
  * Sleep for a specified duration
  */
@@ -12,41 +10,6 @@ export function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/**
- * Retry a function with exponential backoff
- * @param fn - Function to retry
- * @param maxRetries - Maximum number of retries
- * @param baseDelayMs - Base delay in milliseconds (doubles each retry)
- * @param context - Context string for logging
- */
-export async function withRetry<T>(
-    fn: () => Promise<T>,
-    maxRetries: number = 3,
-    baseDelayMs: number = 1000,
-    context: string = 'operation'
-): Promise<T> {
-    let lastError: Error | undefined;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            return await fn();
-        } catch (error) {
-            lastError = error instanceof Error ? error : new Error(String(error));
-
-            if (attempt === maxRetries) {
-                logger.error(`${context} failed after ${maxRetries} attempts`, lastError.message);
-                throw lastError;
-            }
-
-            const delay = baseDelayMs * Math.pow(2, attempt - 1);
-            logger.warn(`${context} failed (attempt ${attempt}/${maxRetries}), retrying in ${delay}ms...`);
-            await sleep(delay);
-        }
-    }
-
-    throw lastError;
-}
-
 /**
  * Safe JSON parse with fallback
  */
@@ -0,0 +1,48 @@
+/**
+ * Smart Volume Radar - Gap Analysis
+ * Opening gap vs the previous close, whether it held or filled during the session, and where the
+ * close sits within the day's range – splits volume signals into gap & go, gap fade and no gap
+ */
+
+import { Bar, GapAnalysis, GapCategory } from '../types/index.js';
+
+/**
+ * Gap of the latest bar: open vs previous close. A gap of at least `minGapPct` is filled when the
+ * day's range reached back to the previous close. Gap & go = held with the close in the gap's half
+ * of the range (upper half for gap up), otherwise gap fade. Undefined with fewer than two bars.
+ */
+export function analyzeGap(bars: Bar[], minGapPct: number): GapAnalysis | undefined {
+    if (bars.length < 2) return undefined;
+    const { open, high, low, close } = bars[bars.length - 1];
+    const prevClose = bars[bars.length - 2].close;
+    if (prevClose <= 0) return undefined;
+
+    const gapPct = ((open - prevClose) / prevClose) * 100;
+    const direction = gapPct >= minGapPct ? 'up' : gapPct <= -minGapPct ? 'down' : 'none';
+    const closeLocation = high > low ? (close - low) / (high - low) : 0.5;
+
+    // Share of the gap retraced intraday (100 = back to the previous close)
+    const gapSize = Math.abs(open - prevClose);
+    const retraced = direction === 'up' ? open - low : direction === 'down' ? high - open : 0;
+    const fillPct = gapSize > 0 ? Math.min(100, Math.max(0, (retraced / gapSize) * 100)) : 0;
+    const filled = direction === 'up' ? low <= prevClose : direction === 'down' ? high >= prevClose : false;
+
+    let category: GapCategory = 'no-gap';
+    if (direction !== 'none') {
+        const closedWithGap = direction === 'up' ? closeLocation >= 0.5 : closeLocation <= 0.5;
+        category = !filled && closedWithGap ? 'gap-and-go' : 'gap-fade';
+    }
+
+    return { direction, gapPct, filled, fillPct, closeLocation, category };
+}
+
+/**
+ * Compact gap label for the report (e.g. "▲+3.2% held", "▼−2.1% filled")
+ */
+export function formatGap(gap: GapAnalysis): string {
+    if (gap.direction === 'none') return 'no gap';
+    const arrow = gap.direction === 'up' ? '▲' : '▼';
+    const sign = gap.gapPct >= 0 ? '+' : '−';
+    const state = gap.filled ? 'filled' : gap.fillPct > 0 ? `held (${gap.fillPct.toFixed(0)}% retraced)` : 'held';
+    return `${arrow}${sign}${Math.abs(gap.gapPct).toFixed(1)}% ${state}`;
+}
@@ -0,0 +1,219 @@
+/**
+ * Smart Volume Radar - HTTP Client
+ * Shared fetch wrapper: request budget, per-call timeout, retry with backoff on transient errors
+ * (network, timeout, 5xx, 429 with Retry-After) and a per-provider circuit breaker
+ */
+
+import { config } from '../config/index.js';
+import logger from './logger.js';
+import { sleep } from './errorHandler.js';
+import { schedule, pauseProvider, ScheduleOptions, BudgetExhaustedError } from './requestScheduler.js';
+import { getHttpMode, recordFixture, replayFixture } from './httpRecorder.js';
+
+/** Why a provider request failed */
+export type ProviderErrorKind = 'timeout' | 'network' | 'http' | 'circuit-open' | 'budget' | 'fixture-missing';
+
+/**
+ * Structured failure of a provider request
+ */
+export class ProviderError extends Error {
+    constructor(
+        public readonly provider: string,
+        public readonly kind: ProviderErrorKind,
+        /** What went wrong, without the provider prefix */
+        public readonly reason: string,
+        /** HTTP status for kind 'http' */
+        public readonly status?: number
+    ) {
+        super(`${provider}: ${reason}`);
+        this.name = 'ProviderError';
+    }
+}
+
+export interface HttpRequestOptions {
+    init?: Parameters<typeof fetch>[1];
+    /** Abort the request after this long (default config.httpTimeoutMs); starts once the budget allows the call */
+    timeoutMs?: number;
+    /** Attempts including the first (default config.maxRetries) */
+    attempts?: number;
+    /** Request budget options (credit cost, max wait for a token) */
+    budget?: ScheduleOptions;
+}
+
+interface CircuitState {
+    consecutiveFailures: number;
+    openUntil: number;
+}
+
+/** Retry-After longer than this is not waited for (the request fails instead) */
+const MAX_RETRY_AFTER_MS = 2 * 60 * 1000;
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuit(provider: string): CircuitState {
+    let circuit = circuits.get(provider);
+    if (!circuit) {
+        circuit = { consecutiveFailures: 0, openUntil: 0 };
+        circuits.set(provider, circuit);
+    }
+    return circuit;
+}
+
+/**
+ * Count a failed request; opens the circuit after config.circuitBreakerThreshold failures in a row.
+ * A failed trial request after the cooldown reopens it right away.
+ */
+function recordFailure(provider: string): void {
+    const circuit = getCircuit(provider);
+    circuit.consecutiveFailures++;
+    if (circuit.consecutiveFailures >= config.circuitBreakerThreshold) {
+        circuit.openUntil = Date.now() + config.circuitBreakerCooldownMs;
+        logger.warn(
+            `🔌 ${provider}: ${circuit.consecutiveFailures} failures in a row – pausing requests for ${(config.circuitBreakerCooldownMs / 1000).toFixed(0)}s`
+        );
+    }
+}
+
+function recordSuccess(provider: string): void {
+    const circuit = getCircuit(provider);
+    circuit.consecutiveFailures = 0;
+    circuit.openUntil = 0;
+}
+
+/**
+ * True while the provider's circuit is open (requests fail fast)
+ */
+export function isCircuitOpen(provider: string): boolean {
+    return getCircuit(provider).openUntil > Date.now();
+}
+
+/**
+ * Close all circuits (tests)
+ */
+export function resetCircuits(): void {
+    circuits.clear();
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Statuses whose Response must not carry a body */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Fetch with the timeout covering the whole response: the body is read while the abort timer is
+ * still armed (a body that stalls after the headers times out too) and returned buffered
+ */
+async function fetchWithTimeout(
+    provider: string,
+    url: string,
+    init: Parameters<typeof fetch>[1],
+    timeoutMs: number
+): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        const response = await fetch(url, { ...init, signal: controller.signal });
+        const body = NULL_BODY_STATUSES.includes(response.status) ? null : await response.arrayBuffer();
+        return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+    } catch (error) {
+        if (controller.signal.aborted) {
+            throw new ProviderError(provider, 'timeout', `no response within ${timeoutMs}ms`);
+        }
+        throw new ProviderError(provider, 'network', (error as Error).message);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Request through the provider's budget and circuit breaker. Transient failures (network, timeout,
+ * 5xx, 429) are retried with exponential backoff; a 429 pauses the provider for Retry-After.
+ * Other responses (2xx–4xx) are returned as-is, so callers keep their own status handling.
+ * In record mode the outcome is saved as a fixture; in replay mode it is served from the fixtures.
+ * @throws ProviderError when the circuit is open, the budget is exhausted or all attempts failed
+ */
+export async function httpRequest(provider: string, url: string, options: HttpRequestOptions = {}): Promise<Response> {
+    const mode = getHttpMode();
+    const method = options.init?.method ?? 'GET';
+    const body = typeof options.init?.body === 'string' ? options.init.body : undefined;
+
+    if (mode === 'replay') {
+        const recorded = replayFixture(provider, method, url, body);
+        if (!recorded) throw new ProviderError(provider, 'fixture-missing', `no recorded response for ${method} request`);
+        if (recorded.response) return recorded.response;
+        const error = recorded.error ?? { kind: 'network', message: 'request failed' };
+        throw new ProviderError(provider, error.kind as ProviderErrorKind, error.message, error.status);
+    }
+    if (mode === 'live') return requestLive(provider, url, options);
+
+    try {
+        const response = await requestLive(provider, url, options);
+        return (await recordFixture(provider, method, url, body, { response })) ?? response;
+    } catch (error) {
+        if (error instanceof ProviderError) {
+            await recordFixture(provider, method, url, body, {
+                error: { kind: error.kind, message: error.reason, status: error.status },
+            });
+        }
+        throw error;
+    }
+}
+
+async function requestLive(provider: string, url: string, options: HttpRequestOptions): Promise<Response> {
+    if (isCircuitOpen(provider)) {
+        throw new ProviderError(provider, 'circuit-open', 'too many recent failures – request skipped');
+    }
+
+    const attempts = Math.max(1, options.attempts ?? config.maxRetries);
+    const timeoutMs = options.timeoutMs ?? config.httpTimeoutMs;
+    let lastError: ProviderError | undefined;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        let backoff = config.retryDelayMs * Math.pow(2, attempt - 1);
+        try {
+            const response = await schedule(
+                provider,
+                () => fetchWithTimeout(provider, url, options.init, timeoutMs),
+                options.budget
+            );
+            const transient = response.status === 429 || response.status >= 500;
+            if (!transient) {
+                recordSuccess(provider);
+                return response;
+            }
+
+            lastError = new ProviderError(provider, 'http', `HTTP ${response.status}`, response.status);
+            if (response.status === 429) {
+                // The scheduler holds back every request to the provider until Retry-After has passed
+                const retryAfter = parseRetryAfter(response.headers.get('retry-after')) ?? backoff;
+                pauseProvider(provider, Math.min(retryAfter, MAX_RETRY_AFTER_MS));
+                // Optional calls do not wait out a rate limit
+                if (retryAfter > MAX_RETRY_AFTER_MS || options.budget?.maxWaitMs != null) break;
+                backoff = 0;
+            }
+        } catch (error) {
+            if (error instanceof BudgetExhaustedError) {
+                throw new ProviderError(provider, 'budget', error.message);
+            }
+            lastError = error instanceof ProviderError ? error : new ProviderError(provider, 'network', String(error));
+        }
+
+        if (attempt < attempts) {
+            logger.warn(`${lastError.message} (attempt ${attempt}/${attempts}), retrying...`);
+            if (backoff > 0) await sleep(backoff);
+        }
+    }
+
+    // Rate limits are handled by the scheduler pause, not counted as provider failures
+    if (lastError?.status !== 429) recordFailure(provider);
+    throw lastError ?? new ProviderError(provider, 'network', 'request failed');
+}
@@ -0,0 +1,178 @@
+/**
+ * Smart Volume Radar - HTTP Record / Replay
+ * record: the outcome of every HTTP request of a run is saved to the fixture directory;
+ * replay: requests are answered from those fixtures (no network), with the clock frozen at the
+ * recorded run start so the pipeline builds the same requests and sees the same market state
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { config } from '../config/index.js';
+import logger from './logger.js';
+import * as clock from './clock.js';
+
+/** live = network only, record = network + save fixtures, replay = fixtures only */
+export type HttpMode = 'live' | 'record' | 'replay';
+
+/**
+ * Recorded outcome of one request: a response, or the error the HTTP client gave up with
+ */
+export interface HttpFixture {
+    provider: string;
+    request: { method: string; url: string; body?: string };
+    response?: { status: number; statusText: string; headers: Record<string, string>; body: string };
+    error?: { kind: string; message: string; status?: number };
+}
+
+interface FixtureManifest {
+    recordedAt: string;
+}
+
+/** Query parameters holding credentials (never written to fixtures) */
+const SECRET_PARAMS = /([?&](?:apikey|api_key|token|key)=)[^&]*/gi;
+
+/** Telegram puts the bot token in the path */
+const TELEGRAM_BOT_PATH = /\/bot[^/]+\//;
+
+/** Response headers kept in fixtures (the rest are irrelevant to the pipeline) */
+const KEPT_HEADERS = ['content-type', 'retry-after'];
+
+const MANIFEST_FILE = 'manifest.json';
+
+/** Fixture file names written by nextFixturePath (request hash and sequence number) */
+const FIXTURE_FILE = /^[0-9a-f]{16}-\d+\.json$/;
+
+/** Calls per request key so far; repeated identical requests map to successive fixtures */
+const sequence = new Map<string, number>();
+
+/**
+ * Current mode (live unless HTTP_MODE is record or replay)
+ */
+export function getHttpMode(): HttpMode {
+    const mode = config.httpMode;
+    return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+/**
+ * URL with credentials replaced by "***"
+ */
+export function redactUrl(url: string): string {
+    return url.replace(SECRET_PARAMS, '$1***').replace(TELEGRAM_BOT_PATH, '/bot***/');
+}
+
+function nextFixturePath(provider: string, method: string, url: string, body?: string): string {
+    const key = crypto
+        .createHash('sha1')
+        .update(`${method} ${redactUrl(url)}\n${body ?? ''}`)
+        .digest('hex')
+        .slice(0, 16);
+    const n = sequence.get(`${provider}/${key}`) ?? 0;
+    sequence.set(`${provider}/${key}`, n + 1);
+    return path.join(config.httpFixturesDir, provider, `${key}-${n}.json`);
+}
+
+/**
+ * Delete the fixtures of an earlier recording (provider directories are removed once empty) so a
+ * replay never mixes two runs. Only fixture files are touched; anything else in the directory stays.
+ */
+function clearFixtures(dir: string): void {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (!entry.isDirectory()) continue;
+        const providerDir = path.join(dir, entry.name);
+        for (const file of fs.readdirSync(providerDir)) {
+            if (FIXTURE_FILE.test(file)) fs.rmSync(path.join(providerDir, file));
+        }
+        if (fs.readdirSync(providerDir).length === 0) fs.rmdirSync(providerDir);
+    }
+}
+
+/**
+ * Start a record or replay session (no-op when live). Recording replaces any earlier recording in the
+ * fixture directory. Freezes the clock: at the current time when recording, at the recorded run start
+ * when replaying.
+ * @throws Error when replaying and the fixture directory has no recorded run
+ */
+export function beginHttpSession(): void {
+    const mode = getHttpMode();
+    if (mode === 'live') return;
+    sequence.clear();
+    const manifestPath = path.join(config.httpFixturesDir, MANIFEST_FILE);
+
+    if (mode === 'record') {
+        const recordedAt = clock.now();
+        fs.mkdirSync(config.httpFixturesDir, { recursive: true });
+        clearFixtures(config.httpFixturesDir);
+        const manifest: FixtureManifest = { recordedAt: recordedAt.toISOString() };
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+        clock.freezeClock(recordedAt);
+        logger.info(`📼 Recording HTTP fixtures to ${config.httpFixturesDir}`);
+        return;
+    }
+
+    if (!fs.existsSync(manifestPath)) {
+        throw new Error(`No recorded run in ${config.httpFixturesDir} (missing ${MANIFEST_FILE}). Record one with HTTP_MODE=record.`);
+    }
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as FixtureManifest;
+    clock.freezeClock(new Date(manifest.recordedAt));
+    logger.info(`📼 Replaying HTTP fixtures from ${config.httpFixturesDir} (recorded ${manifest.recordedAt})`);
+}
+
+/**
+ * Save the outcome of a request. Returns an equivalent response, since the original body has been read.
+ */
+export async function recordFixture(
+    provider: string,
+    method: string,
+    url: string,
+    body: string | undefined,
+    outcome: { response?: Response; error?: HttpFixture['error'] }
+): Promise<Response | undefined> {
+    const fixture: HttpFixture = { provider, request: { method, url: redactUrl(url), body }, error: outcome.error };
+    let replayable: Response | undefined;
+
+    if (outcome.response) {
+        const { status, statusText } = outcome.response;
+        const text = await outcome.response.text();
+        const headers: Record<string, string> = {};
+        for (const name of KEPT_HEADERS) {
+            const value = outcome.response.headers.get(name);
+            if (value != null) headers[name] = value;
+        }
+        fixture.response = { status, statusText, headers, body: text };
+        replayable = toResponse(fixture.response);
+    }
+
+    const file = nextFixturePath(provider, method, url, body);
+    try {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+    } catch (error) {
+        logger.warn(`Failed to record HTTP fixture for ${provider}`, (error as Error).message);
+    }
+    return replayable;
+}
+
+function toResponse(recorded: NonNullable<HttpFixture['response']>): Response {
+    // Null-body statuses cannot carry a body
+    const body = [101, 204, 205, 304].includes(recorded.status) ? null : recorded.body;
+    return new Response(body, { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers });
+}
+
+/**
+ * Recorded outcome of the next identical request; null when the run made no such request
+ */
+export function replayFixture(
+    provider: string,
+    method: string,
+    url: string,
+    body?: string
+): { response?: Response; error?: HttpFixture['error'] } | null {
+    const file = nextFixturePath(provider, method, url, body);
+    if (!fs.existsSync(file)) return null;
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as HttpFixture;
+    return {
+        response: fixture.response ? toResponse(fixture.response) : undefined,
+        error: fixture.error,
+    };
+}
@@ -0,0 +1,137 @@
+/**
+ * Smart Volume Radar - Intraday Volume Curve
+ * Builds a cumulative volume-by-time-of-day curve from past sessions and compares
+ * today's volume so far against the average at the same minute of the session
+ */
+
+import { RawIntradayData, IntradayRvol } from '../types/index.js';
+import { localDateAndMinute } from './tradingCalendar.js';
+import * as clock from './clock.js';
+
+/** One point of the curve: average cumulative volume at a minute of the day */
+export interface VolumeCurvePoint {
+    minuteOfDay: number;
+    cumulativeVolume: number;
+}
+
+/** Intraday bar aligned by minute of the day */
+export interface SessionBar {
+    minute: number;
+    volume: number;
+}
+
+/**
+ * Group intraday bars by local session date (oldest session first)
+ */
+function groupBySession(data: RawIntradayData): Map<string, SessionBar[]> {
+    const sessions = new Map<string, SessionBar[]>();
+    for (const bar of data.bars) {
+        if (bar.volume == null || bar.volume < 0) continue;
+        const { date, minute } = localDateAndMinute(bar.time, data.timezone);
+        if (!sessions.has(date)) sessions.set(date, []);
+        sessions.get(date)!.push({ minute, volume: bar.volume });
+    }
+    return new Map([...sessions.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Cumulative volume of one session at a minute; the bar containing the minute counts pro rata
+ */
+function cumulativeAt(bars: SessionBar[], minute: number, intervalMinutes: number): number {
+    let total = 0;
+    for (const bar of bars) {
+        const end = bar.minute + intervalMinutes;
+        if (end <= minute) total += bar.volume;
+        else if (bar.minute < minute) total += bar.volume * ((minute - bar.minute) / intervalMinutes);
+    }
+    return total;
+}
+
+/**
+ * Average cumulative volume curve across sessions, one point per bar boundary
+ */
+export function buildVolumeCurve(sessions: SessionBar[][], intervalMinutes: number): VolumeCurvePoint[] {
+    if (sessions.length === 0) return [];
+    const starts = new Set<number>();
+    for (const bars of sessions) for (const bar of bars) starts.add(bar.minute);
+    const sortedStarts = [...starts].sort((a, b) => a - b);
+    if (sortedStarts.length === 0) return [];
+
+    const points: VolumeCurvePoint[] = [{ minuteOfDay: sortedStarts[0], cumulativeVolume: 0 }];
+    for (const start of sortedStarts) {
+        const end = start + intervalMinutes;
+        const avg = sessions.reduce((sum, bars) => sum + cumulativeAt(bars, end, intervalMinutes), 0) / sessions.length;
+        points.push({ minuteOfDay: end, cumulativeVolume: avg });
+    }
+    return points;
+}
+
+/**
+ * Expected cumulative volume at a minute, linearly interpolated between curve points
+ */
+export function expectedVolumeAt(curve: VolumeCurvePoint[], minuteOfDay: number): number {
+    if (curve.length === 0 || minuteOfDay <= curve[0].minuteOfDay) return 0;
+    for (let i = 1; i < curve.length; i++) {
+        const prev = curve[i - 1];
+        const next = curve[i];
+        if (minuteOfDay <= next.minuteOfDay) {
+            const span = next.minuteOfDay - prev.minuteOfDay;
+            const t = span > 0 ? (minuteOfDay - prev.minuteOfDay) / span : 1;
+            return prev.cumulativeVolume + t * (next.cumulativeVolume - prev.cumulativeVolume);
+        }
+    }
+    return curve[curve.length - 1].cumulativeVolume;
+}
+
+/**
+ * Time-of-day adjusted RVOL: today's volume so far ÷ average volume at the same minute of past sessions.
+ * Returns null when today has no bars yet or there is no usable history.
+ * @param avgDailyVolume - Full-day average volume (for the unadjusted comparison)
+ * @param lookbackSessions - Past sessions used to build the curve
+ * @param now - Current time (measurement is capped at now inside the partial last bar)
+ */
+export function calculateIntradayRvol(
+    data: RawIntradayData,
+    avgDailyVolume: number,
+    lookbackSessions: number,
+    now: Date = clock.now()
+): { rvol: number; details: IntradayRvol } | null {
+    const sessions = groupBySession(data);
+    const nowLocal = localDateAndMinute(Math.floor(now.getTime() / 1000), data.timezone);
+    const todayBars = sessions.get(nowLocal.date);
+    if (!todayBars || todayBars.length === 0) return null;
+
+    const pastSessions = [...sessions.entries()]
+        .filter(([date]) => date < nowLocal.date)
+        .slice(-lookbackSessions)
+        .map(([, bars]) => bars);
+    if (pastSessions.length === 0) return null;
+
+    const lastBar = todayBars[todayBars.length - 1];
+    const minuteOfDay = Math.min(lastBar.minute + data.intervalMinutes, Math.max(nowLocal.minute, lastBar.minute + 1));
+
+    const curve = buildVolumeCurve(pastSessions, data.intervalMinutes);
+    const expectedVolumeSoFar = expectedVolumeAt(curve, minuteOfDay);
+    const volumeSoFar = todayBars.reduce((sum, b) => sum + b.volume, 0);
+    if (expectedVolumeSoFar <= 0) return null;
+
+    return {
+        rvol: volumeSoFar / expectedVolumeSoFar,
+        details: {
+            volumeSoFar,
+            expectedVolumeSoFar,
+            minuteOfDay,
+            sessionsUsed: pastSessions.length,
+            unadjustedRvol: avgDailyVolume > 0 ? volumeSoFar / avgDailyVolume : 0,
+        },
+    };
+}
+
+/**
+ * Format minutes since midnight as HH:MM
+ */
+export function formatMinuteOfDay(minuteOfDay: number): string {
+    const h = Math.floor(minuteOfDay / 60);
+    const m = Math.round(minuteOfDay % 60);
+    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Smart Volume Radar - Multi-Window RVOL
+ * Today's volume against several average windows plus 5-day and weekly RVOL, so sustained
+ * multi-day volume can be told apart from a one-day spike
+ */
+
+import { Bar, RvolWindows } from '../types/index.js';
+
+/** Sessions in the short (sustained) window */
+export const SUSTAINED_DAYS = 5;
+
+/** Baseline for 5-day RVOL and elevated days: the 63 sessions before the short window */
+export const BASELINE_BARS = 63;
+
+/** Completed calendar weeks averaged for weekly RVOL */
+const WEEKLY_LOOKBACK_WEEKS = 10;
+
+const average = (values: number[]): number => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+/**
+ * Monday of the bar's calendar week (YYYY-MM-DD), the key weekly volume is grouped by
+ */
+function weekKey(date: string): string {
+    const day = new Date(`${date}T00:00:00Z`);
+    const offset = (day.getUTCDay() + 6) % 7; // days since Monday
+    day.setUTCDate(day.getUTCDate() - offset);
+    return day.toISOString().slice(0, 10);
+}
+
+/**
+ * This week's average daily volume ÷ the average daily volume of the previous 10 weeks.
+ * Per-day averages keep partial weeks and holidays comparable. Needs bar dates.
+ */
+function calculateWeeklyRvol(bars: Bar[]): number | undefined {
+    if (bars.length === 0 || bars.some((b) => !b.date)) return undefined;
+    const weeks = new Map<string, number[]>();
+    for (const bar of bars) {
+        const key = weekKey(bar.date!);
+        const volumes = weeks.get(key) ?? [];
+        volumes.push(bar.volume);
+        weeks.set(key, volumes);
+    }
+    const ordered = [...weeks.values()];
+    const current = ordered[ordered.length - 1];
+    const previous = ordered.slice(-1 - WEEKLY_LOOKBACK_WEEKS, -1);
+    if (previous.length < WEEKLY_LOOKBACK_WEEKS) return undefined;
+    const baseline = average(previous.flat());
+    return baseline > 0 ? average(current) / baseline : undefined;
+}
+
+/**
+ * RVOL over several windows from daily bars (the last bar is today):
+ * - daily: today's volume ÷ the average of the previous N sessions, per window
+ * - rvol5d: average of the last 5 sessions ÷ the 63-session average before them
+ * - weekly: this calendar week vs the previous 10 weeks (per-day averages)
+ * - elevatedDays: sessions of the last 5 at or above `elevatedRvol` × that 63-session average
+ */
+export function calculateRvolWindows(bars: Bar[], windows: number[], elevatedRvol: number): RvolWindows {
+    const volumes = bars.map((b) => b.volume);
+    const today = volumes[volumes.length - 1] ?? 0;
+    const history = volumes.slice(0, -1);
+
+    const daily: Record<number, number> = {};
+    for (const window of windows) {
+        if (history.length < window) continue;
+        const avg = average(history.slice(-window));
+        if (avg > 0) daily[window] = today / avg;
+    }
+
+    let rvol5d: number | undefined;
+    let elevatedDays = 0;
+    const recent = volumes.slice(-SUSTAINED_DAYS);
+    const baseline = average(volumes.slice(-SUSTAINED_DAYS - BASELINE_BARS, -SUSTAINED_DAYS));
+    if (volumes.length >= SUSTAINED_DAYS + BASELINE_BARS && baseline > 0) {
+        rvol5d = average(recent) / baseline;
+        elevatedDays = recent.filter((v) => v / baseline >= elevatedRvol).length;
+    }
+
+    return { daily, rvol5d, weekly: calculateWeeklyRvol(bars), elevatedDays };
+}
@@ -0,0 +1,160 @@
+/**
+ * Smart Volume Radar - Price Levels & Breakouts
+ * Swing pivots, horizontal support/resistance from clustered swings, and a breakout classifier
+ * (breakout above a pivot, failed breakout, pullback to the pivot) from daily bars
+ */
+
+import { Bar, SwingPivot, PriceLevel, PriceLevels, BreakoutSignal } from '../types/index.js';
+
+/** Bars on each side a swing high (low) must exceed (undercut) */
+const SWING_STRENGTH = 5;
+
+/** Bars searched for swings and levels (~1 year) */
+const LEVEL_LOOKBACK_BARS = 250;
+
+/** Swings within this % of each other form one horizontal level */
+const LEVEL_TOLERANCE_PCT = 1.5;
+
+/** Minimum swings for a horizontal level */
+const LEVEL_MIN_TOUCHES = 2;
+
+/** Breakouts are looked for in the last 10 sessions */
+const BREAKOUT_WINDOW_BARS = 10;
+
+/** Average volume window for the breakout bar's RVOL */
+const BREAKOUT_VOLUME_BARS = 50;
+
+/** Low within this % above the pivot after a breakout = pullback to the pivot */
+const PULLBACK_TOLERANCE_PCT = 2;
+
+/**
+ * Swing highs and lows: a bar whose high (low) is the highest (lowest) of the `strength` bars on
+ * each side. The last `strength` bars cannot be confirmed yet and are never swings.
+ */
+export function findSwingPivots(bars: Bar[], strength: number = SWING_STRENGTH): SwingPivot[] {
+    const pivots: SwingPivot[] = [];
+    for (let i = strength; i < bars.length - strength; i++) {
+        let isHigh = true;
+        let isLow = true;
+        for (let j = i - strength; j <= i + strength && (isHigh || isLow); j++) {
+            if (j === i) continue;
+            if (bars[j].high >= bars[i].high && (j > i || bars[j].high > bars[i].high)) isHigh = false;
+            if (bars[j].low <= bars[i].low && (j > i || bars[j].low < bars[i].low)) isLow = false;
+        }
+        if (isHigh) pivots.push({ index: i, date: bars[i].date, price: bars[i].high, kind: 'high' });
+        if (isLow) pivots.push({ index: i, date: bars[i].date, price: bars[i].low, kind: 'low' });
+    }
+    return pivots;
+}
+
+/**
+ * Horizontal levels: swings of one kind grouped while within LEVEL_TOLERANCE_PCT of the group's
+ * first price; groups with at least two swings become a level at their average price
+ */
+export function clusterLevels(swings: SwingPivot[]): PriceLevel[] {
+    const sorted = [...swings].sort((a, b) => a.price - b.price);
+    const levels: PriceLevel[] = [];
+    let group: SwingPivot[] = [];
+    const flush = (): void => {
+        if (group.length >= LEVEL_MIN_TOUCHES) {
+            const latest = group.reduce((a, b) => (b.index > a.index ? b : a));
+            levels.push({
+                price: group.reduce((sum, s) => sum + s.price, 0) / group.length,
+                touches: group.length,
+                lastTouchDate: latest.date,
+            });
+        }
+        group = [];
+    };
+    for (const swing of sorted) {
+        if (group.length > 0 && swing.price > group[0].price * (1 + LEVEL_TOLERANCE_PCT / 100)) flush();
+        group.push(swing);
+    }
+    flush();
+    return levels;
+}
+
+/**
+ * Latest swing high/low and the nearest resistance above / support below the last close
+ * over the last ~year. Resistance comes from clustered swing highs, support from swing lows.
+ */
+export function findPriceLevels(bars: Bar[]): PriceLevels | undefined {
+    if (bars.length < SWING_STRENGTH * 2 + 1) return undefined;
+    const offset = Math.max(0, bars.length - LEVEL_LOOKBACK_BARS);
+    const window = bars.slice(offset);
+    const lastClose = window[window.length - 1].close;
+    const swings = findSwingPivots(window).map((s) => ({ ...s, index: s.index + offset }));
+    const highs = swings.filter((s) => s.kind === 'high');
+    const lows = swings.filter((s) => s.kind === 'low');
+
+    const resistance = clusterLevels(highs)
+        .filter((l) => l.price > lastClose)
+        .sort((a, b) => a.price - b.price)[0];
+    const support = clusterLevels(lows)
+        .filter((l) => l.price < lastClose)
+        .sort((a, b) => b.price - a.price)[0];
+
+    return {
+        swingHigh: highs[highs.length - 1],
+        swingLow: lows[lows.length - 1],
+        resistance,
+        support,
+    };
+}
+
+/**
+ * Most recent swing high confirmed before bar k with no close above it since (the pivot a close at k would clear)
+ */
+function unbrokenPivotBefore(bars: Bar[], highs: SwingPivot[], k: number): SwingPivot | undefined {
+    for (let j = highs.length - 1; j >= 0; j--) {
+        const swing = highs[j];
+        if (swing.index + SWING_STRENGTH >= k) continue;
+        let broken = false;
+        for (let i = swing.index + 1; i < k && !broken; i++) broken = bars[i].close > swing.price;
+        if (!broken) return swing;
+    }
+    return undefined;
+}
+
+/**
+ * Breakout state at the latest bar. Looks for the most recent close above an unbroken swing-high
+ * pivot in the last 10 sessions, then classifies:
+ * - failed-breakout: the last close is back below the pivot
+ * - pullback: broke out earlier and the last low came back to within 2% of the pivot
+ * - breakout: otherwise; volumeConfirmed when the breakout bar's RVOL (vs 50 days) ≥ minRvol
+ * Null when there was no breakout in the window.
+ */
+export function classifyBreakout(bars: Bar[], minRvol: number): BreakoutSignal | null {
+    const last = bars.length - 1;
+    if (last < BREAKOUT_WINDOW_BARS) return null;
+    const offset = Math.max(0, bars.length - LEVEL_LOOKBACK_BARS);
+    const highs = findSwingPivots(bars.slice(offset))
+        .filter((s) => s.kind === 'high')
+        .map((s) => ({ ...s, index: s.index + offset }));
+
+    for (let k = last; k > last - BREAKOUT_WINDOW_BARS; k--) {
+        const pivot = unbrokenPivotBefore(bars, highs, k);
+        if (!pivot || bars[k].close <= pivot.price) continue;
+
+        const prior = bars.slice(Math.max(0, k - BREAKOUT_VOLUME_BARS), k);
+        const avgVolume = prior.reduce((sum, b) => sum + b.volume, 0) / (prior.length || 1);
+        const rvol = avgVolume > 0 ? bars[k].volume / avgVolume : 0;
+        const lastBar = bars[last];
+
+        let type: BreakoutSignal['type'] = 'breakout';
+        if (lastBar.close < pivot.price) type = 'failed-breakout';
+        else if (k < last && lastBar.low <= pivot.price * (1 + PULLBACK_TOLERANCE_PCT / 100)) type = 'pullback';
+
+        return {
+            type,
+            pivot: pivot.price,
+            pivotDate: pivot.date,
+            barsAgo: last - k,
+            date: bars[k].date,
+            rvol,
+            volumeConfirmed: rvol >= minRvol,
+            pctFromPivot: ((lastBar.close - pivot.price) / pivot.price) * 100,
+        };
+    }
+    return null;
+}
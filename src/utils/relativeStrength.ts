@@ -0,0 +1,95 @@
+/**
+ * Smart Volume Radar - Relative Strength
+ * 3/6/12-month performance vs a benchmark (SPY for US, TA-125 for TASE) and a 1–99 percentile
+ * RS rating across the scanned universe
+ */
+
+import { StockData, PeriodPerformance, RelativeStrength } from '../types/index.js';
+
+/** Trading days per performance period */
+const PERIOD_BARS: Record<keyof PeriodPerformance, number> = { m3: 63, m6: 126, m12: 252 };
+
+/** Score weights: the latest quarter counts double (IBD-style emphasis on recent strength) */
+const PERIOD_WEIGHTS: Record<keyof PeriodPerformance, number> = { m3: 2, m6: 1, m12: 1 };
+
+const PERIODS = Object.keys(PERIOD_BARS) as (keyof PeriodPerformance)[];
+
+/**
+ * % change over the last 63/126/252 bars; periods longer than the history are omitted.
+ * Undefined when not even the 3-month period is covered.
+ */
+export function calculatePerformance(closes: number[]): PeriodPerformance | undefined {
+    const last = closes[closes.length - 1];
+    const result: PeriodPerformance = {};
+    for (const period of PERIODS) {
+        const start = closes[closes.length - 1 - PERIOD_BARS[period]];
+        if (start != null && start > 0) result[period] = ((last - start) / start) * 100;
+    }
+    return result.m3 != null ? result : undefined;
+}
+
+/**
+ * Benchmark for a ticker: TASE listings (.TA) vs the TA-125, everything else vs the US benchmark
+ */
+export function getBenchmarkTicker(ticker: string, usBenchmark: string, taseBenchmark: string): string {
+    return ticker.toUpperCase().endsWith('.TA') ? taseBenchmark : usBenchmark;
+}
+
+/**
+ * Outperformance per period: (1 + stock) ÷ (1 + benchmark) − 1, in %. The score is the weighted
+ * average of the periods both sides cover (raw performance when the benchmark is unavailable –
+ * such scores are not rated, see assignRsRatings).
+ */
+export function calculateRelativeStrength(
+    performance: PeriodPerformance,
+    benchmark: string,
+    benchmarkPerformance: PeriodPerformance | undefined
+): RelativeStrength | undefined {
+    const vsBenchmark: PeriodPerformance = {};
+    let weighted = 0;
+    let weights = 0;
+    for (const period of PERIODS) {
+        const own = performance[period];
+        if (own == null) continue;
+        const base = benchmarkPerformance?.[period];
+        if (benchmarkPerformance && base == null) continue;
+        const relative = base != null ? ((1 + own / 100) / (1 + base / 100) - 1) * 100 : own;
+        if (base != null) vsBenchmark[period] = relative;
+        weighted += relative * PERIOD_WEIGHTS[period];
+        weights += PERIOD_WEIGHTS[period];
+    }
+    if (weights === 0) return undefined;
+    return {
+        benchmark: benchmarkPerformance ? benchmark : undefined,
+        vsBenchmark,
+        score: weighted / weights,
+    };
+}
+
+/**
+ * Set the 1–99 RS rating: percentile rank of each benchmark-relative score among all such scores
+ * (ties share the midpoint). A universe of one stock is rated 50. Stocks whose benchmark was
+ * unavailable are left unrated, so raw performance is never ranked against outperformance.
+ */
+export function assignRsRatings(stocks: StockData[]): StockData[] {
+    const scores = stocks
+        .filter((s) => s.relativeStrength?.benchmark)
+        .map((s) => s.relativeStrength!.score);
+    if (scores.length === 0) return stocks;
+
+    return stocks.map((stock) => {
+        const rs = stock.relativeStrength;
+        if (!rs?.benchmark) return stock;
+        const below = scores.filter((s) => s < rs.score).length;
+        const equal = scores.filter((s) => s === rs.score).length - 1;
+        const percentile = scores.length > 1 ? (below + equal / 2) / (scores.length - 1) : 0.5;
+        return { ...stock, relativeStrength: { ...rs, rating: Math.round(1 + 98 * percentile) } };
+    });
+}
+
+/**
+ * Signed % (e.g. "+8.1%", "−3.2%")
+ */
+export function formatPerformancePct(value: number): string {
+    return `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(1)}%`;
+}
@@ -0,0 +1,256 @@
+/**
+ * Smart Volume Radar - API Request Scheduler
+ * Per-provider token buckets (requests/minute, credits per run, concurrency) shared by every service
+ * through the HTTP client, with a usage report at the end of the run
+ */
+
+import { config } from '../config/index.js';
+import logger from './logger.js';
+import { sleep } from './errorHandler.js';
+
+/**
+ * Request budget of one provider
+ */
+export interface RequestBudget {
+    /** Bucket size and refill rate */
+    requestsPerMinute: number;
+    /** Credits one run may spend (counted in memory, not across runs). Unlimited when omitted */
+    creditsPerRun?: number;
+    /** Requests in flight at once */
+    concurrency: number;
+}
+
+/**
+ * Usage of one provider's budget so far
+ */
+export interface BudgetUsage {
+    provider: string;
+    requests: number;
+    creditsUsed: number;
+    creditsPerRun?: number;
+    /** 429 responses received */
+    throttled: number;
+    /** Requests refused because the budget was exhausted or the wait too long */
+    rejected: number;
+    /** Total time spent waiting for tokens */
+    waitedMs: number;
+}
+
+export interface ScheduleOptions {
+    /** Credits the request costs (default 1) */
+    cost?: number;
+    /** Give up instead of waiting longer than this for a token (optional calls use 0) */
+    maxWaitMs?: number;
+}
+
+/**
+ * Thrown when a request does not fit the provider's budget; callers treat it like a failed request
+ */
+export class BudgetExhaustedError extends Error {
+    constructor(
+        public readonly provider: string,
+        reason: string
+    ) {
+        super(`${provider} request budget exhausted (${reason})`);
+        this.name = 'BudgetExhaustedError';
+    }
+}
+
+interface BucketState {
+    budget: RequestBudget;
+    tokens: number;
+    lastRefill: number;
+    /** Set after a 429: no requests before this time */
+    pausedUntil: number;
+    active: number;
+    queue: (() => void)[];
+    usage: BudgetUsage;
+}
+
+/** Used for providers without a configured budget (e.g. Google News RSS) */
+const DEFAULT_BUDGET: RequestBudget = { requestsPerMinute: 60, concurrency: 2 };
+
+/**
+ * Budgets from config (free-tier limits by default)
+ */
+function configuredBudgets(): Record<string, RequestBudget> {
+    return {
+        yahoo: { requestsPerMinute: config.yahooRequestsPerMinute, concurrency: 3 },
+        twelvedata: {
+            requestsPerMinute: config.twelveDataRequestsPerMinute,
+            creditsPerRun: config.twelveDataCreditsPerRun,
+            concurrency: 2,
+        },
+        finnhub: { requestsPerMinute: config.finnhubRequestsPerMinute, concurrency: 2 },
+    };
+}
+
+const buckets = new Map<string, BucketState>();
+
+function getBucket(provider: string): BucketState {
+    let bucket = buckets.get(provider);
+    if (!bucket) {
+        const budget = configuredBudgets()[provider] ?? DEFAULT_BUDGET;
+        bucket = createBucket(provider, budget);
+        buckets.set(provider, bucket);
+    }
+    return bucket;
+}
+
+function createBucket(provider: string, budget: RequestBudget): BucketState {
+    return {
+        budget,
+        tokens: budget.requestsPerMinute,
+        lastRefill: Date.now(),
+        pausedUntil: 0,
+        active: 0,
+        queue: [],
+        usage: {
+            provider,
+            requests: 0,
+            creditsUsed: 0,
+            creditsPerRun: budget.creditsPerRun,
+            throttled: 0,
+            rejected: 0,
+            waitedMs: 0,
+        },
+    };
+}
+
+/**
+ * Override a provider's budget (tests, custom providers). Resets its usage.
+ */
+export function setRequestBudget(provider: string, budget: RequestBudget): void {
+    buckets.set(provider, createBucket(provider, budget));
+}
+
+/**
+ * Forget all buckets and usage (tests)
+ */
+export function resetRequestBudgets(): void {
+    buckets.clear();
+}
+
+function refill(bucket: BucketState, now: number): void {
+    const perMs = bucket.budget.requestsPerMinute / 60_000;
+    bucket.tokens = Math.min(bucket.budget.requestsPerMinute, bucket.tokens + (now - bucket.lastRefill) * perMs);
+    bucket.lastRefill = now;
+}
+
+async function acquireSlot(bucket: BucketState): Promise<void> {
+    if (bucket.active < bucket.budget.concurrency) {
+        bucket.active++;
+        return;
+    }
+    // The releasing request hands its slot over (active stays the same)
+    await new Promise<void>((resolve) => bucket.queue.push(resolve));
+}
+
+function releaseSlot(bucket: BucketState): void {
+    const next = bucket.queue.shift();
+    if (next) next();
+    else bucket.active--;
+}
+
+/**
+ * Wait for a token; throws BudgetExhaustedError when the wait would exceed maxWaitMs
+ */
+async function acquireToken(provider: string, bucket: BucketState, maxWaitMs?: number): Promise<void> {
+    let waited = 0;
+    for (;;) {
+        const now = Date.now();
+        refill(bucket, now);
+        let wait: number;
+        if (bucket.pausedUntil > now) {
+            wait = bucket.pausedUntil - now;
+        } else if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return;
+        } else {
+            wait = Math.ceil((1 - bucket.tokens) / (bucket.budget.requestsPerMinute / 60_000));
+        }
+
+        if (maxWaitMs != null && waited + wait > maxWaitMs) {
+            throw new BudgetExhaustedError(provider, `rate limit, ${bucket.budget.requestsPerMinute}/min`);
+        }
+        await sleep(wait);
+        waited += wait;
+        bucket.usage.waitedMs += wait;
+    }
+}
+
+/**
+ * Run a request within the provider's budget: waits for a concurrency slot and a token,
+ * and refuses when the run's credits would be exceeded.
+ * @throws BudgetExhaustedError when the request does not fit the budget
+ */
+export async function schedule<T>(provider: string, fn: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const bucket = getBucket(provider);
+    const cost = options.cost ?? 1;
+    const { creditsPerRun } = bucket.budget;
+    const outOfCredits = (): boolean => creditsPerRun != null && bucket.usage.creditsUsed + cost > creditsPerRun;
+
+    if (outOfCredits()) {
+        bucket.usage.rejected++;
+        throw new BudgetExhaustedError(provider, `${creditsPerRun} credits per run used`);
+    }
+
+    await acquireSlot(bucket);
+    try {
+        await acquireToken(provider, bucket, options.maxWaitMs);
+        // Credits may have been spent by requests that were ahead in the queue
+        if (outOfCredits()) throw new BudgetExhaustedError(provider, `${creditsPerRun} credits per run used`);
+    } catch (error) {
+        bucket.usage.rejected++;
+        releaseSlot(bucket);
+        throw error;
+    }
+
+    bucket.usage.requests++;
+    bucket.usage.creditsUsed += cost;
+    try {
+        return await fn();
+    } finally {
+        releaseSlot(bucket);
+    }
+}
+
+/**
+ * Pause a provider after a 429: no tokens are handed out until the delay has passed
+ */
+export function pauseProvider(provider: string, delayMs: number): void {
+    const bucket = getBucket(provider);
+    bucket.usage.throttled++;
+    bucket.tokens = 0;
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + delayMs);
+}
+
+/**
+ * Usage of every provider used in this run
+ */
+export function getBudgetUsage(): BudgetUsage[] {
+    return [...buckets.values()].map((b) => ({ ...b.usage }));
+}
+
+/**
+ * Log budget usage per provider (end of run); warns when a credit budget is nearly used up
+ */
+export function logBudgetReport(): void {
+    const usage = getBudgetUsage();
+    if (usage.length === 0) return;
+
+    const parts = usage.map((u) => {
+        const credits = u.creditsPerRun != null ? `, ${u.creditsUsed}/${u.creditsPerRun} credits` : '';
+        const throttled = u.throttled > 0 ? `, ${u.throttled}×429` : '';
+        const rejected = u.rejected > 0 ? `, ${u.rejected} skipped` : '';
+        const waited = u.waitedMs > 0 ? `, waited ${(u.waitedMs / 1000).toFixed(0)}s` : '';
+        return `${u.provider}: ${u.requests} req${credits}${throttled}${rejected}${waited}`;
+    });
+    logger.info(`📡 API budget – ${parts.join(' | ')}`);
+
+    for (const u of usage) {
+        if (u.creditsPerRun != null && u.creditsUsed >= u.creditsPerRun * 0.9) {
+            logger.warn(`⚠️ ${u.provider}: ${u.creditsUsed}/${u.creditsPerRun} credits used this run`);
+        }
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * Smart Volume Radar - Screen Expressions
+ * Small expression language for named screens, e.g. `rvol >= 3 and rsi < 70 and pctFromAth > -10`:
+ * comparisons, and / or / not, parentheses, + - * /, abs(), numbers, 'strings', true / false and
+ * dotted field paths (relativeStrength.rating)
+ */
+
+/** Resolves a field path (e.g. "rvol", "gap.category") to its value; undefined when missing */
+export type FieldLookup = (path: string) => unknown;
+
+/** Compiled screen: true when the stock behind `lookup` matches */
+export type ScreenPredicate = (lookup: FieldLookup) => boolean;
+
+type CompareOp = '>=' | '<=' | '>' | '<' | '==' | '!=';
+type ArithOp = '+' | '-' | '*' | '/';
+
+interface Token {
+    kind: 'number' | 'string' | 'ident' | 'op' | 'end';
+    text: string;
+    /** 0-based offset in the source */
+    pos: number;
+}
+
+type Node =
+    | { type: 'literal'; value: number | string | boolean }
+    | { type: 'field'; path: string }
+    | { type: 'not' | 'negate' | 'abs'; operand: Node }
+    | { type: 'logical'; op: 'and' | 'or'; left: Node; right: Node }
+    | { type: 'compare'; op: CompareOp; left: Node; right: Node }
+    | { type: 'arith'; op: ArithOp; left: Node; right: Node };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?(?:e[+-]?\d+)?)|('[^']*'|"[^"]*")|([A-Za-z_][\w.]*)|(>=|<=|==|!=|[<>=()+\-*/]))/iy;
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'true', 'false']);
+
+const COMPARE_OPS = new Set(['>=', '<=', '>', '<', '==', '!=']);
+
+function syntaxError(message: string, pos: number): Error {
+    return new Error(`Screen expression: ${message} at position ${pos + 1}`);
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (source.slice(TOKEN_PATTERN.lastIndex).trim() !== '') {
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(source);
+        if (!match) {
+            const pos = start + (source.slice(start).length - source.slice(start).trimStart().length);
+            throw syntaxError(`unexpected "${source[pos]}"`, pos);
+        }
+        const [all, number, string, ident, op] = match;
+        const pos = start + all.length - (number ?? string ?? ident ?? op).length;
+        if (number != null) tokens.push({ kind: 'number', text: number, pos });
+        else if (string != null) tokens.push({ kind: 'string', text: string.slice(1, -1), pos });
+        else if (ident != null && KEYWORDS.has(ident.toLowerCase())) tokens.push({ kind: 'op', text: ident.toLowerCase(), pos });
+        else if (ident != null) tokens.push({ kind: 'ident', text: ident, pos });
+        else tokens.push({ kind: 'op', text: op === '=' ? '==' : op, pos });
+    }
+    tokens.push({ kind: 'end', text: '', pos: source.length });
+    return tokens;
+}
+
+/**
+ * Recursive descent, lowest precedence first: or, and, not, comparison, + -, * /, unary minus
+ */
+function parse(source: string): Node {
+    const tokens = tokenize(source);
+    let index = 0;
+    const peek = (): Token => tokens[index];
+    const accept = (text: string): boolean => {
+        if (peek().kind === 'op' && peek().text === text) {
+            index++;
+            return true;
+        }
+        return false;
+    };
+    const expect = (text: string): void => {
+        if (!accept(text)) throw syntaxError(`expected "${text}"`, peek().pos);
+    };
+
+    const parseOr = (): Node => {
+        let node = parseAnd();
+        while (accept('or')) node = { type: 'logical', op: 'or', left: node, right: parseAnd() };
+        return node;
+    };
+    const parseAnd = (): Node => {
+        let node = parseNot();
+        while (accept('and')) node = { type: 'logical', op: 'and', left: node, right: parseNot() };
+        return node;
+    };
+    const parseNot = (): Node => (accept('not') ? { type: 'not', operand: parseNot() } : parseComparison());
+    const parseComparison = (): Node => {
+        const left = parseAdditive();
+        const token = peek();
+        if (token.kind !== 'op' || !COMPARE_OPS.has(token.text)) return left;
+        index++;
+        return { type: 'compare', op: token.text as CompareOp, left, right: parseAdditive() };
+    };
+    const parseAdditive = (): Node => {
+        let node = parseTerm();
+        while (peek().kind === 'op' && (peek().text === '+' || peek().text === '-')) {
+            const op = tokens[index++].text as ArithOp;
+            node = { type: 'arith', op, left: node, right: parseTerm() };
+        }
+        return node;
+    };
+    const parseTerm = (): Node => {
+        let node = parseUnary();
+        while (peek().kind === 'op' && (peek().text === '*' || peek().text === '/')) {
+            const op = tokens[index++].text as ArithOp;
+            node = { type: 'arith', op, left: node, right: parseUnary() };
+        }
+        return node;
+    };
+    const parseUnary = (): Node => (accept('-') ? { type: 'negate', operand: parseUnary() } : parsePrimary());
+    const parsePrimary = (): Node => {
+        const token = tokens[index++];
+        if (token.kind === 'number') return { type: 'literal', value: parseFloat(token.text) };
+        if (token.kind === 'string') return { type: 'literal', value: token.text };
+        if (token.kind === 'op' && (token.text === 'true' || token.text === 'false')) {
+            return { type: 'literal', value: token.text === 'true' };
+        }
+        if (token.kind === 'ident' && token.text.toLowerCase() === 'abs' && accept('(')) {
+            const operand = parseOr();
+            expect(')');
+            return { type: 'abs', operand };
+        }
+        if (token.kind === 'ident') return { type: 'field', path: token.text };
+        if (token.kind === 'op' && token.text === '(') {
+            const node = parseOr();
+            expect(')');
+            return node;
+        }
+        throw syntaxError(token.kind === 'end' ? 'unexpected end of expression' : `unexpected "${token.text}"`, token.pos);
+    };
+
+    const ast = parseOr();
+    if (peek().kind !== 'end') throw syntaxError(`unexpected "${peek().text}"`, peek().pos);
+    return ast;
+}
+
+/**
+ * Truthiness for and / or / not and the final result: missing values and 0 / '' are false
+ */
+function isTruthy(value: unknown): boolean {
+    if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+    if (typeof value === 'string') return value !== '';
+    return value != null && value !== false;
+}
+
+function compare(op: CompareOp, left: unknown, right: unknown): boolean {
+    if (left == null || right == null) return false;
+    if (op === '==' || op === '!=') {
+        const equal =
+            typeof left === 'string' && typeof right === 'string'
+                ? left.toLowerCase() === right.toLowerCase()
+                : left === right;
+        return op === '==' ? equal : !equal;
+    }
+    if (typeof left !== 'number' || typeof right !== 'number') return false;
+    if (op === '>=') return left >= right;
+    if (op === '<=') return left <= right;
+    return op === '>' ? left > right : left < right;
+}
+
+function evaluate(node: Node, lookup: FieldLookup): unknown {
+    switch (node.type) {
+        case 'literal':
+            return node.value;
+        case 'field':
+            return lookup(node.path);
+        case 'not':
+            return !isTruthy(evaluate(node.operand, lookup));
+        case 'negate':
+        case 'abs': {
+            const value = evaluate(node.operand, lookup);
+            if (typeof value !== 'number') return undefined;
+            return node.type === 'abs' ? Math.abs(value) : -value;
+        }
+        case 'logical':
+            return node.op === 'and'
+                ? isTruthy(evaluate(node.left, lookup)) && isTruthy(evaluate(node.right, lookup))
+                : isTruthy(evaluate(node.left, lookup)) || isTruthy(evaluate(node.right, lookup));
+        case 'compare':
+            return compare(node.op, evaluate(node.left, lookup), evaluate(node.right, lookup));
+        case 'arith': {
+            const left = evaluate(node.left, lookup);
+            const right = evaluate(node.right, lookup);
+            if (typeof left !== 'number' || typeof right !== 'number') return undefined;
+            if (node.op === '/') return right !== 0 ? left / right : undefined;
+            return node.op === '+' ? left + right : node.op === '-' ? left - right : left * right;
+        }
+    }
+}
+
+function collectFieldPaths(node: Node, paths: Set<string>): Set<string> {
+    if (node.type === 'field') paths.add(node.path);
+    else if ('operand' in node) collectFieldPaths(node.operand, paths);
+    else if ('left' in node) {
+        collectFieldPaths(node.left, paths);
+        collectFieldPaths(node.right, paths);
+    }
+    return paths;
+}
+
+/**
+ * Field paths an expression reads, in order of first use (to report unknown fields)
+ * @throws Error with the position of the first syntax error
+ */
+export function screenFieldPaths(source: string): string[] {
+    return [...collectFieldPaths(parse(source), new Set())];
+}
+
+/**
+ * Compile a screen expression. Comparisons involving a missing field are false (so `rsi < 70`
+ * does not match a stock without RSI); `==` / `!=` on strings ignore case.
+ * @throws Error with the position of the first syntax error
+ */
+export function compileScreenExpression(source: string): ScreenPredicate {
+    const ast = parse(source);
+    return (lookup) => isTruthy(evaluate(ast, lookup));
+}
@@ -1,8 +1,11 @@
 /**
  * Smart Volume Radar - Technical Analysis Utility
- * Calculates SMA, RSI, ATH, and consolidation metrics from price history
+ * Calculates SMA, EMA, RSI, MACD and Bollinger Bands from closes, and ATR, ADX, average daily range,
+ * 52-week / all-time highs and consolidation metrics from OHLC bars
  */
 
+import { Bar, PriceHigh, MacdValues, BollingerBands, AdxValues } from '../types/index.js';
+
 /**
  * Calculate Simple Moving Average
  */
@@ -17,36 +20,35 @@ export function calculateSMA(prices: number[], periods: number): number | undefi
 const TRADING_DAYS_PER_MONTH = 21;
 
 /** ~252 trading days per year (52 weeks) */
-const TRADING_DAYS_52W = 252;
+export const TRADING_DAYS_52W = 252;
 
 /**
- * Calculate 52-week high, % from high, and months in consolidation
- * Uses last 252 trading days (1 year) instead of 5y – more relevant for breakout setups
+ * Calculate the highest intraday high of the last `lookbackBars` bars (whole history when omitted),
+ * % from that high, and months in consolidation since price was last within 2% of it
  */
-export function calculate52wHighAndConsolidation(closes: number[]): {
-    ath: number;
-    pctFromAth: number;
-    monthsInConsolidation: number;
-} | null {
-    if (closes.length < 22) return null; // need ~1 month of data
-    const lookback = closes.slice(-TRADING_DAYS_52W);
-    const ath = Math.max(...lookback);
-    const lastClose = lookback[lookback.length - 1];
-    const pctFromAth = ath > 0 ? ((lastClose - ath) / ath) * 100 : 0;
-
-    // Find last index (within 52w window) where price was within 2% of 52w high
-    let athIndex = -1;
-    const athThreshold = ath * 0.98;
+export function calculatePriceHigh(bars: Bar[], lookbackBars?: number): PriceHigh | null {
+    if (bars.length < 22) return null; // need ~1 month of data
+    const lookback = lookbackBars != null ? bars.slice(-lookbackBars) : bars;
+    let highIndex = 0;
+    for (let i = 1; i < lookback.length; i++) {
+        if (lookback[i].high > lookback[highIndex].high) highIndex = i;
+    }
+    const { high, date } = lookback[highIndex];
+    const lastClose = lookback[lookback.length - 1].close;
+    const pctFrom = high > 0 ? ((lastClose - high) / high) * 100 : 0;
+
+    // Find last index (within the window) where the high came within 2% of the window high
+    let touchIndex = -1;
+    const touchThreshold = high * 0.98;
     for (let i = lookback.length - 1; i >= 0; i--) {
-        if (lookback[i] >= athThreshold) {
-            athIndex = i;
+        if (lookback[i].high >= touchThreshold) {
+            touchIndex = i;
             break;
         }
     }
-    const tradingDaysSinceAth = athIndex >= 0 ? lookback.length - 1 - athIndex : lookback.length - 1;
-    const monthsInConsolidation = tradingDaysSinceAth / TRADING_DAYS_PER_MONTH;
+    const tradingDaysSinceHigh = touchIndex >= 0 ? lookback.length - 1 - touchIndex : lookback.length - 1;
 
-    return { ath, pctFromAth, monthsInConsolidation };
+    return { price: high, date, pctFrom, monthsSince: tradingDaysSinceHigh / TRADING_DAYS_PER_MONTH };
 }
 
 /**
@@ -91,3 +93,143 @@ export function calculateRSI(prices: number[], periods: number = 14): number | u
     const rs = avgGain / avgLoss;
     return 100 - (100 / (1 + rs));
 }
+
+/**
+ * EMA series (seeded with the SMA of the first `periods` values); empty when history is too short
+ */
+function emaSeries(prices: number[], periods: number): number[] {
+    if (prices.length < periods) return [];
+    const k = 2 / (periods + 1);
+    let ema = prices.slice(0, periods).reduce((a, b) => a + b, 0) / periods;
+    const series = [ema];
+    for (let i = periods; i < prices.length; i++) {
+        ema = prices[i] * k + ema * (1 - k);
+        series.push(ema);
+    }
+    return series;
+}
+
+/**
+ * Calculate Exponential Moving Average (SMA-seeded, smoothing 2 / (n + 1))
+ */
+export function calculateEMA(prices: number[], periods: number): number | undefined {
+    const series = emaSeries(prices, periods);
+    return series.length > 0 ? series[series.length - 1] : undefined;
+}
+
+/**
+ * Calculate MACD: EMA(fast) − EMA(slow), signal = EMA of MACD, histogram = MACD − signal
+ */
+export function calculateMACD(
+    prices: number[],
+    fast: number = 12,
+    slow: number = 26,
+    signalPeriods: number = 9
+): MacdValues | undefined {
+    const slowSeries = emaSeries(prices, slow);
+    if (slowSeries.length < signalPeriods) return undefined;
+    // Align the fast EMA with the slow one (both end at the last price)
+    const fastSeries = emaSeries(prices, fast).slice(-slowSeries.length);
+    const macdSeries = slowSeries.map((s, i) => fastSeries[i] - s);
+    const signal = calculateEMA(macdSeries, signalPeriods)!;
+    const macd = macdSeries[macdSeries.length - 1];
+    return { macd, signal, histogram: macd - signal };
+}
+
+/**
+ * Calculate Bollinger Bands: SMA ± k population standard deviations.
+ * Bandwidth = (upper − lower) ÷ middle × 100 (low bandwidth = volatility squeeze).
+ */
+export function calculateBollingerBands(
+    prices: number[],
+    periods: number = 20,
+    stdDevs: number = 2
+): BollingerBands | undefined {
+    const middle = calculateSMA(prices, periods);
+    if (middle == null || middle <= 0) return undefined;
+    const slice = prices.slice(-periods);
+    const variance = slice.reduce((sum, p) => sum + (p - middle) ** 2, 0) / periods;
+    const deviation = Math.sqrt(variance) * stdDevs;
+    const upper = middle + deviation;
+    const lower = middle - deviation;
+    return { upper, middle, lower, bandwidth: ((upper - lower) / middle) * 100 };
+}
+
+/**
+ * True range of each bar after the first
+ */
+function trueRanges(bars: Bar[]): number[] {
+    const ranges: number[] = [];
+    for (let i = 1; i < bars.length; i++) {
+        const { high, low } = bars[i];
+        const prevClose = bars[i - 1].close;
+        ranges.push(Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose)));
+    }
+    return ranges;
+}
+
+/**
+ * Wilder smoothing series: first value = average of the first `periods`, then (prev × (n − 1) + x) ÷ n
+ */
+function wilderSeries(values: number[], periods: number): number[] {
+    if (values.length < periods) return [];
+    let avg = values.slice(0, periods).reduce((a, b) => a + b, 0) / periods;
+    const series = [avg];
+    for (let i = periods; i < values.length; i++) {
+        avg = (avg * (periods - 1) + values[i]) / periods;
+        series.push(avg);
+    }
+    return series;
+}
+
+/**
+ * Calculate Average True Range (Wilder's smoothing, like RSI)
+ */
+export function calculateATR(bars: Bar[], periods: number = 14): number | undefined {
+    if (bars.length < periods + 1) return undefined;
+    const series = wilderSeries(trueRanges(bars), periods);
+    return series[series.length - 1];
+}
+
+/**
+ * Calculate average daily range in %: mean of high ÷ low − 1 over the last `periods` bars
+ */
+export function calculateAdrPct(bars: Bar[], periods: number = 20): number | undefined {
+    if (bars.length < periods) return undefined;
+    const ranges = bars.slice(-periods).map((b) => (b.low > 0 ? b.high / b.low - 1 : 0));
+    return (ranges.reduce((a, b) => a + b, 0) / periods) * 100;
+}
+
+/**
+ * Calculate ADX with +DI / −DI (Wilder's directional movement). ADX above ~25 = trending.
+ */
+export function calculateADX(bars: Bar[], periods: number = 14): AdxValues | undefined {
+    if (bars.length < periods * 2 + 1) return undefined;
+
+    const plusDM: number[] = [];
+    const minusDM: number[] = [];
+    for (let i = 1; i < bars.length; i++) {
+        const up = bars[i].high - bars[i - 1].high;
+        const down = bars[i - 1].low - bars[i].low;
+        plusDM.push(up > down && up > 0 ? up : 0);
+        minusDM.push(down > up && down > 0 ? down : 0);
+    }
+
+    const atr = wilderSeries(trueRanges(bars), periods);
+    const plus = wilderSeries(plusDM, periods);
+    const minus = wilderSeries(minusDM, periods);
+    const dx = atr.map((tr, i) => {
+        const pdi = tr > 0 ? (plus[i] / tr) * 100 : 0;
+        const mdi = tr > 0 ? (minus[i] / tr) * 100 : 0;
+        return pdi + mdi > 0 ? (Math.abs(pdi - mdi) / (pdi + mdi)) * 100 : 0;
+    });
+    const adxSeries = wilderSeries(dx, periods);
+    if (adxSeries.length === 0) return undefined;
+
+    const last = atr.length - 1;
+    return {
+        adx: adxSeries[adxSeries.length - 1],
+        plusDI: atr[last] > 0 ? (plus[last] / atr[last]) * 100 : 0,
+        minusDI: atr[last] > 0 ? (minus[last] / atr[last]) * 100 : 0,
+    };
+}
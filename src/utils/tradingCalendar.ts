@@ -0,0 +1,299 @@
+/**
+ * Smart Volume Radar - Exchange Trading Calendars
+ * Sessions, holidays, early closes and timezones per exchange (US, TASE); decides per ticker
+ * whether the latest daily bar is final, partial (session in progress), stale or missing
+ */
+
+import { config } from '../config/index.js';
+import { BarStatus } from '../types/index.js';
+import * as clock from './clock.js';
+
+/** Exchange identifiers with a calendar */
+export type ExchangeId = 'US' | 'TASE';
+
+/**
+ * Trading calendar of one exchange. Times are local exchange time (HH:MM).
+ */
+export interface ExchangeCalendar {
+    id: ExchangeId;
+    name: string;
+    timezone: string;
+    /** Trading weekdays (0 = Sunday … 6 = Saturday) */
+    tradingDays: number[];
+    open: string;
+    close: string;
+    /** Regular close overrides by weekday (e.g. TASE Friday) */
+    closeByWeekday?: Record<number, string>;
+    /** Full-day closures: date (YYYY-MM-DD) -> name */
+    holidays: Record<string, string>;
+    /** Early closes: date (YYYY-MM-DD) -> close time */
+    earlyCloses: Record<string, string>;
+}
+
+/** Phase of today's session at a point in time */
+export type SessionPhase = 'closed' | 'pre-open' | 'open' | 'after-close';
+
+/**
+ * State of an exchange at a point in time
+ */
+export interface SessionState {
+    exchange: ExchangeId;
+    /** Local exchange date (YYYY-MM-DD) */
+    date: string;
+    phase: SessionPhase;
+    /** Holiday name when today is a holiday */
+    holiday?: string;
+    /** Latest session that has started (today once open, else the previous trading day) */
+    latestSession: string;
+}
+
+/**
+ * NYSE / NASDAQ. Holidays and early closes per the NYSE calendar.
+ */
+const US_CALENDAR: ExchangeCalendar = {
+    id: 'US',
+    name: 'NYSE/NASDAQ',
+    timezone: 'America/New_York',
+    tradingDays: [1, 2, 3, 4, 5],
+    open: '09:30',
+    close: '16:00',
+    holidays: {
+        '2025-01-01': "New Year's Day",
+        '2025-01-09': 'National Day of Mourning',
+        '2025-01-20': 'Martin Luther King Jr. Day',
+        '2025-02-17': "Washington's Birthday",
+        '2025-04-18': 'Good Friday',
+        '2025-05-26': 'Memorial Day',
+        '2025-06-19': 'Juneteenth',
+        '2025-07-04': 'Independence Day',
+        '2025-09-01': 'Labor Day',
+        '2025-11-27': 'Thanksgiving Day',
+        '2025-12-25': 'Christmas Day',
+        '2026-01-01': "New Year's Day",
+        '2026-01-19': 'Martin Luther King Jr. Day',
+        '2026-02-16': "Washington's Birthday",
+        '2026-04-03': 'Good Friday',
+        '2026-05-25': 'Memorial Day',
+        '2026-06-19': 'Juneteenth',
+        '2026-07-03': 'Independence Day (observed)',
+        '2026-09-07': 'Labor Day',
+        '2026-11-26': 'Thanksgiving Day',
+        '2026-12-25': 'Christmas Day',
+        '2027-01-01': "New Year's Day",
+        '2027-01-18': 'Martin Luther King Jr. Day',
+        '2027-02-15': "Washington's Birthday",
+        '2027-03-26': 'Good Friday',
+        '2027-05-31': 'Memorial Day',
+        '2027-06-18': 'Juneteenth (observed)',
+        '2027-07-05': 'Independence Day (observed)',
+        '2027-09-06': 'Labor Day',
+        '2027-11-25': 'Thanksgiving Day',
+        '2027-12-24': 'Christmas Day (observed)',
+    },
+    earlyCloses: {
+        '2025-07-03': '13:00',
+        '2025-11-28': '13:00',
+        '2025-12-24': '13:00',
+        '2026-11-27': '13:00',
+        '2026-12-24': '13:00',
+        '2027-11-26': '13:00',
+    },
+};
+
+/**
+ * Tel Aviv Stock Exchange. Trades Monday–Friday since January 2026 (shorter Friday session).
+ * Holiday list is best effort from the Hebrew calendar – verify yearly against the TASE calendar
+ * and patch with MARKET_HOLIDAYS if needed.
+ */
+const TASE_CALENDAR: ExchangeCalendar = {
+    id: 'TASE',
+    name: 'TASE',
+    timezone: 'Asia/Jerusalem',
+    tradingDays: [1, 2, 3, 4, 5],
+    open: '10:00',
+    close: '17:25',
+    closeByWeekday: { 5: '14:00' },
+    holidays: {
+        '2026-03-03': 'Purim',
+        '2026-04-01': 'Passover Eve',
+        '2026-04-02': 'Passover',
+        '2026-04-07': 'Passover VII Eve',
+        '2026-04-08': 'Passover VII',
+        '2026-04-22': 'Independence Day',
+        '2026-05-21': 'Shavuot Eve',
+        '2026-05-22': 'Shavuot',
+        '2026-09-11': 'Rosh Hashana Eve',
+        '2026-09-20': 'Yom Kippur Eve',
+        '2026-09-21': 'Yom Kippur',
+        '2026-09-25': 'Sukkot Eve',
+        '2026-10-02': 'Simchat Torah Eve',
+        '2027-03-23': 'Purim',
+        '2027-04-21': 'Passover Eve',
+        '2027-04-22': 'Passover',
+        '2027-04-27': 'Passover VII Eve',
+        '2027-04-28': 'Passover VII',
+        '2027-05-12': 'Independence Day',
+        '2027-06-10': 'Shavuot Eve',
+        '2027-06-11': 'Shavuot',
+        '2027-10-01': 'Rosh Hashana Eve',
+        '2027-10-10': 'Yom Kippur Eve',
+        '2027-10-11': 'Yom Kippur',
+        '2027-10-15': 'Sukkot Eve',
+        '2027-10-22': 'Simchat Torah Eve',
+    },
+    earlyCloses: {},
+};
+
+const CALENDARS: Record<ExchangeId, ExchangeCalendar> = {
+    US: US_CALENDAR,
+    TASE: TASE_CALENDAR,
+};
+
+/** Ticker suffix -> exchange; tickers without a listed suffix use the US calendar */
+const SUFFIX_EXCHANGES: Record<string, ExchangeId> = {
+    '.TA': 'TASE',
+};
+
+/**
+ * Local date (YYYY-MM-DD) and minutes since midnight of a timestamp in a timezone
+ */
+export function localDateAndMinute(time: number, timeZone: string): { date: string; minute: number } {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(new Date(time * 1000));
+    const get = (type: string): string => parts.find((p) => p.type === type)?.value || '0';
+    return {
+        date: `${get('year')}-${get('month')}-${get('day')}`,
+        minute: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+    };
+}
+
+function toMinutes(hhmm: string): number {
+    const [h, m] = hhmm.split(':').map((x) => parseInt(x, 10));
+    return h * 60 + (m || 0);
+}
+
+function weekdayOf(date: string): number {
+    return new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+function addDays(date: string, days: number): string {
+    const d = new Date(`${date}T12:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+}
+
+/**
+ * Extra closures from config (MARKET_HOLIDAYS="TASE:2026-10-02,US:2026-12-31")
+ */
+function extraHolidays(exchange: ExchangeId): Set<string> {
+    const dates = new Set<string>();
+    for (const entry of config.marketHolidays) {
+        const [id, date] = entry.split(':').map((x) => x.trim());
+        if (id?.toUpperCase() === exchange && date) dates.add(date);
+    }
+    return dates;
+}
+
+/**
+ * Calendar for an exchange
+ */
+export function getCalendar(exchange: ExchangeId): ExchangeCalendar {
+    return CALENDARS[exchange];
+}
+
+/**
+ * Exchange of a ticker by suffix (e.g. TEVA.TA -> TASE; AAPL -> US)
+ */
+export function getExchangeForTicker(ticker: string): ExchangeId {
+    const upper = ticker.toUpperCase();
+    for (const [suffix, exchange] of Object.entries(SUFFIX_EXCHANGES)) {
+        if (upper.endsWith(suffix)) return exchange;
+    }
+    return 'US';
+}
+
+/**
+ * Holiday name if the exchange is closed all day on a date
+ */
+export function getHoliday(exchange: ExchangeId, date: string): string | undefined {
+    const cal = getCalendar(exchange);
+    if (cal.holidays[date]) return cal.holidays[date];
+    if (extraHolidays(exchange).has(date)) return 'Market holiday';
+    return undefined;
+}
+
+/**
+ * True if the exchange has a session on the date
+ */
+export function isTradingDay(exchange: ExchangeId, date: string): boolean {
+    const cal = getCalendar(exchange);
+    return cal.tradingDays.includes(weekdayOf(date)) && !getHoliday(exchange, date);
+}
+
+/**
+ * Session open/close (minutes since local midnight) on a date; null when not a trading day
+ */
+export function getSessionTimes(exchange: ExchangeId, date: string): { open: number; close: number; earlyClose: boolean } | null {
+    if (!isTradingDay(exchange, date)) return null;
+    const cal = getCalendar(exchange);
+    const early = cal.earlyCloses[date];
+    const close = early ?? cal.closeByWeekday?.[weekdayOf(date)] ?? cal.close;
+    return { open: toMinutes(cal.open), close: toMinutes(close), earlyClose: !!early };
+}
+
+/**
+ * Most recent trading day strictly before a date
+ */
+export function previousTradingDay(exchange: ExchangeId, date: string): string {
+    let d = addDays(date, -1);
+    // Bounded: no exchange is closed for more than a couple of weeks
+    for (let i = 0; i < 30 && !isTradingDay(exchange, d); i++) d = addDays(d, -1);
+    return d;
+}
+
+/**
+ * Session phase of an exchange at a point in time
+ */
+export function getSessionState(exchange: ExchangeId, now: Date = clock.now()): SessionState {
+    const cal = getCalendar(exchange);
+    const { date, minute } = localDateAndMinute(Math.floor(now.getTime() / 1000), cal.timezone);
+    const session = getSessionTimes(exchange, date);
+
+    let phase: SessionPhase;
+    if (!session) phase = 'closed';
+    else if (minute < session.open) phase = 'pre-open';
+    else if (minute < session.close) phase = 'open';
+    else phase = 'after-close';
+
+    const latestSession = phase === 'open' || phase === 'after-close' ? date : previousTradingDay(exchange, date);
+    return { exchange, date, phase, holiday: getHoliday(exchange, date), latestSession };
+}
+
+/**
+ * True when a run should scan the exchange: it trades on its local date (any phase but closed) or,
+ * closed locally, its latest session falls on the run's UTC date – the 21:30 UTC run is already
+ * the next day in Israel, yet the TASE session that just traded still belongs to this run
+ */
+export function hasSessionToScan(state: SessionState, now: Date = clock.now()): boolean {
+    return state.phase !== 'closed' || state.latestSession === now.toISOString().slice(0, 10);
+}
+
+/**
+ * Status of a ticker's latest daily bar relative to its exchange calendar
+ * @param lastBarDate - Date of the last bar (exchange local date)
+ */
+export function getBarStatus(ticker: string, lastBarDate: string | undefined, now: Date = clock.now()): BarStatus {
+    if (!lastBarDate) return 'missing';
+    const state = getSessionState(getExchangeForTicker(ticker), now);
+    if (lastBarDate < state.latestSession) return 'stale';
+    // A bar for a session that has not started per the calendar is provisional
+    if (lastBarDate > state.latestSession) return 'partial';
+    return state.phase === 'open' && lastBarDate === state.date ? 'partial' : 'final';
+}
@@ -0,0 +1,167 @@
+/**
+ * Smart Volume Radar - Volume Analytics
+ * Multi-day accumulation/distribution from daily bars: up/down volume ratio, OBV trend and divergence,
+ * accumulation/distribution day counts and pocket pivots
+ */
+
+import { Bar, VolumeAnalytics, VolumeBias } from '../types/index.js';
+
+/** Up/down volume ratio window (~10 weeks) */
+const UP_DOWN_BARS = 50;
+
+/** Accumulation/distribution days are counted over the last ~5 weeks */
+const AD_DAY_BARS = 25;
+
+/** Minimum close-to-close move (%) for an accumulation/distribution day */
+const AD_DAY_MIN_CHANGE_PCT = 0.2;
+
+/** OBV trend and divergence window (~1 month) */
+const OBV_BARS = 20;
+
+/** OBV change below this fraction of the average volume × window counts as flat */
+const OBV_FLAT_FRACTION = 0.1;
+
+/** Pocket pivot: up-day volume above every down-day volume of the previous 10 sessions */
+const POCKET_PIVOT_BARS = 10;
+
+/** Up/down ratio at or above (or at or below the inverse) leans accumulation (distribution) */
+const UP_DOWN_BIAS_RATIO = 1.2;
+
+const average = (values: number[]): number => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+/**
+ * Close-to-close change of bar i in % (0 for the first bar)
+ */
+function changePct(bars: Bar[], i: number): number {
+    const prev = bars[i - 1]?.close;
+    return prev != null && prev > 0 ? ((bars[i].close - prev) / prev) * 100 : 0;
+}
+
+/**
+ * Volume on up-close days ÷ volume on down-close days over the last `period` bars.
+ * Undefined when the history is too short or there was no down volume.
+ */
+export function calculateUpDownVolumeRatio(bars: Bar[], period: number = UP_DOWN_BARS): number | undefined {
+    if (bars.length < period + 1) return undefined;
+    let up = 0;
+    let down = 0;
+    for (let i = bars.length - period; i < bars.length; i++) {
+        if (bars[i].close > bars[i - 1].close) up += bars[i].volume;
+        else if (bars[i].close < bars[i - 1].close) down += bars[i].volume;
+    }
+    return down > 0 ? up / down : undefined;
+}
+
+/**
+ * On-balance volume: running sum of volume, added on up closes and subtracted on down closes
+ */
+export function calculateOBV(bars: Bar[]): number[] {
+    const obv: number[] = [];
+    let total = 0;
+    for (let i = 0; i < bars.length; i++) {
+        if (i > 0 && bars[i].close > bars[i - 1].close) total += bars[i].volume;
+        else if (i > 0 && bars[i].close < bars[i - 1].close) total -= bars[i].volume;
+        obv.push(total);
+    }
+    return obv;
+}
+
+/**
+ * Accumulation days (up ≥0.2% on volume above the 50-day average) and distribution days
+ * (down ≥0.2% on above-average volume) over the last `period` bars
+ */
+export function countAccumulationDistributionDays(
+    bars: Bar[],
+    period: number = AD_DAY_BARS
+): { accumulationDays: number; distributionDays: number } {
+    let accumulationDays = 0;
+    let distributionDays = 0;
+    for (let i = Math.max(1, bars.length - period); i < bars.length; i++) {
+        const avgVolume = average(bars.slice(Math.max(0, i - UP_DOWN_BARS), i).map((b) => b.volume));
+        if (bars[i].volume <= avgVolume) continue;
+        const change = changePct(bars, i);
+        if (change >= AD_DAY_MIN_CHANGE_PCT) accumulationDays++;
+        else if (change <= -AD_DAY_MIN_CHANGE_PCT) distributionDays++;
+    }
+    return { accumulationDays, distributionDays };
+}
+
+/**
+ * Pocket pivot at bar i: up close above the 10-day SMA on volume greater than the highest
+ * down-day volume of the previous 10 sessions
+ */
+export function isPocketPivot(bars: Bar[], i: number = bars.length - 1): boolean {
+    if (i < POCKET_PIVOT_BARS) return false;
+    if (bars[i].close <= bars[i - 1].close) return false;
+    const sma10 = average(bars.slice(i - POCKET_PIVOT_BARS + 1, i + 1).map((b) => b.close));
+    if (bars[i].close < sma10) return false;
+    let maxDownVolume = 0;
+    for (let j = i - POCKET_PIVOT_BARS; j < i; j++) {
+        if (j > 0 && bars[j].close < bars[j - 1].close) maxDownVolume = Math.max(maxDownVolume, bars[j].volume);
+    }
+    return bars[i].volume > maxDownVolume;
+}
+
+/**
+ * Multi-day volume picture ending at the latest bar. The bias needs a net two of three votes:
+ * up/down ratio (≥1.2 / ≤1 ÷ 1.2), more accumulation than distribution days (or the reverse)
+ * and the OBV trend. Undefined when the history is shorter than the OBV window.
+ */
+export function analyzeVolume(bars: Bar[]): VolumeAnalytics | undefined {
+    if (bars.length < OBV_BARS + 1) return undefined;
+
+    const upDownRatio = calculateUpDownVolumeRatio(bars);
+    const { accumulationDays, distributionDays } = countAccumulationDistributionDays(bars);
+
+    // OBV trend: change over the window relative to the volume traded in it
+    const obv = calculateOBV(bars);
+    const last = bars.length - 1;
+    const start = last - OBV_BARS;
+    const obvChange = obv[last] - obv[start];
+    const windowVolume = average(bars.slice(start + 1).map((b) => b.volume)) * OBV_BARS;
+    const obvTrend =
+        Math.abs(obvChange) <= windowVolume * OBV_FLAT_FRACTION ? 'flat' : obvChange > 0 ? 'rising' : 'falling';
+
+    // Divergence: OBV rising while price fell (bullish) or falling while price rose (bearish)
+    const priceChange = bars[last].close - bars[start].close;
+    const obvDivergence =
+        obvTrend === 'rising' && priceChange < 0 ? 'bullish' : obvTrend === 'falling' && priceChange > 0 ? 'bearish' : undefined;
+
+    // Most recent pocket pivot within the last 10 sessions
+    let pocketPivotDate: string | undefined;
+    let pocketPivotBarsAgo: number | undefined;
+    for (let i = last; i > last - POCKET_PIVOT_BARS && i >= 0; i--) {
+        if (isPocketPivot(bars, i)) {
+            pocketPivotBarsAgo = last - i;
+            pocketPivotDate = bars[i].date;
+            break;
+        }
+    }
+
+    let votes = 0;
+    if (upDownRatio != null) votes += upDownRatio >= UP_DOWN_BIAS_RATIO ? 1 : upDownRatio <= 1 / UP_DOWN_BIAS_RATIO ? -1 : 0;
+    votes += Math.sign(accumulationDays - distributionDays);
+    votes += obvTrend === 'rising' ? 1 : obvTrend === 'falling' ? -1 : 0;
+    const bias: VolumeBias = votes >= 2 ? 'accumulation' : votes <= -2 ? 'distribution' : 'neutral';
+
+    return {
+        upDownRatio,
+        obvTrend,
+        obvDivergence,
+        accumulationDays,
+        distributionDays,
+        pocketPivot: pocketPivotBarsAgo === 0,
+        pocketPivotBarsAgo,
+        pocketPivotDate,
+        bias,
+    };
+}
+
+/**
+ * Short bias label with emoji (🟢 Accumulation, 🔴 Distribution, ⚪ Neutral)
+ */
+export function formatVolumeBias(bias: VolumeBias): string {
+    if (bias === 'accumulation') return '🟢 Accumulation';
+    if (bias === 'distribution') return '🔴 Distribution';
+    return '⚪ Neutral';
+}
@@ -0,0 +1,56 @@
+/**
+ * Smart Volume Radar - Volume Anomaly
+ * Today's volume scored against the ticker's own distribution: z-score of log volume over the RVOL
+ * lookback and percentile rank within the last year, so erratic thin names and steady large caps
+ * are measured on the same scale
+ */
+
+import { VolumeAnomaly, VolumeBaseline } from '../types/index.js';
+import { TRADING_DAYS_52W } from './technicalAnalysis.js';
+
+/** Fewest prior sessions (with volume, for the z-score) needed for either score */
+const MIN_SAMPLES = 20;
+
+/**
+ * Distribution of the prior sessions (oldest first, today excluded): mean and standard deviation
+ * of log volume over the last `lookback` sessions with volume, and the last year's volumes sorted.
+ * Undefined with fewer than 20 prior sessions.
+ */
+export function buildVolumeBaseline(priorVolumes: number[], lookback: number): VolumeBaseline | undefined {
+    const year = priorVolumes.slice(-TRADING_DAYS_52W);
+    if (year.length < MIN_SAMPLES) return undefined;
+
+    const logs = priorVolumes
+        .slice(-lookback)
+        .filter((v) => v > 0)
+        .map((v) => Math.log(v));
+    const logMean = logs.reduce((a, b) => a + b, 0) / (logs.length || 1);
+    const variance = logs.reduce((sum, l) => sum + (l - logMean) ** 2, 0) / (logs.length || 1);
+
+    return {
+        logMean,
+        logStdDev: logs.length >= MIN_SAMPLES ? Math.sqrt(variance) : 0,
+        sortedVolumes: [...year].sort((a, b) => a - b),
+    };
+}
+
+/**
+ * Score a volume against a baseline. zScore = (ln volume − mean) ÷ std dev (undefined without
+ * dispersion or volume); percentile = % of the year's sessions below it, ties counted half.
+ */
+export function scoreVolume(baseline: VolumeBaseline, volume: number): VolumeAnomaly {
+    const { logMean, logStdDev, sortedVolumes } = baseline;
+    const zScore = logStdDev > 0 && volume > 0 ? (Math.log(volume) - logMean) / logStdDev : undefined;
+    const below = sortedVolumes.filter((v) => v < volume).length;
+    const equal = sortedVolumes.filter((v) => v === volume).length;
+    const percentile = ((below + equal / 2) / sortedVolumes.length) * 100;
+    return { zScore, percentile, baseline };
+}
+
+/**
+ * Volume anomaly of the latest session from daily volumes (oldest first, the last entry is today)
+ */
+export function calculateVolumeAnomaly(volumes: number[], lookback: number): VolumeAnomaly | undefined {
+    const baseline = buildVolumeBaseline(volumes.slice(0, -1), lookback);
+    return baseline ? scoreVolume(baseline, volumes[volumes.length - 1] ?? 0) : undefined;
+}
@@ -0,0 +1,69 @@
+/**
+ * Anchored VWAP tests
+ */
+
+import { calculateAnchoredVwap, calculateAnchoredVwaps } from '../src/utils/anchoredVwap';
+import { Bar } from '../src/types';
+
+/** Bar with high = low = close (typical price = close) */
+const bar = (close: number, volume: number = 1000, date?: string): Bar => ({
+    date,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    adjClose: close,
+    volume,
+});
+
+describe('calculateAnchoredVwap', () => {
+    it('weights the typical price by volume from the anchor on', () => {
+        const bars = [bar(50), bar(10, 100), bar(20, 300)];
+        expect(calculateAnchoredVwap(bars, 1)).toBeCloseTo((10 * 100 + 20 * 300) / 400);
+    });
+
+    it('uses (high + low + close) ÷ 3', () => {
+        const bars: Bar[] = [{ open: 10, high: 12, low: 9, close: 12, adjClose: 12, volume: 10 }];
+        expect(calculateAnchoredVwap(bars, 0)).toBeCloseTo(11);
+    });
+
+    it('returns undefined for an anchor outside the bars', () => {
+        expect(calculateAnchoredVwap([bar(10)], 3)).toBeUndefined();
+    });
+});
+
+describe('calculateAnchoredVwaps', () => {
+    // Rise to a 52w high at 120 (d60), drop to a base low at 90 (d70), spike day at 100 (d80), close 105
+    const closes = [
+        ...Array.from({ length: 60 }, (_, i) => 60 + i),
+        120,
+        ...Array.from({ length: 9 }, (_, i) => 115 - i * 2.5),
+        90,
+        ...Array.from({ length: 9 }, () => 95),
+        100,
+        ...Array.from({ length: 4 }, () => 102),
+        105,
+    ];
+    const bars = closes.map((c, i) => bar(c, i === 80 ? 5000 : 1000, `d${i}`));
+
+    it('anchors at the 52w high, the base low and the latest high-RVOL day', () => {
+        const vwaps = calculateAnchoredVwaps(bars, 2);
+        expect(vwaps.map((v) => [v.anchor, v.date])).toEqual([
+            ['high52w', 'd60'],
+            ['baseLow', 'd70'],
+            ['highRvolDay', 'd80'],
+        ]);
+    });
+
+    it("measures the last close's distance from each VWAP", () => {
+        const rvolDay = calculateAnchoredVwaps(bars, 2).find((v) => v.anchor === 'highRvolDay')!;
+        const vwap = (100 * 5000 + 4 * 102 * 1000 + 105 * 1000) / 10000;
+        expect(rvolDay.vwap).toBeCloseTo(vwap);
+        expect(rvolDay.pctFrom).toBeCloseTo(((105 - vwap) / vwap) * 100);
+    });
+
+    it('omits the base low when the high is the latest bar', () => {
+        const rising = Array.from({ length: 30 }, (_, i) => bar(100 + i));
+        expect(calculateAnchoredVwaps(rising, 2).map((v) => v.anchor)).toEqual(['high52w']);
+    });
+});
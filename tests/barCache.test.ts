@@ -0,0 +1,45 @@
+/**
+ * Bar cache merge tests
+ */
+
+import { mergeBars, toExchangeDate, CachedBar } from '../src/services/barCache';
+
+function bar(date: string, close: number, volume: number = 1000): CachedBar {
+    const time = Date.parse(`${date}T14:30:00Z`) / 1000;
+    return { date, time, open: close, high: close, low: close, close, volume };
+}
+
+describe('mergeBars', () => {
+    it('appends new bars and replaces the partial last cached bar', () => {
+        const cached = [bar('2026-02-02', 100), bar('2026-02-03', 101), bar('2026-02-04', 99, 400)];
+        const fresh = [bar('2026-02-03', 101), bar('2026-02-04', 102, 1500), bar('2026-02-05', 103)];
+
+        const result = mergeBars(cached, fresh);
+
+        expect(result.conflict).toBe(false);
+        expect(result.bars.map((b) => b.date)).toEqual(['2026-02-02', '2026-02-03', '2026-02-04', '2026-02-05']);
+        expect(result.bars[2].close).toBe(102);
+        expect(result.bars[2].volume).toBe(1500);
+    });
+
+    it('flags a conflict when overlapping history was re-adjusted', () => {
+        const cached = [bar('2026-02-02', 100), bar('2026-02-03', 100), bar('2026-02-04', 100)];
+        const fresh = [bar('2026-02-03', 50), bar('2026-02-04', 50), bar('2026-02-05', 51)];
+
+        expect(mergeBars(cached, fresh).conflict).toBe(true);
+    });
+
+    it('keeps cached bars when the fresh range is empty', () => {
+        const cached = [bar('2026-02-02', 100)];
+        expect(mergeBars(cached, []).bars).toEqual(cached);
+    });
+});
+
+describe('toExchangeDate', () => {
+    it('uses the exchange timezone for the trading date', () => {
+        // 2026-02-02 23:30 UTC is already Feb 3 in Tel Aviv
+        const time = Date.parse('2026-02-02T23:30:00Z') / 1000;
+        expect(toExchangeDate(time, 'America/New_York')).toBe('2026-02-02');
+        expect(toExchangeDate(time, 'Asia/Jerusalem')).toBe('2026-02-03');
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * Base pattern recognition tests (flat base, cup-with-handle, VCP)
+ */
+
+import { detectBasePattern } from '../src/utils/basePatterns';
+import { Bar } from '../src/types';
+
+/** Closes along straight lines between [price, bars] waypoints, starting at `start` */
+function path(start: number, waypoints: [number, number][]): number[] {
+    const closes = [start];
+    for (const [target, bars] of waypoints) {
+        const from = closes[closes.length - 1];
+        for (let i = 1; i <= bars; i++) closes.push(from + ((target - from) * i) / bars);
+    }
+    return closes;
+}
+
+/** Bars with a ±0.5% range; the last 10 bars trade half the volume (dry-up) */
+function toBars(closes: number[]): Bar[] {
+    return closes.map((close, i) => ({
+        open: close,
+        high: close * 1.005,
+        low: close * 0.995,
+        close,
+        adjClose: close,
+        volume: i >= closes.length - 10 ? 500 : 1000,
+    }));
+}
+
+/** 60-bar advance into the base */
+const advance = path(50, [[100, 60]]);
+
+describe('detectBasePattern', () => {
+    it('finds a flat base', () => {
+        const bars = toBars([...advance, ...path(100, [[93, 8], [98, 10], [97, 10], [98, 12]]).slice(1)]);
+        const pattern = detectBasePattern(bars)!;
+
+        expect(pattern.type).toBe('flat-base');
+        expect(pattern.depthPct).toBeLessThan(15);
+        expect(pattern.pivot).toBeCloseTo(100.5);
+        expect(pattern.lengthBars).toBe(41);
+        expect(pattern.quality).toBeGreaterThan(60);
+    });
+
+    it('finds a cup with handle and uses the handle high as pivot', () => {
+        const bars = toBars([...advance, ...path(100, [[75, 20], [98, 20], [92, 5], [95, 3]]).slice(1)]);
+        const pattern = detectBasePattern(bars)!;
+
+        expect(pattern.type).toBe('cup-with-handle');
+        expect(pattern.depthPct).toBeGreaterThan(20);
+        expect(pattern.pivot).toBeCloseTo(98 * 1.005);
+    });
+
+    it('finds a volatility contraction pattern with shrinking pullbacks', () => {
+        const bars = toBars([
+            ...advance,
+            ...path(100, [[80, 6], [97, 6], [87.3, 6], [95, 6], [91, 6], [94, 6]]).slice(1),
+        ]);
+        const pattern = detectBasePattern(bars)!;
+
+        expect(pattern.type).toBe('vcp');
+        expect(pattern.contractions).toHaveLength(3);
+        expect(pattern.contractions![0]).toBeGreaterThan(pattern.contractions![2]);
+        expect(pattern.pivot).toBeCloseTo(95 * 1.005);
+    });
+
+    it('returns null for a stock at new highs or in a deep decline', () => {
+        expect(detectBasePattern(toBars(advance))).toBeNull();
+        expect(detectBasePattern(toBars([...advance, ...path(100, [[50, 40]]).slice(1)]))).toBeNull();
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Corporate action adjustment tests
+ */
+
+import { adjustForCorporateActions, formatSplitRatio } from '../src/utils/corporateActions';
+import { RawMarketData } from '../src/types';
+
+const dates = ['2026-06-01', '2026-06-02', '2026-06-03', '2026-06-04', '2026-06-05'];
+
+function raw(closes: (number | null)[], volumes: (number | null)[], actions: RawMarketData['actions']): RawMarketData {
+    const bars = closes.map((close, i) => ({ date: dates[i], close, volume: volumes[i] }));
+    return { ticker: 'NVDA', source: 'yahoo', bars, actions };
+}
+
+const closesOf = (data: RawMarketData): (number | null)[] => data.bars.map((b) => b.close);
+const volumesOf = (data: RawMarketData): (number | null)[] => data.bars.map((b) => b.volume);
+
+describe('adjustForCorporateActions', () => {
+    it('adjusts unadjusted history for a forward split', () => {
+        const split = { type: 'split' as const, date: '2026-06-04', ratio: 4 };
+        const result = adjustForCorporateActions(raw([400, 404, 400, 101, 102], [100, 100, 100, 400, 420], [split]));
+
+        expect(closesOf(result.raw)).toEqual([100, 101, 100, 101, 102]);
+        expect(volumesOf(result.raw)).toEqual([400, 400, 400, 400, 420]);
+        expect(result.splits).toEqual([split]);
+    });
+
+    it('does not adjust history the provider already adjusted', () => {
+        const split = { type: 'split' as const, date: '2026-06-04', ratio: 4 };
+        const closes = [100, 101, 100, 101, 102];
+        const volumes = [400, 400, 400, 400, 420];
+        const result = adjustForCorporateActions(raw(closes, volumes, [split]));
+
+        expect(closesOf(result.raw)).toEqual(closes);
+        expect(volumesOf(result.raw)).toEqual(volumes);
+        expect(result.splits).toEqual([split]);
+    });
+
+    it('adjusts a reverse split and keeps nulls in place', () => {
+        const split = { type: 'split' as const, date: '2026-06-03', ratio: 0.1 };
+        const result = adjustForCorporateActions(raw([1, null, 10, 10, 10], [5000, null, 500, 500, 500], [split]));
+
+        expect(closesOf(result.raw)).toEqual([10, null, 10, 10, 10]);
+        expect(volumesOf(result.raw)).toEqual([500, null, 500, 500, 500]);
+    });
+
+    it('scales closes before a dividend ex-date only', () => {
+        const dividend = { type: 'dividend' as const, date: '2026-06-04', amount: 1 };
+        const result = adjustForCorporateActions(raw([100, 100, 100, 99, 99], [10, 10, 10, 10, 10], [dividend]));
+
+        expect(closesOf(result.raw)).toEqual([99, 99, 99, 99, 99]);
+        expect(volumesOf(result.raw)).toEqual([10, 10, 10, 10, 10]);
+        expect(result.splits).toEqual([]);
+    });
+
+    it('scales open/high/low with the close and leaves the provider adjClose alone', () => {
+        const split = { type: 'split' as const, date: '2026-06-02', ratio: 2 };
+        const data = raw([200, 100], [1, 2], [split]);
+        data.bars[0] = { ...data.bars[0], open: 196, high: 204, low: 194, adjClose: 100 };
+        const [first] = adjustForCorporateActions(data).raw.bars;
+
+        expect(first).toMatchObject({ open: 98, high: 102, low: 97, close: 100, adjClose: 100, volume: 2 });
+    });
+
+    it('ignores actions when bar dates are missing', () => {
+        const withDates = raw([400, 100], [1, 4], [{ type: 'split', date: '2026-06-02', ratio: 4 }]);
+        const data: RawMarketData = { ...withDates, bars: withDates.bars.map(({ close, volume }) => ({ close, volume })) };
+        expect(adjustForCorporateActions(data).raw).toBe(data);
+    });
+});
+
+describe('formatSplitRatio', () => {
+    it('formats forward and reverse splits', () => {
+        expect(formatSplitRatio(4)).toBe('4:1');
+        expect(formatSplitRatio(0.1)).toBe('1:10');
+        expect(formatSplitRatio(1.5)).toBe('1.5:1');
+    });
+});
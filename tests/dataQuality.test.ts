@@ -0,0 +1,84 @@
+/**
+ * Data quality validation tests
+ */
+
+import { validateMarketData } from '../src/services/dataQuality';
+import { RawMarketData } from '../src/types';
+
+/** Consecutive weekday dates ending on the given date */
+function weekdays(count: number, end: string): string[] {
+    const dates: string[] = [];
+    const d = new Date(`${end}T12:00:00Z`);
+    while (dates.length < count) {
+        const day = d.getUTCDay();
+        if (day !== 0 && day !== 6) dates.unshift(d.toISOString().split('T')[0]);
+        d.setUTCDate(d.getUTCDate() - 1);
+    }
+    return dates;
+}
+
+describe('validateMarketData', () => {
+    const afterClose = new Date('2026-10-19T21:30:00Z'); // Monday, after US close
+    const dates = weekdays(100, '2026-10-19');
+    const closes = dates.map(() => 100);
+    const volumes = dates.map(() => 1000);
+
+    function raw(
+        series: { closes?: (number | null)[]; volumes?: (number | null)[]; dates?: string[] } = {}
+    ): RawMarketData {
+        const barDates = series.dates ?? dates;
+        const barCloses = series.closes ?? closes;
+        const barVolumes = series.volumes ?? volumes;
+        const bars = barDates.map((date, i) => ({ date, close: barCloses[i], volume: barVolumes[i] }));
+        return { ticker: 'AAPL', source: 'yahoo', bars };
+    }
+
+    it('passes clean, fresh data without flags', () => {
+        const result = validateMarketData(raw(), 63, afterClose);
+        expect(result.flags).toEqual([]);
+        expect(result.barStatus).toBe('final');
+        expect(result.bars).toHaveLength(100);
+    });
+
+    it('drops bars with a missing close or volume', () => {
+        const withNull: (number | null)[] = [...volumes];
+        withNull[50] = null;
+        const result = validateMarketData(raw({ volumes: withNull }), 63, afterClose);
+
+        expect(result.bars).toHaveLength(99);
+        expect(result.bars.map((b) => b.date)).not.toContain(dates[50]);
+        expect(result.flags.map((f) => f.code)).toEqual(['null-bars']);
+    });
+
+    it('completes missing open/high/low from the close and widens inconsistent ranges', () => {
+        const data = raw();
+        data.bars[99] = { ...data.bars[99], open: 98, high: 99, low: null };
+        const last = validateMarketData(data, 63, afterClose).bars[99];
+
+        expect(last).toMatchObject({ open: 98, high: 100, low: 98, close: 100, adjClose: 100 });
+    });
+
+    it('flags a null last bar and the resulting stale bar as errors', () => {
+        const lastNull = [...closes.slice(0, -1), null];
+        const result = validateMarketData(raw({ closes: lastNull }), 63, afterClose);
+        const codes = result.flags.map((f) => f.code);
+
+        expect(codes).toContain('last-bar-null');
+        expect(codes).toContain('stale-bar');
+        expect(result.lastBarDate).toBe('2026-10-16');
+    });
+
+    it('flags zero volume, price jumps and short history', () => {
+        const jumpCloses = closes.map((c, i) => (i >= 90 ? c * 2 : c));
+        const zeroVolumes = volumes.map((v, i) => (i === 99 ? 0 : v));
+        const result = validateMarketData(
+            raw({ closes: jumpCloses.slice(-60), volumes: zeroVolumes.slice(-60), dates: dates.slice(-60) }),
+            63,
+            afterClose
+        );
+        const codes = result.flags.map((f) => f.code);
+
+        expect(codes).toEqual(expect.arrayContaining(['zero-volume-today', 'price-jump', 'short-history']));
+        expect(result.flags.find((f) => f.code === 'price-jump')?.message).toContain(dates[90]);
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Gap analysis tests (gap %, held/filled, close location, category)
+ */
+
+import { analyzeGap, formatGap } from '../src/utils/gapAnalysis';
+import { Bar } from '../src/types';
+
+const bar = (open: number, high: number, low: number, close: number): Bar => ({
+    open,
+    high,
+    low,
+    close,
+    adjClose: close,
+    volume: 1000,
+});
+
+/** Previous close 100, then today's bar */
+const withToday = (today: Bar): Bar[] => [bar(99, 101, 98, 100), today];
+
+describe('analyzeGap', () => {
+    it('classifies a held gap up closing near the high as gap & go', () => {
+        const gap = analyzeGap(withToday(bar(104, 108, 103, 107)), 1)!;
+
+        expect(gap.direction).toBe('up');
+        expect(gap.gapPct).toBeCloseTo(4);
+        expect(gap.filled).toBe(false);
+        expect(gap.fillPct).toBeCloseTo(25); // 104 → 103 of a 4-point gap
+        expect(gap.closeLocation).toBeCloseTo(0.8);
+        expect(gap.category).toBe('gap-and-go');
+    });
+
+    it('classifies a filled gap up as gap fade', () => {
+        const gap = analyzeGap(withToday(bar(104, 105, 99, 104.5)), 1)!;
+        expect(gap.filled).toBe(true);
+        expect(gap.fillPct).toBe(100);
+        expect(gap.category).toBe('gap-fade');
+    });
+
+    it('classifies a held gap up closing in the lower half as gap fade', () => {
+        expect(analyzeGap(withToday(bar(104, 106, 102, 102.5)), 1)!.category).toBe('gap-fade');
+    });
+
+    it('handles gap down with the close near the low as gap & go', () => {
+        const gap = analyzeGap(withToday(bar(96, 97, 93, 93.5)), 1)!;
+        expect(gap.direction).toBe('down');
+        expect(gap.category).toBe('gap-and-go');
+    });
+
+    it('ignores opens within the minimum gap', () => {
+        const gap = analyzeGap(withToday(bar(100.5, 103, 99, 102)), 1)!;
+        expect(gap.direction).toBe('none');
+        expect(gap.category).toBe('no-gap');
+        expect(gap.filled).toBe(false);
+    });
+
+    it('needs a previous bar', () => {
+        expect(analyzeGap([bar(1, 1, 1, 1)], 1)).toBeUndefined();
+    });
+});
+
+describe('formatGap', () => {
+    it('shows direction, size and whether the gap held', () => {
+        expect(formatGap(analyzeGap(withToday(bar(104, 108, 104, 107)), 1)!)).toBe('▲+4.0% held');
+        expect(formatGap(analyzeGap(withToday(bar(98, 100.5, 97, 100)), 1)!)).toBe('▼−2.0% filled');
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * HTTP client tests: retries, timeouts, 429 handling and circuit breaker
+ */
+
+jest.mock('../src/config/index', () => ({
+    config: {
+        maxRetries: 3,
+        retryDelayMs: 1,
+        httpTimeoutMs: 50,
+        circuitBreakerThreshold: 2,
+        circuitBreakerCooldownMs: 60_000,
+    },
+}));
+
+import { httpRequest, parseRetryAfter, resetCircuits, isCircuitOpen, ProviderError } from '../src/utils/httpClient';
+import { getBudgetUsage, resetRequestBudgets, setRequestBudget } from '../src/utils/requestScheduler';
+
+describe('httpRequest', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+        setRequestBudget('test', { requestsPerMinute: 600, concurrency: 2 });
+    });
+
+    afterEach(() => {
+        resetRequestBudgets();
+        resetCircuits();
+        global.fetch = originalFetch;
+    });
+
+    function mockResponses(...responses: (Response | Error)[]): jest.Mock {
+        const mock = jest.fn(async () => {
+            const next = responses.shift()!;
+            if (next instanceof Error) throw next;
+            return next;
+        });
+        global.fetch = mock as unknown as typeof fetch;
+        return mock;
+    }
+
+    it('retries transient failures and returns the first good response', async () => {
+        const mock = mockResponses(new Error('ECONNRESET'), new Response('', { status: 503 }), new Response('ok'));
+
+        const response = await httpRequest('test', 'https://example.com');
+        expect(await response.text()).toBe('ok');
+        expect(mock).toHaveBeenCalledTimes(3);
+    });
+
+    it('returns client errors without retrying', async () => {
+        const mock = mockResponses(new Response('', { status: 404 }));
+
+        const response = await httpRequest('test', 'https://example.com');
+        expect(response.status).toBe(404);
+        expect(mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries after a 429 honoring Retry-After', async () => {
+        mockResponses(new Response('', { status: 429, headers: { 'Retry-After': '0' } }), new Response('ok'));
+
+        const response = await httpRequest('test', 'https://example.com');
+        expect(response.status).toBe(200);
+        expect(getBudgetUsage()[0]).toMatchObject({ requests: 2, throttled: 1 });
+    });
+
+    it('times out hanging requests', async () => {
+        global.fetch = jest.fn(
+            (_url: unknown, init?: { signal?: AbortSignal }) =>
+                new Promise((_resolve, reject) => {
+                    init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+                })
+        ) as unknown as typeof fetch;
+
+        await expect(httpRequest('test', 'https://example.com', { attempts: 1 })).rejects.toMatchObject({
+            provider: 'test',
+            kind: 'timeout',
+        });
+    });
+
+    it('times out bodies that stall after the headers', async () => {
+        global.fetch = jest.fn(async (_url: unknown, init?: { signal?: AbortSignal }) => {
+            const body = new ReadableStream({
+                start(controller) {
+                    controller.enqueue(new TextEncoder().encode('{"partial":'));
+                    init?.signal?.addEventListener('abort', () => controller.error(new Error('aborted')));
+                },
+            });
+            return new Response(body, { status: 200 });
+        }) as unknown as typeof fetch;
+
+        await expect(httpRequest('test', 'https://example.com', { attempts: 1 })).rejects.toMatchObject({
+            provider: 'test',
+            kind: 'timeout',
+        });
+    });
+
+    it('opens the circuit after repeated failures and fails fast', async () => {
+        const mock = mockResponses(new Error('down'), new Error('down'));
+
+        await expect(httpRequest('test', 'https://example.com', { attempts: 1 })).rejects.toBeInstanceOf(ProviderError);
+        await expect(httpRequest('test', 'https://example.com', { attempts: 1 })).rejects.toMatchObject({ kind: 'network' });
+        expect(isCircuitOpen('test')).toBe(true);
+
+        await expect(httpRequest('test', 'https://example.com')).rejects.toMatchObject({ kind: 'circuit-open' });
+        expect(mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports an exhausted budget as a provider error', async () => {
+        setRequestBudget('test', { requestsPerMinute: 600, creditsPerRun: 0, concurrency: 1 });
+
+        await expect(httpRequest('test', 'https://example.com')).rejects.toMatchObject({ kind: 'budget' });
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('parses seconds and HTTP dates', () => {
+        const now = Date.parse('2026-10-19T12:00:00Z');
+        expect(parseRetryAfter('30', now)).toBe(30_000);
+        expect(parseRetryAfter('Mon, 19 Oct 2026 12:01:00 GMT', now)).toBe(60_000);
+        expect(parseRetryAfter(null, now)).toBeUndefined();
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+});
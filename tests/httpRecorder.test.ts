@@ -0,0 +1,107 @@
+/**
+ * HTTP record/replay tests
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const mockConfig = {
+    httpMode: 'record',
+    httpFixturesDir: '',
+    maxRetries: 1,
+    retryDelayMs: 1,
+    httpTimeoutMs: 1000,
+    circuitBreakerThreshold: 5,
+    circuitBreakerCooldownMs: 60_000,
+};
+
+jest.mock('../src/config/index', () => ({ config: mockConfig }));
+
+import { httpRequest, ProviderError } from '../src/utils/httpClient';
+import { beginHttpSession, redactUrl } from '../src/utils/httpRecorder';
+import { resetRequestBudgets } from '../src/utils/requestScheduler';
+import * as clock from '../src/utils/clock';
+
+describe('httpRecorder', () => {
+    const originalFetch = global.fetch;
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'http-fixtures-'));
+        mockConfig.httpFixturesDir = dir;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        clock.freezeClock(null);
+        resetRequestBudgets();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('replays a recorded run offline with the clock frozen at the recorded time', async () => {
+        mockConfig.httpMode = 'record';
+        global.fetch = jest.fn(async () => new Response('{"price":1}', { status: 200 })) as unknown as typeof fetch;
+        beginHttpSession();
+        const recordedAt = clock.now().toISOString();
+
+        const live = await httpRequest('test', 'https://example.com/quote?symbol=AAPL&apikey=secret');
+        expect(await live.json()).toEqual({ price: 1 });
+
+        const saved = fs.readdirSync(path.join(dir, 'test'));
+        expect(saved).toHaveLength(1);
+        expect(fs.readFileSync(path.join(dir, 'test', saved[0]), 'utf-8')).not.toContain('secret');
+
+        clock.freezeClock(null);
+        mockConfig.httpMode = 'replay';
+        global.fetch = jest.fn(async () => {
+            throw new Error('network used during replay');
+        }) as unknown as typeof fetch;
+        beginHttpSession();
+
+        const replayed = await httpRequest('test', 'https://example.com/quote?symbol=AAPL&apikey=other');
+        expect(await replayed.json()).toEqual({ price: 1 });
+        expect(clock.now().toISOString()).toBe(recordedAt);
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('clears the fixtures of an earlier recording before recording', async () => {
+        const stale = path.join(dir, 'test', '0123456789abcdef-0.json');
+        fs.mkdirSync(path.dirname(stale), { recursive: true });
+        fs.writeFileSync(stale, '{}');
+        fs.writeFileSync(path.join(dir, 'NOTES.md'), 'kept');
+
+        mockConfig.httpMode = 'record';
+        beginHttpSession();
+
+        expect(fs.existsSync(path.join(dir, 'test'))).toBe(false);
+        expect(fs.existsSync(path.join(dir, 'NOTES.md'))).toBe(true);
+    });
+
+    it('replays recorded failures and reports requests that were not recorded', async () => {
+        mockConfig.httpMode = 'record';
+        global.fetch = jest.fn(async () => {
+            throw new Error('ECONNRESET');
+        }) as unknown as typeof fetch;
+        beginHttpSession();
+        await expect(httpRequest('test', 'https://example.com/down')).rejects.toMatchObject({ kind: 'network' });
+
+        mockConfig.httpMode = 'replay';
+        beginHttpSession();
+        await expect(httpRequest('test', 'https://example.com/down')).rejects.toMatchObject({
+            kind: 'network',
+            reason: 'ECONNRESET',
+        });
+        await expect(httpRequest('test', 'https://example.com/other')).rejects.toBeInstanceOf(ProviderError);
+    });
+
+    it('fails replay when no run was recorded', () => {
+        mockConfig.httpMode = 'replay';
+        expect(() => beginHttpSession()).toThrow('No recorded run');
+    });
+
+    it('redacts credentials in URLs', () => {
+        expect(redactUrl('https://api.telegram.org/bot123:abc/sendMessage')).toBe('https://api.telegram.org/bot***/sendMessage');
+        expect(redactUrl('https://x.io/rsi?symbol=A&apikey=k1&token=t2')).toBe('https://x.io/rsi?symbol=A&apikey=***&token=***');
+    });
+});
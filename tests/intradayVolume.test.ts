@@ -0,0 +1,70 @@
+/**
+ * Intraday volume curve tests
+ */
+
+import { calculateIntradayRvol, buildVolumeCurve, expectedVolumeAt, formatMinuteOfDay } from '../src/utils/intradayVolume';
+import { RawIntradayData } from '../src/types';
+
+/** 5m bars from 09:30 to 16:00 New York (EST, UTC-5) for a date, volume per bar */
+function session(date: string, volumePerBar: number, untilMinute: number = 16 * 60): { time: number; volume: number }[] {
+    const bars: { time: number; volume: number }[] = [];
+    for (let minute = 9 * 60 + 30; minute < untilMinute; minute += 5) {
+        const time = Date.parse(`${date}T00:00:00Z`) / 1000 + (minute + 5 * 60) * 60;
+        bars.push({ time, volume: volumePerBar });
+    }
+    return bars;
+}
+
+describe('calculateIntradayRvol', () => {
+    const history = [
+        ...session('2026-02-02', 100),
+        ...session('2026-02-03', 100),
+        ...session('2026-02-04', 100),
+    ];
+
+    it('compares volume so far with the average at the same minute', () => {
+        // Today until 11:00 at 3x the usual pace
+        const data: RawIntradayData = {
+            ticker: 'AAPL',
+            source: 'yahoo',
+            intervalMinutes: 5,
+            timezone: 'America/New_York',
+            bars: [...history, ...session('2026-02-05', 300, 11 * 60)],
+        };
+        const now = new Date('2026-02-05T16:00:00Z'); // 11:00 NY
+
+        const result = calculateIntradayRvol(data, 7800, 20, now);
+
+        expect(result).not.toBeNull();
+        expect(result!.rvol).toBeCloseTo(3);
+        expect(result!.details.minuteOfDay).toBe(11 * 60);
+        expect(result!.details.sessionsUsed).toBe(3);
+        // 18 bars × 300 vs a full day of 78 bars × 100
+        expect(result!.details.unadjustedRvol).toBeCloseTo(5400 / 7800);
+    });
+
+    it('returns null before today has any bars', () => {
+        const data: RawIntradayData = {
+            ticker: 'AAPL',
+            source: 'yahoo',
+            intervalMinutes: 5,
+            timezone: 'America/New_York',
+            bars: history,
+        };
+        expect(calculateIntradayRvol(data, 7800, 20, new Date('2026-02-05T13:00:00Z'))).toBeNull();
+    });
+});
+
+describe('volume curve', () => {
+    it('interpolates inside a bar', () => {
+        const curve = buildVolumeCurve([[{ minute: 570, volume: 100 }, { minute: 575, volume: 100 }]], 5);
+        expect(expectedVolumeAt(curve, 570)).toBe(0);
+        expect(expectedVolumeAt(curve, 572.5)).toBeCloseTo(50);
+        expect(expectedVolumeAt(curve, 580)).toBe(200);
+        expect(expectedVolumeAt(curve, 700)).toBe(200);
+    });
+
+    it('formats minute of day', () => {
+        expect(formatMinuteOfDay(9 * 60 + 5)).toBe('09:05');
+    });
+});
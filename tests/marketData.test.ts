@@ -0,0 +1,160 @@
+/**
+ * Market Data derivation tests
+ * StockData is derived from raw provider data in one shared step
+ */
+
+// Mock p-limit (ESM-only) – fetchAllStocks is not exercised here
+jest.mock('p-limit', () => ({
+    __esModule: true,
+    default: () => (fn: () => unknown) => fn(),
+}));
+
+// Real config with a switchable setup high
+jest.mock('../src/config/index', () => {
+    const actual = jest.requireActual('../src/config/index');
+    return { config: { ...actual.config, setupHigh: '52w' } };
+});
+
+import { deriveStockData, applySetupFlags } from '../src/services/marketData';
+import { config } from '../src/config/index';
+import { RawMarketData, RawBar, StockData } from '../src/types';
+
+function toBars(closes: number[], volumes: number[]): RawBar[] {
+    return closes.map((close, i) => ({ close, volume: volumes[i] }));
+}
+
+describe('deriveStockData', () => {
+    const closes = Array.from({ length: 300 }, (_, i) => 100 + Math.sin(i / 10) * 5);
+    const volumes = Array.from({ length: 300 }, (_, i) => (i === 299 ? 3000 : 1000));
+
+    it('derives RVOL, price change and indicators from history', () => {
+        const raw: RawMarketData = { ticker: 'AAPL', source: 'yahoo', bars: toBars(closes, volumes) };
+        const stock = deriveStockData(raw);
+
+        expect(stock).not.toBeNull();
+        expect(stock!.rvol).toBeCloseTo(3);
+        expect(stock!.lastPrice).toBe(closes[closes.length - 1]);
+        expect(stock!.sma50).toBeDefined();
+        expect(stock!.sma200).toBeDefined();
+        expect(stock!.monthsInConsolidation).toBeDefined();
+        expect(stock!.nearAth).toBeDefined();
+    });
+
+    it('falls back to quote data when there is no history', () => {
+        const raw: RawMarketData = {
+            ticker: 'MSFT',
+            source: 'twelvedata',
+            bars: [],
+            lastPrice: 90,
+            quote: { volume: 2000, avgVolume: 1000, priceChange: 1.5, high52w: 100 },
+            indicators: { rsi: 55, sma21: 89 },
+        };
+        const stock = deriveStockData(raw);
+
+        expect(stock!.rvol).toBe(2);
+        expect(stock!.pctFromAth).toBeCloseTo(-10);
+        expect(stock!.rsi).toBe(55);
+        expect(stock!.nearSMA21).toBe(true);
+        expect(stock!.monthsInConsolidation).toBeUndefined();
+    });
+
+    it('converts agorot to shekels and keeps the exchange', () => {
+        const raw: RawMarketData = {
+            ticker: 'TEVA.TA',
+            source: 'yahoo',
+            bars: toBars(closes.map((c) => c * 100), volumes),
+            lastPrice: 6120,
+            currency: 'ILA',
+            exchange: 'Tel Aviv',
+        };
+        const stock = deriveStockData(raw);
+
+        expect(stock!.currency).toBe('ILS');
+        expect(stock!.exchange).toBe('Tel Aviv');
+        expect(stock!.lastPrice).toBeCloseTo(61.2);
+        expect(stock!.sma21).toBeCloseTo(deriveStockData({ ...raw, bars: toBars(closes, volumes), currency: 'ILS' })!.sma21!);
+    });
+
+    it('takes the 52w high from intraday highs', () => {
+        const bars = toBars(closes, volumes).map((b, i) => (i === 250 ? { ...b, high: 200 } : b));
+        const stock = deriveStockData({ ticker: 'AAPL', source: 'yahoo', bars });
+
+        expect(stock!.ath).toBe(200);
+        expect(stock!.athSource).toBe('52w');
+        expect(stock!.monthsInConsolidation).toBeCloseTo(49 / 21);
+        expect(stock!.adrPct).toBeDefined();
+    });
+
+    describe('setup high', () => {
+        const dates = closes.map((_, i) => new Date(Date.UTC(2025, 0, 1 + i)).toISOString().slice(0, 10));
+        const bars = toBars(closes, volumes).map((b, i) => ({
+            ...b,
+            date: dates[i],
+            high: i === 10 ? 300 : i === 250 ? 200 : b.close,
+        }));
+        const mutableConfig = config as { setupHigh: string };
+
+        afterEach(() => {
+            mutableConfig.setupHigh = '52w';
+        });
+
+        it('exposes both the 52w and the all-time high with dates', () => {
+            const stock = deriveStockData({ ticker: 'AAPL', source: 'yahoo', bars })!;
+
+            expect(stock.high52w).toMatchObject({ price: 200, date: dates[250] });
+            expect(stock.allTimeHigh).toMatchObject({ price: 300, date: dates[10] });
+            expect(stock.allTimeHigh!.monthsSince).toBeCloseTo(289 / 21);
+        });
+
+        it('measures the setup against the all-time high when configured', () => {
+            mutableConfig.setupHigh = 'ath';
+            const stock = deriveStockData({ ticker: 'AAPL', source: 'yahoo', bars })!;
+
+            expect(stock.ath).toBe(300);
+            expect(stock.athSource).toBe('ath');
+            expect(stock.pctFromAth).toBeCloseTo(stock.allTimeHigh!.pctFrom);
+            expect(stock.monthsInConsolidation).toBeCloseTo(289 / 21);
+        });
+
+        it('falls back to the 52w high when no all-time high is known', () => {
+            mutableConfig.setupHigh = 'ath';
+            const stock = deriveStockData({
+                ticker: 'MSFT',
+                source: 'twelvedata',
+                bars: [],
+                lastPrice: 90,
+                quote: { volume: 2000, avgVolume: 1000, priceChange: 1.5, high52w: 100 },
+            })!;
+
+            expect(stock.athSource).toBe('52w');
+            expect(stock.pctFromAth).toBeCloseTo(-10);
+        });
+    });
+
+    it('returns null when neither history nor quote is usable', () => {
+        expect(deriveStockData({ ticker: 'X', source: 'yahoo', bars: toBars([1], [1]) })).toBeNull();
+    });
+});
+
+describe('applySetupFlags', () => {
+    const base: StockData = {
+        ticker: 'NVDA',
+        currentVolume: 1,
+        avgVolume: 1,
+        rvol: 1,
+        priceChange: 0,
+        lastPrice: 100,
+    };
+
+    it('produces the same flags for the same values regardless of source', () => {
+        const fromHistory = applySetupFlags({ ...base, sma21: 98, pctFromAth: -22, monthsInConsolidation: 5 });
+        const fromQuote = applySetupFlags({ ...base, sma21: 98, pctFromAth: -22, monthsInConsolidation: 5 });
+
+        expect(fromHistory).toEqual(fromQuote);
+        expect(fromHistory.nearSMA21).toBe(true);
+        expect(fromHistory.nearAth).toBe(false);
+        expect(fromHistory.nearAthClose).toBe(true);
+        expect(fromHistory.inConsolidationWindow).toBe(false);
+        expect(fromHistory.inConsolidationClose).toBe(true);
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Multi-window RVOL tests (daily windows, 5-day, weekly, elevated days)
+ */
+
+import { calculateRvolWindows } from '../src/utils/multiWindowRvol';
+import { Bar } from '../src/types';
+
+/** Daily bars on weekdays from Monday 2026-01-05 with the given volumes */
+function toBars(volumes: number[]): Bar[] {
+    const bars: Bar[] = [];
+    const day = new Date('2026-01-05T00:00:00Z');
+    for (const volume of volumes) {
+        while (day.getUTCDay() === 0 || day.getUTCDay() === 6) day.setUTCDate(day.getUTCDate() + 1);
+        bars.push({ date: day.toISOString().slice(0, 10), open: 10, high: 10, low: 10, close: 10, adjClose: 10, volume });
+        day.setUTCDate(day.getUTCDate() + 1);
+    }
+    return bars;
+}
+
+const repeat = (n: number, volume: number): number[] => Array.from({ length: n }, () => volume);
+
+describe('calculateRvolWindows', () => {
+    it("compares today's volume with each window average", () => {
+        const bars = toBars([...repeat(40, 1000), ...repeat(20, 2000), 4000]);
+        const { daily } = calculateRvolWindows(bars, [20, 50, 63], 1.5);
+
+        expect(daily[20]).toBeCloseTo(2);
+        expect(daily[50]).toBeCloseTo(4000 / ((30 * 1000 + 20 * 2000) / 50));
+        expect(daily[63]).toBeUndefined(); // only 60 sessions of history
+    });
+
+    it('detects sustained volume over the last 5 sessions', () => {
+        const bars = toBars([...repeat(63, 1000), 2000, 2000, 1800, 1200, 1400]);
+        const result = calculateRvolWindows(bars, [63], 1.5);
+
+        expect(result.daily[63]).toBeCloseTo(1400 / ((59 * 1000 + 2000 + 2000 + 1800 + 1200) / 63));
+        expect(result.rvol5d).toBeCloseTo(1.68);
+        expect(result.elevatedDays).toBe(3);
+    });
+
+    it('compares this week with the previous 10 weeks per day', () => {
+        // 11 full weeks at 1000, then Monday + Tuesday of the current week at 3000
+        const bars = toBars([...repeat(55, 1000), 3000, 3000]);
+        expect(calculateRvolWindows(bars, [], 1.5).weekly).toBeCloseTo(3);
+    });
+
+    it('leaves 5-day and weekly RVOL undefined for short histories', () => {
+        const result = calculateRvolWindows(toBars(repeat(30, 1000)), [20], 1.5);
+        expect(result.rvol5d).toBeUndefined();
+        expect(result.weekly).toBeUndefined();
+        expect(result.elevatedDays).toBe(0);
+    });
+});
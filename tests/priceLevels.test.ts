@@ -0,0 +1,99 @@
+/**
+ * Price level tests (swing pivots, support/resistance, breakout classification)
+ */
+
+import { findSwingPivots, clusterLevels, findPriceLevels, classifyBreakout } from '../src/utils/priceLevels';
+import { Bar, SwingPivot } from '../src/types';
+
+/** Bars from closes with high/low 0.5 away and constant volume unless given */
+function toBars(closes: number[], volumes: number[] = []): Bar[] {
+    return closes.map((close, i) => ({
+        date: `d${i}`,
+        open: close,
+        high: close + 0.5,
+        low: close - 0.5,
+        close,
+        adjClose: close,
+        volume: volumes[i] ?? 1000,
+    }));
+}
+
+/** Straight line of closes from `from` to `to` over n bars (excluding `from`) */
+function line(from: number, to: number, n: number): number[] {
+    return Array.from({ length: n }, (_, i) => from + ((to - from) * (i + 1)) / n);
+}
+
+/** Base with a swing high at 110 (index 20), lows near 100, and `tail` appended */
+function base(tail: number[]): number[] {
+    return [...line(95, 100, 10), ...line(100, 110, 10), ...line(110, 100, 10), ...line(100, 105, 10), ...tail];
+}
+
+describe('findSwingPivots', () => {
+    it('finds highs and lows that beat the bars on each side', () => {
+        const pivots = findSwingPivots(toBars(base(line(105, 103, 10))));
+        expect(pivots).toContainEqual(expect.objectContaining({ kind: 'high', index: 19, price: 110.5 }));
+        expect(pivots).toContainEqual(expect.objectContaining({ kind: 'low', index: 29, price: 99.5 }));
+    });
+
+    it('does not confirm swings in the last bars', () => {
+        const closes = [...line(95, 100, 10), ...line(100, 110, 10)];
+        expect(findSwingPivots(toBars(closes)).filter((p) => p.kind === 'high')).toHaveLength(0);
+    });
+});
+
+describe('clusterLevels', () => {
+    it('groups swings within 1.5% into one level', () => {
+        const swing = (index: number, price: number): SwingPivot => ({ index, date: `d${index}`, price, kind: 'high' });
+        const levels = clusterLevels([swing(10, 100), swing(40, 101), swing(70, 110)]);
+
+        expect(levels).toHaveLength(1);
+        expect(levels[0]).toEqual({ price: 100.5, touches: 2, lastTouchDate: 'd40' });
+    });
+});
+
+describe('findPriceLevels', () => {
+    it('returns resistance above and support below the last close', () => {
+        // Two tops at ~110 and two bottoms at ~100, last close 105
+        const closes = [...base(line(105, 110, 10)), ...line(110, 100, 10), ...line(100, 105, 10)];
+        const levels = findPriceLevels(toBars(closes))!;
+
+        expect(levels.resistance?.price).toBeCloseTo(110.5);
+        expect(levels.resistance?.touches).toBe(2);
+        expect(levels.support?.price).toBeCloseTo(99.5);
+    });
+});
+
+describe('classifyBreakout', () => {
+    it('confirms a close above the pivot on high volume', () => {
+        const closes = base([...line(105, 110, 5), 112]);
+        const volumes = [...Array(closes.length - 1).fill(1000), 3000];
+        const breakout = classifyBreakout(toBars(closes, volumes), 1.5)!;
+
+        expect(breakout.type).toBe('breakout');
+        expect(breakout.pivot).toBe(110.5);
+        expect(breakout.barsAgo).toBe(0);
+        expect(breakout.rvol).toBeCloseTo(3);
+        expect(breakout.volumeConfirmed).toBe(true);
+    });
+
+    it('flags a light-volume breakout as unconfirmed', () => {
+        const breakout = classifyBreakout(toBars(base([...line(105, 110, 5), 112])), 1.5)!;
+        expect(breakout.volumeConfirmed).toBe(false);
+    });
+
+    it('detects a failed breakout that closed back below the pivot', () => {
+        const breakout = classifyBreakout(toBars(base([...line(105, 110, 5), 112, 111, 108])), 1.5)!;
+        expect(breakout.type).toBe('failed-breakout');
+        expect(breakout.barsAgo).toBe(2);
+    });
+
+    it('detects a pullback to the pivot', () => {
+        const breakout = classifyBreakout(toBars(base([...line(105, 110, 5), 113, 115, 112])), 1.5)!;
+        expect(breakout.type).toBe('pullback');
+        expect(breakout.pctFromPivot).toBeCloseTo(((112 - 110.5) / 110.5) * 100);
+    });
+
+    it('returns null without a close above a pivot', () => {
+        expect(classifyBreakout(toBars(base(line(105, 108, 5))), 1.5)).toBeNull();
+    });
+});
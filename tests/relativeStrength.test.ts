@@ -0,0 +1,107 @@
+/**
+ * Relative strength tests (performance, vs benchmark, RS rating)
+ */
+
+import {
+    calculatePerformance,
+    calculateRelativeStrength,
+    assignRsRatings,
+    getBenchmarkTicker,
+} from '../src/utils/relativeStrength';
+import { StockData } from '../src/types';
+
+/** Closes growing linearly from 100 to `end` over n bars */
+function ramp(n: number, end: number): number[] {
+    return Array.from({ length: n }, (_, i) => 100 + ((end - 100) * i) / (n - 1));
+}
+
+function stock(ticker: string, score?: number): StockData {
+    return {
+        ticker,
+        currentVolume: 1000,
+        avgVolume: 1000,
+        rvol: 1,
+        priceChange: 0,
+        lastPrice: 10,
+        relativeStrength: score != null ? { benchmark: 'SPY', vsBenchmark: {}, score } : undefined,
+    };
+}
+
+describe('calculatePerformance', () => {
+    it('measures 3/6/12-month change from 63/126/252 bars back', () => {
+        const closes = [...Array(252).fill(50), 100];
+        closes[closes.length - 1 - 63] = 80;
+        closes[closes.length - 1 - 126] = 125;
+
+        const perf = calculatePerformance(closes)!;
+        expect(perf.m3).toBeCloseTo(25);
+        expect(perf.m6).toBeCloseTo(-20);
+        expect(perf.m12).toBeCloseTo(100);
+    });
+
+    it('omits periods longer than the history', () => {
+        const perf = calculatePerformance(ramp(100, 120))!;
+        expect(perf.m3).toBeDefined();
+        expect(perf.m6).toBeUndefined();
+        expect(perf.m12).toBeUndefined();
+    });
+
+    it('is undefined without 3 months of history', () => {
+        expect(calculatePerformance(ramp(63, 120))).toBeUndefined();
+    });
+});
+
+describe('getBenchmarkTicker', () => {
+    it('uses the TASE benchmark for .TA tickers', () => {
+        expect(getBenchmarkTicker('TEVA.TA', 'SPY', '^TA125.TA')).toBe('^TA125.TA');
+        expect(getBenchmarkTicker('AAPL', 'SPY', '^TA125.TA')).toBe('SPY');
+    });
+});
+
+describe('calculateRelativeStrength', () => {
+    it('compares each period with the benchmark and weights 3 months double', () => {
+        const rs = calculateRelativeStrength({ m3: 21, m6: 10, m12: 0 }, 'SPY', { m3: 10, m6: 10, m12: 25 })!;
+
+        expect(rs.benchmark).toBe('SPY');
+        expect(rs.vsBenchmark.m3).toBeCloseTo(10); // 1.21 / 1.10 − 1
+        expect(rs.vsBenchmark.m6).toBeCloseTo(0);
+        expect(rs.vsBenchmark.m12).toBeCloseTo(-20); // 1.00 / 1.25 − 1
+        expect(rs.score).toBeCloseTo((2 * 10 + 0 - 20) / 4);
+    });
+
+    it('skips periods the benchmark does not cover', () => {
+        const rs = calculateRelativeStrength({ m3: 10, m6: 20, m12: 30 }, 'SPY', { m3: 10 })!;
+        expect(rs.vsBenchmark).toEqual({ m3: expect.closeTo(0) });
+        expect(rs.score).toBeCloseTo(0);
+    });
+
+    it('falls back to raw performance without a benchmark', () => {
+        const rs = calculateRelativeStrength({ m3: 12, m6: 6 }, 'SPY', undefined)!;
+        expect(rs.benchmark).toBeUndefined();
+        expect(rs.vsBenchmark).toEqual({});
+        expect(rs.score).toBeCloseTo((2 * 12 + 6) / 3);
+    });
+});
+
+describe('assignRsRatings', () => {
+    it('rates scores by percentile from 1 to 99', () => {
+        const rated = assignRsRatings([stock('A', 5), stock('B', -3), stock('C', 40), stock('D')]);
+        expect(rated.map((s) => s.relativeStrength?.rating)).toEqual([50, 1, 99, undefined]);
+    });
+
+    it('gives ties the same rating', () => {
+        const rated = assignRsRatings([stock('A', 1), stock('B', 1), stock('C', 2)]);
+        expect(rated[0].relativeStrength?.rating).toBe(rated[1].relativeStrength?.rating);
+        expect(rated[2].relativeStrength?.rating).toBe(99);
+    });
+
+    it('leaves stocks without a benchmark unrated and out of the ranking', () => {
+        const raw: StockData = { ...stock('RAW'), relativeStrength: { vsBenchmark: {}, score: 100 } };
+        const rated = assignRsRatings([stock('A', 5), raw, stock('B', 1)]);
+        expect(rated.map((s) => s.relativeStrength?.rating)).toEqual([99, undefined, 1]);
+    });
+
+    it('rates a single stock 50', () => {
+        expect(assignRsRatings([stock('A', 7)])[0].relativeStrength?.rating).toBe(50);
+    });
+});
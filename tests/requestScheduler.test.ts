@@ -0,0 +1,56 @@
+/**
+ * Request scheduler tests
+ */
+
+import {
+    schedule,
+    setRequestBudget,
+    resetRequestBudgets,
+    getBudgetUsage,
+    BudgetExhaustedError,
+} from '../src/utils/requestScheduler';
+
+describe('requestScheduler', () => {
+    afterEach(() => {
+        resetRequestBudgets();
+    });
+
+    it('counts requests and credits per provider', async () => {
+        setRequestBudget('test', { requestsPerMinute: 60, creditsPerRun: 10, concurrency: 2 });
+        await schedule('test', async () => 'a');
+        await schedule('test', async () => 'b', { cost: 3 });
+
+        const usage = getBudgetUsage().find((u) => u.provider === 'test');
+        expect(usage).toMatchObject({ requests: 2, creditsUsed: 4, creditsPerRun: 10, rejected: 0 });
+    });
+
+    it('refuses requests once the credits are used up', async () => {
+        setRequestBudget('test', { requestsPerMinute: 60, creditsPerRun: 2, concurrency: 1 });
+        await schedule('test', async () => 1, { cost: 2 });
+
+        await expect(schedule('test', async () => 2)).rejects.toBeInstanceOf(BudgetExhaustedError);
+        expect(getBudgetUsage()[0].rejected).toBe(1);
+    });
+
+    it('does not wait for a token when maxWaitMs is exceeded', async () => {
+        setRequestBudget('test', { requestsPerMinute: 1, concurrency: 1 });
+        await schedule('test', async () => 1);
+
+        await expect(schedule('test', async () => 2, { maxWaitMs: 0 })).rejects.toThrow('rate limit');
+    });
+
+    it('limits requests in flight', async () => {
+        setRequestBudget('test', { requestsPerMinute: 600, concurrency: 2 });
+        let active = 0;
+        let maxActive = 0;
+        const task = async (): Promise<void> => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            active--;
+        };
+
+        await Promise.all([1, 2, 3, 4, 5].map(() => schedule('test', task)));
+        expect(maxActive).toBe(2);
+    });
+});
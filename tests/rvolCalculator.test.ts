@@ -2,7 +2,14 @@
  * RVOL Calculator Tests
  */
 
-import { calculateRVOL, formatRVOL, formatPriceChange, isBullish } from '../src/services/rvolCalculator';
+import {
+    calculateRVOL,
+    getSetupTier,
+    formatRVOL,
+    formatPriceChange,
+    isBullish,
+    formatSignalThreshold,
+} from '../src/services/rvolCalculator';
 import { StockData } from '../src/types';
 
 describe('RVOL Calculator', () => {
@@ -89,6 +96,155 @@ describe('RVOL Calculator', () => {
             expect(result.volumeWithoutPrice[0].ticker).toBe('MSFT'); // 0.3% change
         });
 
+        it('should exclude stocks with data errors', () => {
+            const withStale: StockData[] = [
+                ...mockStocks,
+                {
+                    ticker: 'STALE',
+                    lastPrice: 10,
+                    priceChange: 0,
+                    currentVolume: 9000,
+                    avgVolume: 1000,
+                    rvol: 9,
+                    qualityFlags: [{ code: 'stale-bar', severity: 'error', message: 'stale' }],
+                },
+            ];
+            const result = calculateRVOL(withStale, {
+                minRVOL: 2.0,
+                topN: 15,
+                priceChangeThreshold: 2,
+            });
+
+            expect(result.topSignals.map((s) => s.ticker)).not.toContain('STALE');
+            expect(result.volumeWithoutPrice.map((s) => s.ticker)).not.toContain('STALE');
+        });
+
+        it('should drop rated stocks below minRsRating and keep unrated ones', () => {
+            const rated = mockStocks.map((s) =>
+                s.ticker === 'NVDA' ? { ...s, relativeStrength: { vsBenchmark: {}, score: -5, rating: 20 } } : s
+            );
+            const result = calculateRVOL(rated, {
+                minRVOL: 2.0,
+                topN: 15,
+                priceChangeThreshold: 2,
+                minRsRating: 50,
+            });
+
+            expect(result.topSignals.map((s) => s.ticker)).toEqual(['AAPL', 'MSFT']);
+        });
+
+        it('should rank a much stronger RS rating ahead at similar RVOL', () => {
+            const close: StockData[] = [
+                { ...mockStocks[0], ticker: 'WEAK', rvol: 3.2, relativeStrength: { vsBenchmark: {}, score: -10, rating: 15 } },
+                { ...mockStocks[0], ticker: 'STRONG', rvol: 3.0, relativeStrength: { vsBenchmark: {}, score: 25, rating: 92 } },
+            ];
+            const result = calculateRVOL(close, {
+                minRVOL: 2.0,
+                topN: 15,
+                priceChangeThreshold: 2,
+            });
+
+            expect(result.topSignals.map((s) => s.ticker)).toEqual(['STRONG', 'WEAK']);
+        });
+
+        it('should list stocks under minRVOL with elevated 5-day RVOL as sustained volume', () => {
+            const withWindows = mockStocks.map((s) =>
+                s.ticker === 'GOOGL' || s.ticker === 'NVDA'
+                    ? { ...s, rvolWindows: { daily: {}, rvol5d: 1.8, elevatedDays: 4 } }
+                    : s
+            );
+            const result = calculateRVOL(withWindows, {
+                minRVOL: 2.0,
+                topN: 15,
+                priceChangeThreshold: 2,
+                minSustainedRvol: 1.5,
+            });
+
+            // NVDA is already a signal today
+            expect(result.sustainedVolume.map((s) => s.ticker)).toEqual(['GOOGL']);
+        });
+
+        it('should list breakout events with confirmed breakouts first', () => {
+            const event = (type: 'breakout' | 'failed-breakout' | 'pullback', volumeConfirmed: boolean) => ({
+                type,
+                pivot: 100,
+                barsAgo: 1,
+                rvol: 2,
+                volumeConfirmed,
+                pctFromPivot: 1,
+            });
+            const withBreakouts = [
+                { ...mockStocks[0], breakout: event('failed-breakout', true) },
+                { ...mockStocks[1], breakout: event('breakout', false) },
+                { ...mockStocks[2], breakout: event('pullback', true) },
+                { ...mockStocks[3], breakout: event('breakout', true) },
+            ];
+            const result = calculateRVOL(withBreakouts, {
+                minRVOL: 10,
+                topN: 15,
+                priceChangeThreshold: 2,
+            });
+
+            expect(result.breakouts.map((s) => s.ticker)).toEqual(['NVDA', 'GOOGL', 'MSFT', 'AAPL']);
+        });
+
+        it('should attach a score breakdown to each signal and rank by it', () => {
+            const setup: Partial<StockData> = { nearSMA21: true, nearAth: true, inConsolidationWindow: true };
+            const ranked = calculateRVOL([mockStocks[0], { ...mockStocks[3], ...setup, rvol: 3.2 }], {
+                minRVOL: 2.0,
+                topN: 15,
+                priceChangeThreshold: 2,
+                scoreWeights: { rvol: 40, setup: 40, rs: 0, price: 0, liquidity: 0, trend: 0 },
+            });
+
+            // NVDA's full setup outweighs AAPL's slightly higher RVOL
+            expect(ranked.topSignals.map((s) => s.ticker)).toEqual(['NVDA', 'AAPL']);
+            expect(ranked.topSignals[0].score?.components.map((c) => c.name)).toEqual(['rvol', 'setup']);
+        });
+
+        it('should select signals by volume z-score or percentile when configured', () => {
+            const baseline = { logMean: 0, logStdDev: 1, sortedVolumes: [] };
+            const stocks: StockData[] = [
+                { ...mockStocks[0], volumeAnomaly: { zScore: 1.2, percentile: 90, baseline } }, // RVOL 3.5, erratic
+                { ...mockStocks[2], volumeAnomaly: { zScore: 3.1, percentile: 99, baseline } }, // RVOL 1.5, steady
+                mockStocks[3], // no history for the statistical metrics
+            ];
+            const cfg = { minRVOL: 2.0, topN: 15, priceChangeThreshold: 2 };
+
+            expect(calculateRVOL(stocks, cfg).topSignals.map((s) => s.ticker)).toEqual(['NVDA', 'AAPL']);
+            expect(
+                calculateRVOL(stocks, { ...cfg, signalMetric: 'zscore', minVolumeZScore: 2 }).topSignals.map((s) => s.ticker)
+            ).toEqual(['GOOGL']);
+            expect(
+                calculateRVOL(stocks, { ...cfg, signalMetric: 'percentile', minVolumePercentile: 95 }).topSignals.map(
+                    (s) => s.ticker
+                )
+            ).toEqual(['GOOGL']);
+            expect(formatSignalThreshold({ ...cfg, signalMetric: 'zscore', minVolumeZScore: 2.5 })).toBe('volume z ≥ 2.5');
+        });
+
+        it('should rank by the configured signal metric', () => {
+            const baseline = { logMean: 0, logStdDev: 1, sortedVolumes: [] };
+            const stocks: StockData[] = [
+                { ...mockStocks[0], rvol: 8, volumeAnomaly: { zScore: 2.2, percentile: 96, baseline } }, // thin, erratic
+                { ...mockStocks[1], rvol: 2.5, volumeAnomaly: { zScore: 3.5, percentile: 99.5, baseline } }, // steady
+            ];
+            const cfg = {
+                minRVOL: 2.0,
+                minVolumeZScore: 2,
+                minVolumePercentile: 95,
+                topN: 15,
+                priceChangeThreshold: 2,
+                scoreWeights: { rvol: 100, setup: 0, rs: 0, price: 0, liquidity: 0, trend: 0 },
+            };
+            const rank = (signalMetric: 'rvol' | 'zscore' | 'percentile'): string[] =>
+                calculateRVOL(stocks, { ...cfg, signalMetric }).topSignals.map((s) => s.ticker);
+
+            expect(rank('rvol')).toEqual(['AAPL', 'MSFT']);
+            expect(rank('zscore')).toEqual(['MSFT', 'AAPL']);
+            expect(rank('percentile')).toEqual(['MSFT', 'AAPL']);
+        });
+
         it('should return empty arrays when no stocks meet threshold', () => {
             const result = calculateRVOL(mockStocks, {
                 minRVOL: 10.0,
@@ -101,6 +257,24 @@ describe('RVOL Calculator', () => {
         });
     });
 
+    describe('getSetupTier', () => {
+        const nearEverything: StockData = { ...mockStocks[0], nearSMA21: true, nearAth: true };
+        const pattern = { type: 'flat-base' as const, depthPct: 8, pivot: 185, lengthBars: 30, quality: 45 };
+
+        it('counts a quality base pattern as a met base', () => {
+            expect(getSetupTier({ ...nearEverything, basePattern: { ...pattern, quality: 80 }, hasBasePattern: true })).toBe('full');
+        });
+
+        it('counts a weaker base pattern as a close base', () => {
+            expect(getSetupTier({ ...nearEverything, basePattern: pattern, hasBasePattern: false })).toBe('close');
+        });
+
+        it('requires some base', () => {
+            expect(getSetupTier(nearEverything)).toBe('none');
+            expect(getSetupTier({ ...nearEverything, inConsolidationWindow: true })).toBe('full');
+        });
+    });
+
     describe('formatRVOL', () => {
         it('should format RVOL with 2 decimal places and x suffix', () => {
             expect(formatRVOL(3.5)).toBe('3.50x');
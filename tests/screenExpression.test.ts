@@ -0,0 +1,64 @@
+/**
+ * Screen expression tests
+ */
+
+import { compileScreenExpression, screenFieldPaths, FieldLookup } from '../src/utils/screenExpression';
+
+const fields =
+    (values: Record<string, unknown>): FieldLookup =>
+    (path) =>
+        values[path];
+
+const matches = (expression: string, values: Record<string, unknown>): boolean =>
+    compileScreenExpression(expression)(fields(values));
+
+describe('compileScreenExpression', () => {
+    const stock = { rvol: 3.5, rsi: 62, pctFromAth: -8, 'gap.category': 'gap-and-go', nearAth: true, priceChange: -0.4 };
+
+    it('combines comparisons with and / or / not', () => {
+        expect(matches('rvol >= 3 and rsi < 70 and pctFromAth > -10', stock)).toBe(true);
+        expect(matches('rvol >= 4 or rsi < 60', stock)).toBe(false);
+        expect(matches('not (rvol >= 4) and nearAth', stock)).toBe(true);
+    });
+
+    it('binds and tighter than or', () => {
+        expect(matches('rvol > 10 and rsi > 90 or nearAth', stock)).toBe(true);
+        expect(matches('rvol > 10 and (rsi > 90 or nearAth)', stock)).toBe(false);
+    });
+
+    it('supports arithmetic, unary minus and abs()', () => {
+        expect(matches('rvol * 2 == 7', stock)).toBe(true);
+        expect(matches('abs(priceChange) < 1 and -pctFromAth <= 8', stock)).toBe(true);
+        expect(matches('rvol / 0 > 1', stock)).toBe(false);
+    });
+
+    it('compares strings case-insensitively and accepts = for ==', () => {
+        expect(matches("gap.category == 'GAP-AND-GO'", stock)).toBe(true);
+        expect(matches('gap.category = "gap-fade"', stock)).toBe(false);
+        expect(matches("gap.category != 'gap-fade'", stock)).toBe(true);
+    });
+
+    it('never matches a comparison on a missing field', () => {
+        expect(matches('adrPct < 5', stock)).toBe(false);
+        expect(matches('adrPct != 5', stock)).toBe(false);
+        expect(matches('not adrPct', stock)).toBe(true);
+    });
+
+    it('accepts keywords in any case and booleans', () => {
+        expect(matches('rvol > 3 AND nearAth == TRUE', stock)).toBe(true);
+    });
+
+    it('reports the position of syntax errors', () => {
+        expect(() => compileScreenExpression('rvol >= ')).toThrow('unexpected end of expression at position 9');
+        expect(() => compileScreenExpression('(rvol > 2')).toThrow('expected ")" at position 10');
+        expect(() => compileScreenExpression('rvol > 2 rsi')).toThrow('unexpected "rsi" at position 10');
+        expect(() => compileScreenExpression('rvol # 2')).toThrow('unexpected "#" at position 6');
+        expect(() => compileScreenExpression('')).toThrow('unexpected end of expression');
+    });
+});
+
+describe('screenFieldPaths', () => {
+    it('lists each field path once, in order of first use', () => {
+        expect(screenFieldPaths('abs(gap.gapPct) > 2 and not (rvol < 3 or -rvol > rsi)')).toEqual(['gap.gapPct', 'rvol', 'rsi']);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Screens tests: loading definitions and evaluating them against stocks
+ */
+
+import { parseScreensJson, parseScreensCsv, runScreens, stockFields } from '../src/services/screens';
+import { StockData } from '../src/types';
+import logger from '../src/utils/logger';
+
+const stock = (ticker: string, overrides: Partial<StockData> = {}): StockData => ({
+    ticker,
+    currentVolume: 1000,
+    avgVolume: 250,
+    rvol: 4,
+    priceChange: 1,
+    lastPrice: 50,
+    ...overrides,
+});
+
+describe('parseScreensJson', () => {
+    it('reads name/expression pairs and skips incomplete entries', () => {
+        const json = JSON.stringify([
+            { name: 'Momentum', expression: 'rvol >= 3' },
+            { name: 'No expression' },
+            'junk',
+        ]);
+        expect(parseScreensJson(json)).toEqual([{ name: 'Momentum', expression: 'rvol >= 3' }]);
+    });
+
+    it('throws when the file is not an array', () => {
+        expect(() => parseScreensJson('{"name":"x"}')).toThrow('Screens file must be a JSON array');
+    });
+});
+
+describe('parseScreensCsv', () => {
+    it('skips the header and keeps commas inside quoted expressions', () => {
+        const csv = 'Name,Expression\nMomentum,rvol >= 3 and rsi < 70\n"Quiet, tight","abs(priceChange) < 1"\nEmpty,\n';
+        expect(parseScreensCsv(csv)).toEqual([
+            { name: 'Momentum', expression: 'rvol >= 3 and rsi < 70' },
+            { name: 'Quiet, tight', expression: 'abs(priceChange) < 1' },
+        ]);
+    });
+});
+
+describe('stockFields', () => {
+    it('resolves dotted paths and shorthands', () => {
+        const lookup = stockFields(
+            stock('AAA', { relativeStrength: { vsBenchmark: {}, score: 10, rating: 88 }, sma50: 40 })
+        );
+        expect(lookup('relativeStrength.rating')).toBe(88);
+        expect(lookup('rsRating')).toBe(88);
+        expect(lookup('setup')).toBe('none');
+        expect(lookup('score')).toBeGreaterThan(0);
+        expect(lookup('gap.category')).toBeUndefined();
+    });
+});
+
+describe('runScreens', () => {
+    const stocks = [
+        stock('LOW', { rvol: 3, rsi: 50 }),
+        stock('HIGH', { rvol: 6, rsi: 60 }),
+        stock('HOT', { rvol: 5, rsi: 80 }),
+        stock('BAD', { rvol: 9, rsi: 50, qualityFlags: [{ code: 'stale-bar', severity: 'error', message: 'stale' }] }),
+    ];
+
+    it('returns matches per screen, highest RVOL first, without stocks with data errors', () => {
+        const [result] = runScreens([{ name: 'Momentum', expression: 'rvol >= 3 and rsi < 70' }], stocks);
+        expect(result.stocks.map((s) => s.ticker)).toEqual(['HIGH', 'LOW']);
+    });
+
+    it('skips screens with an invalid expression', () => {
+        const results = runScreens(
+            [
+                { name: 'Broken', expression: 'rvol >=' },
+                { name: 'Overbought', expression: 'rsi > 70' },
+            ],
+            stocks
+        );
+        expect(results.map((r) => r.name)).toEqual(['Overbought']);
+        expect(results[0].stocks.map((s) => s.ticker)).toEqual(['HOT']);
+    });
+
+    it('warns about unknown fields', () => {
+        const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+        const [result] = runScreens([{ name: 'Typo', expression: 'rvl >= 3 or rsRating > 80 or gap.category == "up"' }], stocks);
+        expect(result.stocks).toEqual([]);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain('unknown field(s) rvl');
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Sector stats tests
+ */
+
+import { calculateSectorStats } from '../src/services/sectorStats';
+import { StockData } from '../src/types';
+
+const stock = (ticker: string, sector: string | undefined, rvol: number, priceChange: number, avgVolume = 1000): StockData => ({
+    ticker,
+    sector,
+    currentVolume: rvol * avgVolume,
+    avgVolume,
+    rvol,
+    priceChange,
+    lastPrice: 10,
+});
+
+const cfg = { minRVOL: 2, surgeRvol: 1.5, surgeMinNames: 2 };
+
+describe('calculateSectorStats', () => {
+    it('aggregates median RVOL, breadth, advance/decline and average change', () => {
+        const [tech] = calculateSectorStats(
+            [stock('A', 'Tech', 1, 2), stock('B', 'Tech', 3, -1), stock('C', 'Tech', 2, 0), stock('D', 'Tech', 0.5, 3)],
+            cfg
+        );
+
+        expect(tech.sector).toBe('Tech');
+        expect(tech.count).toBe(4);
+        expect(tech.medianRvol).toBeCloseTo(1.5);
+        expect(tech.pctAboveMinRvol).toBeCloseTo(50);
+        expect(tech.advancers).toBe(2);
+        expect(tech.decliners).toBe(1);
+        expect(tech.avgPriceChange).toBeCloseTo(1);
+    });
+
+    it('weights the aggregate RVOL by average volume', () => {
+        const [sector] = calculateSectorStats([stock('BIG', 'X', 1, 0, 9000), stock('SMALL', 'X', 5, 0, 1000)], cfg);
+        expect(sector.aggregateRvol).toBeCloseTo(1.4); // (9000 + 5000) / 10000
+    });
+
+    it('flags a surge only when several names run hot together', () => {
+        const stats = calculateSectorStats(
+            [
+                stock('A', 'Energy', 2, 1),
+                stock('B', 'Energy', 1.8, 1),
+                stock('C', 'Energy', 1.2, 1),
+                stock('D', 'Biotech', 6, 4),
+                stock('E', 'Biotech', 0.9, 0),
+                stock('F', undefined, 3, 0),
+            ],
+            cfg
+        );
+        const bySector = Object.fromEntries(stats.map((s) => [s.sector, s]));
+
+        expect(bySector.Energy.surge).toBe(true);
+        expect(bySector.Biotech.surge).toBe(false); // one stock carries the combined RVOL
+        expect(bySector.Other.count).toBe(1);
+        expect(stats[0].sector).toBe('Energy');
+    });
+
+    it('leaves out stocks with data errors', () => {
+        const bad: StockData = {
+            ...stock('BAD', 'Tech', 9, 0),
+            qualityFlags: [{ code: 'stale-bar', severity: 'error', message: 'stale' }],
+        };
+        const [tech] = calculateSectorStats([stock('A', 'Tech', 1, 0), bad], cfg);
+        expect(tech.count).toBe(1);
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Signal history tests
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+    applySignalHistory,
+    recordSignals,
+    loadSignalHistory,
+    saveSignalHistory,
+    SignalHistoryFile,
+} from '../src/services/signalHistory';
+import { RVOLResult } from '../src/types';
+
+const signal = (ticker: string, overrides: Partial<RVOLResult> = {}): RVOLResult => ({
+    ticker,
+    currentVolume: 3000,
+    avgVolume: 1000,
+    rvol: 3,
+    priceChange: 2,
+    lastPrice: 100,
+    news: [],
+    isVolumeWithoutPrice: false,
+    ...overrides,
+});
+
+const fullSetup: Partial<RVOLResult> = { nearSMA21: true, nearAth: true, inConsolidationWindow: true };
+const closeSetup: Partial<RVOLResult> = { nearSMA21Close: true, nearAthClose: true, inConsolidationClose: true };
+
+const history: SignalHistoryFile = {
+    version: 1,
+    sessions: ['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06'],
+    signals: {
+        STREAK: [
+            { date: '2026-03-04', setup: 'none' },
+            { date: '2026-03-05', setup: 'none' },
+            { date: '2026-03-06', setup: 'none' },
+        ],
+        OLD: [{ date: '2026-01-15', setup: 'none' }],
+        UPGRADE: [{ date: '2026-03-06', setup: 'close' }],
+        STALE: [{ date: '2026-03-03', setup: 'close' }],
+    },
+};
+
+describe('applySignalHistory', () => {
+    it('counts flagged sessions in the window and the days since the previous signal', () => {
+        const [streak] = applySignalHistory(history, [signal('STREAK')], '2026-03-09', 20);
+        expect(streak.history).toEqual({
+            flaggedSessions: 4,
+            sessions: 6,
+            previousSignalDate: '2026-03-06',
+            daysSincePrevious: 3,
+            isNew: false,
+            setupUpgraded: false,
+        });
+    });
+
+    it('marks signals new when not flagged earlier in the window', () => {
+        const [old, fresh] = applySignalHistory(history, [signal('OLD'), signal('FRESH')], '2026-03-09', 20);
+        expect(old.history).toMatchObject({ isNew: true, daysSincePrevious: 53, flaggedSessions: 1 });
+        expect(fresh.history).toMatchObject({ isNew: true, previousSignalDate: undefined });
+
+        // A 3-session window only reaches back to 03-05 and 03-06
+        const [streak] = applySignalHistory(history, [signal('STREAK')], '2026-03-09', 3);
+        expect(streak.history).toMatchObject({ flaggedSessions: 3, sessions: 3 });
+    });
+
+    it('flags a 👀 → 🎯 setup upgrade', () => {
+        const [upgraded, same] = applySignalHistory(
+            history,
+            [signal('UPGRADE', fullSetup), signal('STREAK', closeSetup)],
+            '2026-03-09',
+            20
+        );
+        expect(upgraded.history?.setupUpgraded).toBe(true);
+        expect(same.history?.setupUpgraded).toBe(false);
+    });
+
+    it('only counts an upgrade from the immediately preceding session', () => {
+        const [stale] = applySignalHistory(history, [signal('STALE', fullSetup)], '2026-03-09', 20);
+        expect(stale.history).toMatchObject({ previousSignalDate: '2026-03-03', setupUpgraded: false });
+    });
+
+    it('leaves signals unannotated without earlier runs', () => {
+        const [s] = applySignalHistory({ version: 1, sessions: [], signals: {} }, [signal('AAA')], '2026-03-09', 20);
+        expect(s.history).toBeUndefined();
+    });
+});
+
+describe('recordSignals', () => {
+    it('adds the run and its signals, replacing a rerun of the same date', () => {
+        const first = recordSignals(history, [signal('AAA'), signal('STREAK')], '2026-03-09');
+        const rerun = recordSignals(first, [signal('STREAK', fullSetup)], '2026-03-09');
+
+        expect(rerun.sessions.slice(-2)).toEqual(['2026-03-06', '2026-03-09']);
+        expect(rerun.signals.AAA).toBeUndefined();
+        expect(rerun.signals.STREAK.slice(-1)).toEqual([{ date: '2026-03-09', setup: 'full' }]);
+        expect(rerun.signals.STREAK).toHaveLength(4);
+    });
+
+    it('drops entries older than a year', () => {
+        const next = recordSignals(history, [], '2027-02-01');
+        expect(next.signals.OLD).toBeUndefined();
+        expect(next.signals.STREAK).toHaveLength(3);
+    });
+});
+
+describe('loadSignalHistory / saveSignalHistory', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'signal-history-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('round-trips the file and starts empty when missing or from another version', () => {
+        const file = path.join(dir, 'nested', 'history.json');
+        expect(loadSignalHistory(file)).toEqual({ version: 1, sessions: [], signals: {} });
+
+        saveSignalHistory(file, history);
+        expect(loadSignalHistory(file)).toEqual(history);
+
+        fs.writeFileSync(file, JSON.stringify({ ...history, version: 0 }));
+        expect(loadSignalHistory(file).sessions).toEqual([]);
+    });
+});
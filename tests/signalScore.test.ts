@@ -0,0 +1,82 @@
+/**
+ * Composite signal score tests
+ */
+
+import { scoreSignal, parseScoreWeights, formatScoreBreakdown, DEFAULT_SCORE_WEIGHTS } from '../src/services/signalScore';
+import { StockData } from '../src/types';
+import logger from '../src/utils/logger';
+
+const stock: StockData = {
+    ticker: 'TEST',
+    currentVolume: 1000,
+    avgVolume: 100,
+    rvol: 10,
+    priceChange: 0,
+    lastPrice: 50,
+};
+
+describe('scoreSignal', () => {
+    it('weights normalized components and skips unknown inputs', () => {
+        const score = scoreSignal(stock, 'full');
+
+        // rvol 1.0 × 40, setup 1.0 × 20, price 0.5 × 10 over the 70 known weight
+        expect(score.components.map((c) => c.name)).toEqual(['rvol', 'setup', 'price']);
+        expect(score.total).toBeCloseTo(((40 + 20 + 5) / 70) * 100);
+    });
+
+    it('sums component points to the total', () => {
+        const score = scoreSignal(
+            {
+                ...stock,
+                rvol: 3,
+                priceChange: 2,
+                sma50: 45,
+                sma200: 55,
+                dollarVolume: 10e6,
+                relativeStrength: { vsBenchmark: {}, score: 5, rating: 80 },
+            },
+            'close'
+        );
+        const trend = score.components.find((c) => c.name === 'trend')!;
+        const liquidity = score.components.find((c) => c.name === 'liquidity')!;
+
+        expect(trend.value).toBeCloseTo(0.5); // above SMA50, below SMA200
+        expect(liquidity.value).toBeCloseTo(1 / 3); // $10M on the $1M–$1B log scale
+        expect(score.components.reduce((sum, c) => sum + c.points, 0)).toBeCloseTo(score.total);
+    });
+
+    it('leaves out components weighted 0', () => {
+        const score = scoreSignal(stock, 'none', { ...DEFAULT_SCORE_WEIGHTS, setup: 0, price: 0 });
+        expect(score.components.map((c) => c.name)).toEqual(['rvol']);
+        expect(score.total).toBeCloseTo(100);
+    });
+});
+
+describe('parseScoreWeights', () => {
+    it('overrides listed components and keeps defaults for the rest', () => {
+        expect(parseScoreWeights('rvol=60, RS=0,unknown=5,trend=x')).toEqual({
+            ...DEFAULT_SCORE_WEIGHTS,
+            rvol: 60,
+            rs: 0,
+        });
+    });
+
+    it('ignores and logs unknown components, including prototype keys', () => {
+        const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+        const weights = parseScoreWeights('constructor=5,toString=1,volume=3');
+        expect(weights).toEqual(DEFAULT_SCORE_WEIGHTS);
+        expect(Object.hasOwn(weights, 'constructor')).toBe(false);
+        expect(warn).toHaveBeenCalledTimes(3);
+        warn.mockRestore();
+    });
+
+    it('returns the defaults for an empty spec', () => {
+        expect(parseScoreWeights('')).toEqual(DEFAULT_SCORE_WEIGHTS);
+    });
+});
+
+describe('formatScoreBreakdown', () => {
+    it('lists component points, largest first', () => {
+        expect(formatScoreBreakdown(scoreSignal(stock, 'full'))).toBe('RVOL 57 · Setup 29 · Price 7');
+    });
+});
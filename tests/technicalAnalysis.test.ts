@@ -0,0 +1,120 @@
+/**
+ * Indicator tests (EMA, MACD, Bollinger Bands, ATR, ADX)
+ */
+
+import {
+    calculateEMA,
+    calculateMACD,
+    calculateBollingerBands,
+    calculateATR,
+    calculateADX,
+    calculateAdrPct,
+    calculatePriceHigh,
+} from '../src/utils/technicalAnalysis';
+import { Bar } from '../src/types';
+
+const flat = (n: number, value: number): number[] => Array.from({ length: n }, () => value);
+const rising = (n: number): number[] => Array.from({ length: n }, (_, i) => 100 + i);
+
+/** Bars around each close with high/low `spread` away */
+function toBars(closes: number[], spread: number = 1): Bar[] {
+    return closes.map((close) => ({ open: close, high: close + spread, low: close - spread, close, adjClose: close, volume: 1000 }));
+}
+
+describe('calculateEMA', () => {
+    it('seeds with the SMA and smooths by 2 / (n + 1)', () => {
+        // seed = (1 + 2 + 3) / 3 = 2; then 4 × 0.5 + 2 × 0.5 = 3; then 5 × 0.5 + 3 × 0.5 = 4
+        expect(calculateEMA([1, 2, 3, 4, 5], 3)).toBeCloseTo(4);
+    });
+
+    it('returns undefined when history is shorter than the period', () => {
+        expect(calculateEMA([1, 2], 3)).toBeUndefined();
+    });
+});
+
+describe('calculateMACD', () => {
+    it('is zero for a flat series', () => {
+        const macd = calculateMACD(flat(60, 50))!;
+        expect(macd.macd).toBeCloseTo(0);
+        expect(macd.signal).toBeCloseTo(0);
+        expect(macd.histogram).toBeCloseTo(0);
+    });
+
+    it('is positive in an uptrend', () => {
+        const macd = calculateMACD(rising(60))!;
+        expect(macd.macd).toBeGreaterThan(0);
+        expect(macd.signal).toBeGreaterThan(0);
+    });
+
+    it('needs slow + signal periods of history', () => {
+        expect(calculateMACD(rising(33))).toBeUndefined();
+        expect(calculateMACD(rising(34))).toBeDefined();
+    });
+});
+
+describe('calculateBollingerBands', () => {
+    it('uses SMA ± 2 population standard deviations', () => {
+        const bands = calculateBollingerBands([1, 2, 3, 4, 5], 5, 2)!;
+        expect(bands.middle).toBeCloseTo(3);
+        expect(bands.upper).toBeCloseTo(3 + 2 * Math.SQRT2);
+        expect(bands.lower).toBeCloseTo(3 - 2 * Math.SQRT2);
+        expect(bands.bandwidth).toBeCloseTo(((4 * Math.SQRT2) / 3) * 100);
+    });
+
+    it('has zero bandwidth for a flat series', () => {
+        expect(calculateBollingerBands(flat(20, 10))!.bandwidth).toBe(0);
+    });
+});
+
+describe('calculateATR', () => {
+    it('averages the true range', () => {
+        expect(calculateATR(toBars(flat(20, 100)))).toBeCloseTo(2);
+    });
+
+    it('includes gaps from the previous close', () => {
+        expect(calculateATR(toBars([100, 110]), 1)).toBeCloseTo(11);
+    });
+
+    it('returns undefined when history is too short', () => {
+        expect(calculateATR(toBars(flat(14, 100)))).toBeUndefined();
+    });
+});
+
+describe('calculateAdrPct', () => {
+    it('averages high ÷ low − 1', () => {
+        expect(calculateAdrPct(toBars(flat(20, 100), 1))).toBeCloseTo((101 / 99 - 1) * 100);
+    });
+});
+
+describe('calculateADX', () => {
+    it('shows a strong trend with +DI leading in an uptrend', () => {
+        const adx = calculateADX(toBars(rising(60)))!;
+        expect(adx.adx).toBeGreaterThan(50);
+        expect(adx.plusDI).toBeGreaterThan(adx.minusDI);
+    });
+
+    it('needs two periods of history', () => {
+        expect(calculateADX(toBars(rising(28)))).toBeUndefined();
+    });
+});
+
+describe('calculatePriceHigh', () => {
+    it('uses intraday highs rather than closing highs', () => {
+        const bars = toBars(flat(100, 100)).map((b, i) => ({ ...b, date: `d${i}` }));
+        bars[37] = { ...bars[37], high: 120 };
+        const result = calculatePriceHigh(bars, 252)!;
+
+        expect(result.price).toBe(120);
+        expect(result.date).toBe('d37');
+        expect(result.pctFrom).toBeCloseTo(((100 - 120) / 120) * 100);
+        expect(result.monthsSince).toBeCloseTo(62 / 21);
+    });
+
+    it('limits the window to the lookback', () => {
+        const bars = toBars(flat(300, 100));
+        bars[10] = { ...bars[10], high: 150 };
+
+        expect(calculatePriceHigh(bars, 252)!.price).toBe(101);
+        expect(calculatePriceHigh(bars)!.price).toBe(150);
+    });
+});
@@ -9,6 +9,17 @@ jest.mock('../src/config/index.js', () => ({
         telegramChatId: 'mock-chat-id',
         llmPerStock: false,
         llmMinRvol: 0,
+        minRVOL: 2,
+        signalMetric: 'rvol',
+        intradayLookbackDays: 20,
+        bollingerSqueezeBandwidthPct: 10,
+        gapMinPct: 1,
+        breakoutMinRvol: 1.5,
+        yahooHistoryRange: '5y',
+        avwapCloseThresholdPct: 2,
+        signalHistorySessions: 20,
+        sectorSurgeRvol: 1.5,
+        sectorSurgeMinNames: 2,
     },
 }));
 jest.mock('../src/services/llmSummary.js', () => ({
@@ -108,7 +119,7 @@ describe('Telegram Formatter', () => {
         });
 
         it('should include failed tickers section when provided', () => {
-            const report = formatDailyReport('2026-02-01', mockSignals, [], ['BAD.TA', 'MISSING']);
+            const report = formatDailyReport('2026-02-01', mockSignals, [], { failedTickers: ['BAD.TA', 'MISSING'] });
 
             expect(report).toContain('Could not check (fetch error)');
             expect(report).toContain('BAD.TA');
@@ -116,13 +127,189 @@ describe('Telegram Formatter', () => {
         });
 
         it('should include failed tickers in empty-signals report', () => {
-            const report = formatDailyReport('2026-02-01', [], [], ['ERR1']);
+            const report = formatDailyReport('2026-02-01', [], [], { failedTickers: ['ERR1'] });
 
             expect(report).toContain('No high-volume signals detected today');
             expect(report).toContain('Could not check (fetch error)');
             expect(report).toContain('ERR1');
         });
 
+        it('should list data issues with excluded stocks first', () => {
+            const issues: StockData[] = [
+                {
+                    ...mockVolumeWithoutPrice[0],
+                    ticker: 'WARN',
+                    qualityFlags: [{ code: 'short-history', severity: 'warning', message: 'only 40 bars of history' }],
+                },
+                {
+                    ...mockVolumeWithoutPrice[0],
+                    ticker: 'STALE',
+                    qualityFlags: [{ code: 'stale-bar', severity: 'error', message: 'last bar 2026-01-29 is older than the latest session' }],
+                },
+            ];
+            const report = formatDailyReport('2026-02-01', mockSignals, [], { dataIssues: issues });
+
+            expect(report).toContain('Data issues');
+            expect(report.indexOf('STALE')).toBeLessThan(report.indexOf('WARN'));
+            expect(report).toContain('⛔ last bar 2026-01-29');
+        });
+
+        it('should show prices in the listing currency with USD traded value', () => {
+            const teva: RVOLResult = {
+                ...mockSignals[0],
+                ticker: 'TEVA.TA',
+                lastPrice: 61.2,
+                currency: 'ILS',
+                dollarVolume: 12_500_000,
+            };
+            const report = formatDailyReport('2026-02-01', [teva], []);
+
+            expect(report).toContain('₪61.20');
+            expect(report).toContain('$12.5M traded');
+            expect(formatDailyReport('2026-02-01', mockSignals, [])).toContain('$850.00');
+        });
+
+        it('should show the RS rating with outperformance vs the benchmark', () => {
+            const rated: RVOLResult = {
+                ...mockSignals[0],
+                relativeStrength: { benchmark: 'SPY', vsBenchmark: { m3: 8.14, m6: -3.2 }, score: 4.4, rating: 87 },
+            };
+            const report = formatDailyReport('2026-02-01', [rated], []);
+
+            expect(report).toContain('<b>RS</b> 87 <i>(vs SPY 3m +8.1% · 6m −3.2%)</i>');
+        });
+
+        it('should mark accumulation vs distribution in the silent activity watchlist', () => {
+            const volumeAnalytics = {
+                obvTrend: 'rising' as const,
+                accumulationDays: 5,
+                distributionDays: 1,
+                pocketPivot: false,
+                pocketPivotBarsAgo: 3,
+                bias: 'accumulation' as const,
+            };
+            const report = formatDailyReport('2026-02-01', mockSignals, [{ ...mockVolumeWithoutPrice[0], volumeAnalytics }]);
+
+            expect(report).toContain('<b>MSFT</b> (2.2x) 🟢 Accumulation · PP');
+        });
+
+        it('should list sustained volume even without signals', () => {
+            const sustained: StockData = {
+                ...mockVolumeWithoutPrice[0],
+                rvol: 1.3,
+                rvolWindows: { daily: { 63: 1.3 }, rvol5d: 1.84, weekly: 1.6, elevatedDays: 4 },
+            };
+            const report = formatDailyReport('2026-02-01', [], [], { sustainedVolume: [sustained] });
+
+            expect(report).toContain('SUSTAINED VOLUME');
+            expect(report).toContain('<b>MSFT</b> 5d 1.8x · wk 1.6x · 4/5 days elevated <i>(today 1.3x)</i>');
+        });
+
+        it('should highlight breakout events at the top of the report', () => {
+            const breakout = {
+                type: 'breakout' as const,
+                pivot: 120,
+                barsAgo: 0,
+                rvol: 2.34,
+                volumeConfirmed: true,
+                pctFromPivot: 1.5,
+            };
+            const report = formatDailyReport('2026-02-01', mockSignals, [], { breakouts: [{ ...mockSignals[1], breakout }] });
+
+            expect(report).toContain('🚀 <b>AMD</b> cleared $120.00 today on 2.3x ✓ (+1.5%)');
+            expect(report.indexOf('BREAKOUTS')).toBeLessThan(report.indexOf('NVDA'));
+        });
+
+        it('should split signals into gap groups when any signal gapped', () => {
+            const gapUp = {
+                direction: 'up' as const,
+                gapPct: 3.2,
+                filled: false,
+                fillPct: 0,
+                closeLocation: 0.82,
+                category: 'gap-and-go' as const,
+            };
+            const report = formatDailyReport('2026-02-01', [mockSignals[0], { ...mockSignals[1], gap: gapUp }], []);
+
+            expect(report).toContain('<b>Gap</b> ▲+3.2% held | <b>CL</b> 82%');
+            expect(report.indexOf('GAP &amp; GO')).toBeLessThan(report.indexOf('AMD'));
+            expect(report.indexOf('NO GAP')).toBeLessThan(report.indexOf('NVDA'));
+            expect(report).not.toContain('GAP FADE');
+            expect(formatDailyReport('2026-02-01', mockSignals, [])).not.toContain('NO GAP');
+        });
+
+        it('should show anchored VWAP distances in the setup block', () => {
+            const anchoredVwaps = [
+                { anchor: 'high52w' as const, date: '2025-11-03', vwap: 800, pctFrom: 6.25 },
+                { anchor: 'highRvolDay' as const, vwap: 860, pctFrom: -1.2 },
+            ];
+            const report = formatDailyReport('2026-02-01', [{ ...mockSignals[0], anchoredVwaps }], []);
+
+            expect(report).toContain('<b>AVWAP</b> 52w high (2025-11-03) +6.3% ✓ | RVOL day -1.2%');
+        });
+
+        it('should order signals by score and show the breakdown', () => {
+            const scored = (signal: RVOLResult, total: number): RVOLResult => ({
+                ...signal,
+                score: { total, components: [{ name: 'rvol', value: total / 100, weight: 40, points: total }] },
+            });
+            const report = formatDailyReport('2026-02-01', [scored(mockSignals[0], 40), scored(mockSignals[1], 65)], []);
+
+            expect(report.indexOf('AMD')).toBeLessThan(report.indexOf('NVDA'));
+            expect(report).toContain('<b>Score</b> 65 <i>(RVOL 65)</i>');
+        });
+
+        it('should add a section per screen with matches', () => {
+            const screens = [
+                { name: 'Momentum', expression: 'rvol >= 3 and rsi < 70', stocks: [mockSignals[0]] },
+                { name: 'Empty', expression: 'rvol > 100', stocks: [] },
+            ];
+            const report = formatDailyReport('2026-02-01', [], [], { screenResults: screens });
+
+            expect(report).toContain('🔎 <b>MOMENTUM</b>\n<i>rvol &gt;= 3 and rsi &lt; 70</i>\n• <b>NVDA</b> 5.0x · +6.25%');
+            expect(report).not.toContain('EMPTY');
+        });
+
+        it('should show the sector heatmap and mark surging sectors', () => {
+            const sector = { count: 4, aggregateRvol: 2.1, advancers: 3, decliners: 1 };
+            const sectorStats = [
+                { ...sector, sector: 'Semis', medianRvol: 2.4, pctAboveMinRvol: 75, avgPriceChange: 2.3, surge: true },
+                { ...sector, sector: 'Banks', medianRvol: 0.8, pctAboveMinRvol: 0, advancers: 1, decliners: 2, avgPriceChange: -0.4, surge: false },
+            ];
+            const signals = [{ ...mockSignals[0], sector: 'Semis' }];
+            const report = formatDailyReport('2026-02-01', signals, [], { sectorStats });
+
+            expect(report).toContain('📍 <b>SEMIS</b> 🌊');
+            expect(report).toContain('🟥 <b>Semis</b> 2.4x · 75% hot · 3▲ 1▼ · +2.3% 🌊 <b>surge</b> (2.1x combined)');
+            expect(report).toContain('🟦 <b>Banks</b> 0.8x · 0% hot · 1▲ 2▼ · -0.4%');
+        });
+
+        it('should mark new signals and show streaks and setup upgrades', () => {
+            const fresh = { flaggedSessions: 1, sessions: 20, daysSincePrevious: 45, isNew: true, setupUpgraded: false };
+            const streak = { flaggedSessions: 5, sessions: 20, daysSincePrevious: 1, isNew: false, setupUpgraded: true };
+            const report = formatDailyReport(
+                '2026-02-01',
+                [
+                    { ...mockSignals[0], history: fresh },
+                    { ...mockSignals[1], history: streak },
+                ],
+                []
+            );
+
+            expect(report).toContain('>NVDA</a></b> 🆕\n');
+            expect(report).toContain('├ 🆕 First signal in 45d\n');
+            expect(report).not.toContain('>AMD</a></b> 🆕');
+            expect(report).toContain('├ 🗓 Flagged 5/20 sessions <i>(prev yesterday)</i> | ⬆️ <b>Setup 👀→🎯 today</b>\n');
+        });
+
+        it('should show the volume z-score and 1-year percentile next to RVOL', () => {
+            const baseline = { logMean: 0, logStdDev: 1, sortedVolumes: [] };
+            const volumeAnomaly = { zScore: 2.44, percentile: 97.2, baseline };
+            const report = formatDailyReport('2026-02-01', [{ ...mockSignals[0], volumeAnomaly }], []);
+
+            expect(report).toContain('├ 📊 <b>RVOL</b> 5.00x | <b>z</b> +2.4 | 97th pct\n');
+        });
+
         it('should not add failed section when failedTickers is empty', () => {
             const report = formatDailyReport('2026-02-01', mockSignals, []);
 
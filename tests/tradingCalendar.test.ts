@@ -0,0 +1,99 @@
+/**
+ * Exchange trading calendar tests
+ */
+
+import {
+    getExchangeForTicker,
+    isTradingDay,
+    getSessionTimes,
+    getSessionState,
+    getBarStatus,
+    previousTradingDay,
+    hasSessionToScan,
+} from '../src/utils/tradingCalendar';
+
+describe('getExchangeForTicker', () => {
+    it('maps ticker suffixes to exchanges', () => {
+        expect(getExchangeForTicker('TEVA.TA')).toBe('TASE');
+        expect(getExchangeForTicker('AAPL')).toBe('US');
+    });
+});
+
+describe('trading days', () => {
+    it('skips weekends and holidays', () => {
+        expect(isTradingDay('US', '2026-11-26')).toBe(false); // Thanksgiving
+        expect(isTradingDay('US', '2026-11-28')).toBe(false); // Saturday
+        expect(isTradingDay('US', '2026-11-27')).toBe(true);
+        expect(isTradingDay('TASE', '2026-09-21')).toBe(false); // Yom Kippur
+    });
+
+    it('applies early closes and weekday close overrides', () => {
+        expect(getSessionTimes('US', '2026-11-27')).toEqual({ open: 570, close: 780, earlyClose: true });
+        expect(getSessionTimes('TASE', '2026-10-16')?.close).toBe(14 * 60); // Friday
+    });
+
+    it('finds the previous trading day across a holiday weekend', () => {
+        expect(previousTradingDay('US', '2027-01-19')).toBe('2027-01-15'); // MLK Monday
+    });
+});
+
+describe('getSessionState', () => {
+    it('reports the session phase in exchange time', () => {
+        // 15:00 UTC = 11:00 New York (EDT)
+        expect(getSessionState('US', new Date('2026-10-19T15:00:00Z')).phase).toBe('open');
+        expect(getSessionState('US', new Date('2026-10-19T21:30:00Z')).phase).toBe('after-close');
+        expect(getSessionState('US', new Date('2026-10-19T12:00:00Z'))).toMatchObject({
+            phase: 'pre-open',
+            latestSession: '2026-10-16',
+        });
+    });
+
+    it('is closed on a holiday with the holiday name', () => {
+        const state = getSessionState('US', new Date('2026-11-26T18:00:00Z'));
+        expect(state.phase).toBe('closed');
+        expect(state.holiday).toBe('Thanksgiving Day');
+        expect(state.latestSession).toBe('2026-11-25');
+    });
+});
+
+describe('hasSessionToScan', () => {
+    it('scans the TASE Friday session from the 21:30 UTC run (already Saturday in Israel)', () => {
+        const fridayRun = new Date('2026-10-16T21:30:00Z');
+        const state = getSessionState('TASE', fridayRun);
+        expect(state).toMatchObject({ phase: 'closed', latestSession: '2026-10-16' });
+        expect(hasSessionToScan(state, fridayRun)).toBe(true);
+    });
+
+    it('scans a session followed by a local holiday', () => {
+        // Thursday evening UTC; Friday 2026-09-11 is Rosh Hashana Eve in Israel
+        const run = new Date('2026-09-10T21:30:00Z');
+        expect(hasSessionToScan(getSessionState('TASE', run), run)).toBe(true);
+    });
+
+    it('skips exchanges without a session on the run date', () => {
+        const saturdayRun = new Date('2026-10-17T21:30:00Z');
+        expect(hasSessionToScan(getSessionState('TASE', saturdayRun), saturdayRun)).toBe(false);
+        const thanksgiving = new Date('2026-11-26T21:30:00Z');
+        expect(hasSessionToScan(getSessionState('US', thanksgiving), thanksgiving)).toBe(false);
+    });
+});
+
+describe('getBarStatus', () => {
+    const afterClose = new Date('2026-10-19T21:30:00Z');
+
+    it('is final when the last bar is the latest completed session', () => {
+        expect(getBarStatus('AAPL', '2026-10-19', afterClose)).toBe('final');
+    });
+
+    it('is partial while the session is in progress', () => {
+        expect(getBarStatus('AAPL', '2026-10-19', new Date('2026-10-19T15:00:00Z'))).toBe('partial');
+    });
+
+    it('is stale when the last bar is older than the latest session', () => {
+        expect(getBarStatus('AAPL', '2026-10-16', afterClose)).toBe('stale');
+    });
+
+    it('is missing without a dated bar', () => {
+        expect(getBarStatus('AAPL', undefined, afterClose)).toBe('missing');
+    });
+});
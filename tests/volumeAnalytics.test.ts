@@ -0,0 +1,95 @@
+/**
+ * Volume analytics tests (up/down volume, OBV, A/D days, pocket pivots)
+ */
+
+import {
+    calculateUpDownVolumeRatio,
+    calculateOBV,
+    countAccumulationDistributionDays,
+    isPocketPivot,
+    analyzeVolume,
+} from '../src/utils/volumeAnalytics';
+import { Bar } from '../src/types';
+
+/** Bars from [close, volume] pairs */
+function toBars(series: [number, number][]): Bar[] {
+    return series.map(([close, volume], i) => ({
+        date: `d${i}`,
+        open: close,
+        high: close + 1,
+        low: close - 1,
+        close,
+        adjClose: close,
+        volume,
+    }));
+}
+
+/**
+ * Alternating up/down days around 100: up days trade `upVolume`, down days `downVolume`;
+ * `drift` is the net move per up/down pair
+ */
+function choppy(n: number, upVolume: number, downVolume: number, drift: number = 0): Bar[] {
+    const series: [number, number][] = [[100, 1000]];
+    for (let i = 1; i < n; i++) {
+        const prev = series[i - 1][0];
+        series.push(i % 2 === 1 ? [prev + 1 + drift, upVolume] : [prev - 1, downVolume]);
+    }
+    return toBars(series);
+}
+
+describe('calculateUpDownVolumeRatio', () => {
+    it('divides up-day volume by down-day volume over the window', () => {
+        expect(calculateUpDownVolumeRatio(choppy(60, 3000, 1000), 50)).toBeCloseTo(3);
+    });
+
+    it('needs period + 1 bars', () => {
+        expect(calculateUpDownVolumeRatio(choppy(50, 3000, 1000), 50)).toBeUndefined();
+    });
+});
+
+describe('calculateOBV', () => {
+    it('adds volume on up closes and subtracts it on down closes', () => {
+        const bars = toBars([[10, 100], [11, 200], [10.5, 50], [10.5, 70], [12, 30]]);
+        expect(calculateOBV(bars)).toEqual([0, 200, 150, 150, 180]);
+    });
+});
+
+describe('countAccumulationDistributionDays', () => {
+    it('counts ≥0.2% moves on above-average volume only', () => {
+        const series: [number, number][] = Array.from({ length: 30 }, () => [100, 1000] as [number, number]);
+        series.push([101, 5000]); // accumulation
+        series.push([100.9, 5000]); // −0.1%: too small
+        series.push([99, 5000]); // distribution
+        series.push([100, 500]); // up on low volume
+        expect(countAccumulationDistributionDays(toBars(series))).toEqual({ accumulationDays: 1, distributionDays: 1 });
+    });
+});
+
+describe('isPocketPivot', () => {
+    it('needs an up close above SMA10 on volume above every prior down day', () => {
+        const base = choppy(20, 1000, 2000);
+        const pivot = toBars([[base[19].close + 3, 2500]])[0];
+        expect(isPocketPivot([...base, pivot])).toBe(true);
+        expect(isPocketPivot([...base, { ...pivot, volume: 1900 }])).toBe(false);
+    });
+});
+
+describe('analyzeVolume', () => {
+    it('reads rising prices on heavy up volume as accumulation', () => {
+        const result = analyzeVolume(choppy(80, 3000, 1000, 0.5))!;
+        expect(result.upDownRatio).toBeGreaterThan(1.2);
+        expect(result.obvTrend).toBe('rising');
+        expect(result.bias).toBe('accumulation');
+    });
+
+    it('flags heavy down volume under a rising price as bearish divergence', () => {
+        const result = analyzeVolume(choppy(80, 1000, 3000, 0.5))!;
+        expect(result.obvTrend).toBe('falling');
+        expect(result.obvDivergence).toBe('bearish');
+        expect(result.bias).toBe('distribution');
+    });
+
+    it('returns undefined for short histories', () => {
+        expect(analyzeVolume(choppy(20, 1000, 1000))).toBeUndefined();
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * Volume anomaly (log-volume z-score, 1-year percentile) tests
+ */
+
+import { buildVolumeBaseline, scoreVolume, calculateVolumeAnomaly } from '../src/utils/volumeAnomaly';
+
+// Alternating 1000 / 4000 shares: ln volume has mean ln(2000) and std dev ln(2)
+const steady = Array.from({ length: 100 }, (_, i) => (i % 2 === 0 ? 1000 : 4000));
+
+describe('buildVolumeBaseline', () => {
+    it('measures log volume over the lookback and sorts the last year', () => {
+        const baseline = buildVolumeBaseline(steady, 64)!;
+
+        expect(Math.exp(baseline.logMean)).toBeCloseTo(2000, 0);
+        expect(baseline.logStdDev).toBeCloseTo(Math.log(2), 2);
+        expect(baseline.sortedVolumes).toHaveLength(100);
+        expect(baseline.sortedVolumes[0]).toBe(1000);
+    });
+
+    it('needs 20 prior sessions', () => {
+        expect(buildVolumeBaseline(steady.slice(0, 19), 63)).toBeUndefined();
+    });
+
+    it('skips zero-volume sessions in the log statistics', () => {
+        const baseline = buildVolumeBaseline([...steady, 0, 0], 66)!;
+        expect(Math.exp(baseline.logMean)).toBeCloseTo(2000, 0);
+    });
+});
+
+describe('scoreVolume', () => {
+    const baseline = buildVolumeBaseline(steady, 64)!;
+
+    it('scores the z-score in log space', () => {
+        expect(scoreVolume(baseline, 8000).zScore).toBeCloseTo(2, 1); // two doublings above ln(2000)
+        expect(scoreVolume(baseline, 2000).zScore).toBeCloseTo(0, 1);
+    });
+
+    it('ranks the volume within the year, ties counted half', () => {
+        expect(scoreVolume(baseline, 9000).percentile).toBe(100);
+        expect(scoreVolume(baseline, 4000).percentile).toBe(75);
+        expect(scoreVolume(baseline, 500).percentile).toBe(0);
+    });
+
+    it('leaves the z-score undefined without volume or dispersion', () => {
+        expect(scoreVolume(baseline, 0).zScore).toBeUndefined();
+        const flat = buildVolumeBaseline(Array(30).fill(1000), 63)!;
+        expect(scoreVolume(flat, 5000).zScore).toBeUndefined();
+        expect(scoreVolume(flat, 5000).percentile).toBe(100);
+    });
+});
+
+describe('calculateVolumeAnomaly', () => {
+    it('scores the last session against the sessions before it', () => {
+        const anomaly = calculateVolumeAnomaly([...steady, 8000], 64)!;
+        expect(anomaly.zScore).toBeCloseTo(2, 1);
+        expect(anomaly.percentile).toBe(100);
+        expect(anomaly.baseline.sortedVolumes).not.toContain(8000);
+    });
+
+    it('treats a steady stock spike as more anomalous than the same RVOL on an erratic one', () => {
+        const erratic = Array.from({ length: 100 }, (_, i) => (i % 2 === 0 ? 250 : 16000));
+        const quiet = Array.from({ length: 100 }, (_, i) => (i % 2 === 0 ? 1900 : 2100));
+        const erraticZ = calculateVolumeAnomaly([...erratic, 8000], 64)!.zScore!;
+        const quietZ = calculateVolumeAnomaly([...quiet, 8000], 64)!.zScore!;
+        expect(quietZ).toBeGreaterThan(erraticZ);
+    });
+});
@@ -3,7 +3,7 @@
  * Tests parseWatchlistCsv and fetchAndCacheWatchlist with mocked fetch
  */
 
-import { parseWatchlistCsv, fetchWatchlistCsv, fetchAndCacheWatchlist, loadWatchlist, getSectorForTicker } from '../src/config/index';
+import { parseWatchlistCsv, fetchWatchlistCsv, fetchAndCacheWatchlist, loadWatchlist, getSectorForTicker } from '../src/services/watchlist';
 
 // Mock global fetch
 const mockFetch = jest.fn();
@@ -66,7 +66,7 @@ describe('parseWatchlistCsv', () => {
 
 describe('fetchWatchlistCsv', () => {
     it('returns response text on 200', async () => {
-        mockFetch.mockResolvedValueOnce({ ok: true, text: () => Promise.resolve('Symbol,Sector\nAAPL,Tech') });
+        mockFetch.mockResolvedValueOnce(new Response('Symbol,Sector\nAAPL,Tech'));
         const out = await fetchWatchlistCsv('abc123');
         expect(out).toBe('Symbol,Sector\nAAPL,Tech');
         expect(mockFetch).toHaveBeenCalledWith(
@@ -76,7 +76,7 @@ describe('fetchWatchlistCsv', () => {
     });
 
     it('throws on non-2xx response', async () => {
-        mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+        mockFetch.mockResolvedValueOnce(new Response('', { status: 404, statusText: 'Not Found' }));
         await expect(fetchWatchlistCsv('bad')).rejects.toThrow(
             /Failed to fetch watchlist: 404/
         );
@@ -94,7 +94,7 @@ describe('fetchAndCacheWatchlist', () => {
         const envBefore = process.env[envKey];
         process.env[envKey] = '   ';
         jest.resetModules();
-        const mod = await import('../src/config/index.js');
+        const mod = await import('../src/services/watchlist.js');
         await expect(mod.fetchAndCacheWatchlist()).rejects.toThrow('GOOGLE_SHEET_ID is required');
         process.env[envKey] = envBefore;
         jest.resetModules();
@@ -104,11 +104,8 @@ describe('fetchAndCacheWatchlist', () => {
         const envBefore = process.env[envKey];
         process.env[envKey] = 'test-sheet-id';
         jest.resetModules();
-        mockFetch.mockResolvedValueOnce({
-            ok: true,
-            text: () => Promise.resolve('Symbol,Sector\nAAPL,Technology\nMETA,Technology'),
-        });
-        const mod = await import('../src/config/index.js');
+        mockFetch.mockResolvedValueOnce(new Response('Symbol,Sector\nAAPL,Technology\nMETA,Technology'));
+        const mod = await import('../src/services/watchlist.js');
         await mod.fetchAndCacheWatchlist();
         expect(mod.loadWatchlist()).toEqual(['AAPL', 'META']);
         expect(mod.getSectorForTicker('AAPL')).toBe('Technology');